@@ -0,0 +1,55 @@
+// Picks the tail events logged with OTEL_RECORD_TAIL_EVENTS=true out of `wrangler dev` output
+// and writes one JSONL recording per invocation, ready to be replayed by test/replay.spec.ts.
+//
+//   npx wrangler dev --var OTEL_RECORD_TAIL_EVENTS:true | node scripts/record-tail-events.mjs test/fixtures/recordings
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+
+// Keep in sync with RECORDING_LOG_PREFIX in src/recording.ts
+const PREFIX = '[tail-event] ';
+
+const outDir = process.argv[2] ?? 'test/fixtures/recordings';
+mkdirSync(outDir, { recursive: true });
+
+// Lines recorded so far, by invocation ID
+const invocations = new Map();
+
+function save(invocationId, lines, outcome) {
+	const onset = JSON.parse(lines[0]).event;
+	const base = `${onset.type === 'onset' ? onset.info.type : 'unknown'}-${outcome}`;
+
+	let file = join(outDir, `${base}.jsonl`);
+	for (let n = 2; existsSync(file); n++) {
+		file = join(outDir, `${base}-${n}.jsonl`);
+	}
+
+	writeFileSync(file, lines.join('\n') + '\n');
+	console.error(`Recorded invocation ${invocationId} to ${file}`);
+}
+
+for await (const line of createInterface({ input: process.stdin })) {
+	const start = line.indexOf(PREFIX);
+	if (start === -1) {
+		// Everything else wrangler prints still goes to the terminal
+		console.log(line);
+		continue;
+	}
+
+	const json = line.slice(start + PREFIX.length);
+	const { invocationId, event } = JSON.parse(json);
+
+	const lines = invocations.get(invocationId) ?? [];
+	lines.push(json);
+	invocations.set(invocationId, lines);
+
+	// Hibernation ends a segment just like an outcome, the resume onset starts a new recording
+	if (event.type === 'outcome' || event.type === 'hibernate') {
+		invocations.delete(invocationId);
+		save(invocationId, lines, event.type === 'outcome' ? event.outcome : 'hibernated');
+	}
+}
+
+for (const [invocationId, lines] of invocations) {
+	save(invocationId, lines, 'incomplete');
+}
@@ -0,0 +1,45 @@
+// Bundles the worker like `wrangler deploy` would and uploads its source map to the R2 bucket that
+// OTEL_SOURCE_MAPS binds, where the tail worker looks it up to map exception stack traces to src/*.ts.
+//
+//   node scripts/upload-source-maps.mjs <bucket name> [--version <version id>] [--local]
+//
+// Without --version the map becomes `<worker name>.js.map`, used for any version without its own map.
+// --local writes to the bucket `wrangler dev` simulates instead of the real one.
+import { execFileSync } from 'node:child_process';
+import { readdirSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+
+const { values, positionals } = parseArgs({
+	allowPositionals: true,
+	options: { version: { type: 'string' }, local: { type: 'boolean', default: false } }
+});
+const [bucket] = positionals;
+if (!bucket) {
+	console.error('Usage: node scripts/upload-source-maps.mjs <bucket name> [--version <version id>] [--local]');
+	process.exit(1);
+}
+
+// wrangler.jsonc allows comments, which JSON.parse doesn't
+const config = JSON.parse(readFileSync('wrangler.jsonc', 'utf8').replace(/^\s*\/\/.*$|\/\*[\s\S]*?\*\//gm, ''));
+
+// Inside the project, so the map's sources come out relative to it, like `../../src/index.ts`
+const outDir = '.wrangler/source-maps';
+rmSync(outDir, { recursive: true, force: true });
+try {
+	execFileSync('npx', ['wrangler', 'deploy', '--dry-run', '--upload-source-maps', '--outdir', outDir], { stdio: 'inherit' });
+
+	const map = readdirSync(outDir).find(file => file.endsWith('.js.map'));
+	if (!map) {
+		throw new Error(`wrangler didn't write a source map to ${outDir}`);
+	}
+
+	const key = values.version ? `${config.name}/${values.version}.js.map` : `${config.name}.js.map`;
+	const target = values.local ? '--local' : '--remote';
+	execFileSync('npx', ['wrangler', 'r2', 'object', 'put', `${bucket}/${key}`, '--file', join(outDir, map), '--content-type', 'application/json', target], {
+		stdio: 'inherit'
+	});
+	console.error(`Uploaded ${map} to ${bucket}/${key}`);
+} finally {
+	rmSync(outDir, { recursive: true, force: true });
+}
@@ -0,0 +1,30 @@
+// Stands in for an alerting webhook while testing OTEL_ALERTS locally: prints every notification it
+// receives and answers 200, or the status given with --status to try out failed deliveries.
+//
+//   npm run webhook-stub -- [--port 8789] [--status 200]
+//
+// Then point the tail worker at it, e.g. `"OTEL_ALERTS": { "webhook": "http://localhost:8789/alerts", ... }`.
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+
+const { values } = parseArgs({
+	options: { port: { type: 'string', default: '8789' }, status: { type: 'string', default: '200' } }
+});
+
+createServer((request, response) => {
+	let body = '';
+	request.setEncoding('utf8');
+	request.on('data', chunk => (body += chunk));
+	request.on('end', () => {
+		let notification = body;
+		try {
+			notification = JSON.stringify(JSON.parse(body), null, 2);
+		} catch {
+			// Not JSON, print it as it came
+		}
+		console.log(`${new Date().toISOString()} ${request.method} ${request.url}\n${notification}\n`);
+		response.writeHead(Number(values.status)).end();
+	});
+}).listen(Number(values.port), () => {
+	console.error(`Webhook stub listening on http://localhost:${values.port}`);
+});
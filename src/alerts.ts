@@ -0,0 +1,228 @@
+import { OtelSpan, spanDurationMs } from './converter';
+import { globToRegExp, InvocationSummary } from './destinations';
+import { EXCEPTION_EVENT } from './exceptions';
+import type { Redactor } from './redaction';
+
+/**
+ * A rule fires for an invocation when every condition it sets holds: its
+ * outcome is one of `outcomes`, one of its exceptions matches `exception`,
+ * and one of its spans named like `span` ran longer than `maxDurationMs`.
+ */
+export interface AlertRule {
+	name: string;
+	outcomes?: TailStream.EventOutcome[];
+	// Pattern for the exception type or message, `*` matches any run of characters
+	exception?: string;
+	// Span name pattern, e.g. `d1_*`, and the latency budget its spans must stay within
+	span?: string;
+	maxDurationMs?: number;
+	// Only invocations of matching scripts and routes, patterns as above
+	scriptName?: string;
+	route?: string;
+}
+
+export interface AlertsConfig {
+	// Notifications are POSTed here as JSON
+	webhook: string;
+	headers?: Record<string, string>;
+	rules: AlertRule[];
+	// A rule firing again for the same thing within this many seconds is counted rather than sent, 300 by default
+	dedupSeconds?: number;
+	// Notifications sent per minute across every rule, 10 by default; the rest are dropped and counted
+	maxPerMinute?: number;
+}
+
+export interface AlertNotification {
+	rule: string;
+	// What matched, e.g. `outcome exceededCpu` or `span d1_query took 512 ms, over its 200 ms budget`
+	reason: string;
+	scriptName?: string;
+	route?: string;
+	outcome?: TailStream.EventOutcome;
+	traceId: string;
+	// The span that matched, the root span for outcomes
+	spanId: string;
+	// ISO 8601, when the matched span started
+	timestamp: string;
+	// Repeats deduplicated since the last notification of this rule for the same thing
+	suppressed: number;
+	// Notifications of any rule the rate limit dropped since the last one sent
+	dropped: number;
+}
+
+interface CompiledRule {
+	rule: AlertRule;
+	exception?: RegExp;
+	span?: RegExp;
+	scriptName?: RegExp;
+	route?: RegExp;
+}
+
+interface Match {
+	rule: string;
+	reason: string;
+	// Identifies what fired the rule, for deduplication
+	key: string;
+	span: OtelSpan;
+}
+
+const DEFAULT_DEDUP_SECONDS = 300;
+const DEFAULT_MAX_PER_MINUTE = 10;
+// Deduplication keys remembered, the oldest are forgotten first
+const MAX_DEDUP_KEYS = 1000;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Evaluates alert rules against every finished invocation, before sampling
+ * so dropped invocations still alert, and posts matches to a webhook.
+ * Rules match what the invocation actually did, and the redactor scrubs each
+ * notification before it is sent. Deduplication and the rate limit live in
+ * the alerter, so they are shared by every tail stream in the isolate.
+ */
+export class Alerter {
+	private rules: CompiledRule[];
+	private dedupMs: number;
+	private maxPerMinute: number;
+	// When each key last notified, and how many repeats were held back since
+	private recent = new Map<string, { sentAt: number; suppressed: number }>();
+	private tokens: number;
+	private updatedAt = Date.now();
+	private dropped = 0;
+
+	constructor(
+		private config: AlertsConfig,
+		private redactor?: Redactor
+	) {
+		this.rules = config.rules.map(rule => ({
+			rule,
+			exception: rule.exception !== undefined ? globToRegExp(rule.exception) : undefined,
+			span: rule.span !== undefined ? globToRegExp(rule.span) : undefined,
+			scriptName: rule.scriptName !== undefined ? globToRegExp(rule.scriptName) : undefined,
+			route: rule.route !== undefined ? globToRegExp(rule.route) : undefined
+		}));
+		this.dedupMs = (config.dedupSeconds ?? DEFAULT_DEDUP_SECONDS) * 1000;
+		this.maxPerMinute = config.maxPerMinute ?? DEFAULT_MAX_PER_MINUTE;
+		this.tokens = this.maxPerMinute;
+	}
+
+	async evaluate(spans: OtelSpan[], invocation: InvocationSummary): Promise<void> {
+		const root = invocation.rootSpan ?? spans[0];
+		if (!root) return;
+
+		const notifications: AlertNotification[] = [];
+		for (const compiled of this.rules) {
+			const match = this.match(compiled, spans, root, invocation);
+			if (!match) continue;
+
+			const notification = this.admit(match, invocation);
+			if (notification) {
+				notifications.push(notification);
+			}
+		}
+
+		await Promise.all(notifications.map(notification => this.send(notification)));
+	}
+
+	private match(compiled: CompiledRule, spans: OtelSpan[], root: OtelSpan, invocation: InvocationSummary): Match | undefined {
+		const { rule } = compiled;
+		if (compiled.scriptName && !compiled.scriptName.test(invocation.scriptName ?? '')) return undefined;
+		if (compiled.route && !compiled.route.test(invocation.route ?? '')) return undefined;
+
+		const reasons: string[] = [];
+		let span = root;
+
+		if (rule.outcomes) {
+			if (!invocation.outcome || !rule.outcomes.includes(invocation.outcome)) return undefined;
+			reasons.push(`outcome ${invocation.outcome}`);
+		}
+
+		if (compiled.exception) {
+			const pattern = compiled.exception;
+			const thrown = spans.flatMap(candidate =>
+				candidate.events
+					.filter(event => event.name === EXCEPTION_EVENT)
+					.map(event => ({
+						span: candidate,
+						type: String(event.attributes['exception.type']),
+						message: String(event.attributes['exception.message'])
+					}))
+			);
+			const exception = thrown.find(({ type, message }) => pattern.test(type) || pattern.test(message));
+			if (!exception) return undefined;
+			reasons.push(`exception ${exception.type}: ${exception.message}`);
+			span = exception.span;
+		}
+
+		if (compiled.span) {
+			const pattern = compiled.span;
+			const budget = rule.maxDurationMs ?? 0;
+			const slow = spans.find(candidate => pattern.test(candidate.operationName) && spanDurationMs(candidate) > budget);
+			if (!slow) return undefined;
+			reasons.push(`span ${slow.operationName} took ${spanDurationMs(slow)} ms, over its ${budget} ms budget`);
+			span = slow;
+		}
+
+		// Durations differ every time, so slow spans are deduplicated by name alone
+		const subject = reasons.map(reason => reason.replace(/ took .*$/, ''));
+		const key = [rule.name, invocation.scriptName, invocation.route, ...subject].join('\n');
+		return { rule: rule.name, reason: reasons.join(', '), key, span };
+	}
+
+	// Returns the notification to send, or undefined when it is a repeat or over the rate limit
+	private admit(match: Match, invocation: InvocationSummary): AlertNotification | undefined {
+		const now = Date.now();
+		const recent = this.recent.get(match.key);
+		if (recent && now - recent.sentAt < this.dedupMs) {
+			recent.suppressed++;
+			return undefined;
+		}
+
+		this.tokens = Math.min(this.maxPerMinute, this.tokens + ((now - this.updatedAt) / 60000) * this.maxPerMinute);
+		this.updatedAt = now;
+		if (this.tokens < 1) {
+			this.dropped++;
+			return undefined;
+		}
+		this.tokens--;
+
+		// Re-inserted so the Map stays in the order keys last notified
+		this.recent.delete(match.key);
+		this.recent.set(match.key, { sentAt: now, suppressed: 0 });
+		if (this.recent.size > MAX_DEDUP_KEYS) {
+			this.recent.delete(this.recent.keys().next().value!);
+		}
+
+		const dropped = this.dropped;
+		this.dropped = 0;
+		return {
+			rule: match.rule,
+			reason: match.reason,
+			scriptName: invocation.scriptName,
+			route: invocation.route,
+			outcome: invocation.outcome,
+			traceId: match.span.traceId,
+			spanId: match.span.spanId,
+			timestamp: new Date(Math.floor(match.span.startTime / 1000000)).toISOString(),
+			suppressed: recent?.suppressed ?? 0,
+			dropped
+		};
+	}
+
+	private async send(notification: AlertNotification): Promise<void> {
+		try {
+			// Throws rather than send what couldn't be redacted
+			const redacted = this.redactor ? await this.redactor.redactAlert(notification) : notification;
+			const response = await fetch(this.config.webhook, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', ...this.config.headers },
+				body: JSON.stringify(redacted),
+				signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+			});
+			if (!response.ok) {
+				throw new Error(`HTTP ${response.status}`);
+			}
+		} catch (error) {
+			console.error(`Failed to send the "${notification.rule}" alert to the webhook:`, error);
+		}
+	}
+}
@@ -0,0 +1,131 @@
+// Event types the analytics queue accepts; producers can only send these
+export const ANALYTICS_EVENT_TYPES = ['demo_request'] as const;
+
+export type AnalyticsEventType = (typeof ANALYTICS_EVENT_TYPES)[number];
+
+// The body of every message on ANALYTICS_QUEUE
+export interface AnalyticsEvent {
+	type: AnalyticsEventType;
+	userId: string;
+	// Milliseconds since the epoch, when the event happened
+	timestamp: number;
+	data: Record<string, unknown>;
+}
+
+// What goes to ANALYTICS_DLQ for a message that can never be processed
+export interface DeadLetteredEvent {
+	messageId: string;
+	attempts: number;
+	reason: string;
+	body: unknown;
+}
+
+const MAX_USER_ID_LENGTH = 256;
+// Retries back off exponentially from this, up to the most Queues allows
+const RETRY_BASE_DELAY_SECONDS = 2;
+const MAX_RETRY_DELAY_SECONDS = 12 * 60 * 60;
+
+// Validates a message body against the schema, throwing with what is wrong
+export function parseAnalyticsEvent(body: unknown): AnalyticsEvent {
+	if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+		throw new Error('Analytics events must be objects');
+	}
+
+	const { type, userId, timestamp, data } = body as Record<string, unknown>;
+	if (!ANALYTICS_EVENT_TYPES.includes(type as AnalyticsEventType)) {
+		throw new Error(`Unknown analytics event type ${JSON.stringify(type)}, expected one of: ${ANALYTICS_EVENT_TYPES.join(', ')}`);
+	}
+	if (typeof userId !== 'string' || userId === '' || userId.length > MAX_USER_ID_LENGTH) {
+		throw new Error(`Analytics event userId must be a non-empty string of at most ${MAX_USER_ID_LENGTH} characters`);
+	}
+	if (typeof timestamp !== 'number' || !Number.isFinite(timestamp)) {
+		throw new Error(`Analytics event timestamp must be milliseconds since the epoch, got ${JSON.stringify(timestamp)}`);
+	}
+	if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) {
+		throw new Error('Analytics event data must be an object');
+	}
+
+	return { type: type as AnalyticsEventType, userId, timestamp, data: (data as Record<string, unknown> | undefined) ?? {} };
+}
+
+/**
+ * Stores a batch of analytics events in D1 and counts them by type.
+ *
+ * - Events are keyed on their message ID, so a redelivered message is
+ *   neither stored nor counted twice.
+ * - The whole batch is one D1 transaction, and each counter is an upsert
+ *   that only fires when its event was new, so concurrent batches can't lose
+ *   increments.
+ * - Messages that fail validation are poison: they go to ANALYTICS_DLQ with
+ *   the reason and are acked. When D1 fails, the valid messages are retried
+ *   with backoff; once `max_retries` is exhausted Queues moves them to the
+ *   same dead-letter queue.
+ */
+export async function handleAnalyticsBatch(batch: MessageBatch<unknown>, env: Env): Promise<void> {
+	const valid: Array<{ message: Message<unknown>; event: AnalyticsEvent }> = [];
+
+	for (const message of batch.messages) {
+		try {
+			valid.push({ message, event: parseAnalyticsEvent(message.body) });
+		} catch (error) {
+			const reason = error instanceof Error ? error.message : String(error);
+			console.error(`Dead-lettering analytics message ${message.id}: ${reason}`);
+			try {
+				const deadLetter: DeadLetteredEvent = { messageId: message.id, attempts: message.attempts, reason, body: message.body };
+				await env.ANALYTICS_DLQ.send(deadLetter);
+				message.ack();
+			} catch (dlqError) {
+				// Leave it to Queues, which dead-letters it once its retries run out
+				console.error('Failed to dead-letter analytics message:', dlqError);
+				message.retry({ delaySeconds: retryDelay(message) });
+			}
+		}
+	}
+	if (valid.length === 0) return;
+
+	const db = env.DB;
+	try {
+		await db.batch([
+			db.prepare(
+				`CREATE TABLE IF NOT EXISTS analytics_events (
+					message_id TEXT PRIMARY KEY,
+					event_type TEXT NOT NULL,
+					user_id TEXT NOT NULL,
+					timestamp INTEGER NOT NULL,
+					data TEXT NOT NULL
+				)`
+			),
+			db.prepare(`CREATE TABLE IF NOT EXISTS analytics_counters (event_type TEXT PRIMARY KEY, count INTEGER NOT NULL)`),
+			...valid.flatMap(({ message, event }) => [
+				db
+					.prepare(
+						`INSERT INTO analytics_events (message_id, event_type, user_id, timestamp, data) VALUES (?1, ?2, ?3, ?4, ?5)
+						ON CONFLICT (message_id) DO NOTHING`
+					)
+					.bind(message.id, event.type, event.userId, event.timestamp, JSON.stringify(event.data)),
+				// changes() is what the insert above did: 0 when the message was already stored
+				db
+					.prepare(
+						`INSERT INTO analytics_counters (event_type, count) SELECT ?1, 1 WHERE changes() = 1
+						ON CONFLICT (event_type) DO UPDATE SET count = count + 1`
+					)
+					.bind(event.type)
+			])
+		]);
+	} catch (error) {
+		console.error(`Failed to store ${valid.length} analytics event(s), retrying them:`, error);
+		for (const { message } of valid) {
+			message.retry({ delaySeconds: retryDelay(message) });
+		}
+		return;
+	}
+
+	for (const { message } of valid) {
+		message.ack();
+	}
+	console.log(`Stored ${valid.length} analytics event(s)`);
+}
+
+function retryDelay(message: Message<unknown>): number {
+	return Math.min(RETRY_BASE_DELAY_SECONDS ** message.attempts, MAX_RETRY_DELAY_SECONDS);
+}
@@ -0,0 +1,252 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import { OtelSpan, spanDurationMs } from './converter';
+import type { InvocationSummary } from './destinations';
+import { VIEWER_PATH } from './trace-store';
+
+// Under the viewer's path, so requests for the stats are left out of them like the viewer's own
+export const ANALYTICS_PATH = `${VIEWER_PATH}/api/stats`;
+
+export interface AnalyticsStoreOptions {
+	// Samples older than this, counted back from the newest one, are deleted as new ones come in
+	retainHours?: number;
+}
+
+export interface AnalyticsQuery {
+	// Milliseconds since the epoch, the window is [from, to]
+	from: number;
+	to: number;
+	scriptName?: string;
+	// `METHOD /path` pattern, `*` matches any run of characters
+	route?: string;
+	// Rows per list, the busiest first
+	limit?: number;
+}
+
+export interface LatencyStats {
+	count: number;
+	errors: number;
+	errorRate: number;
+	p50Ms: number;
+	p95Ms: number;
+	p99Ms: number;
+}
+
+// Invocations of one route (the root span's name for anything but fetch)
+export interface RouteStats extends LatencyStats {
+	route: string;
+	// CPU time over wall time, summed over the invocations that reported both
+	cpuWallRatio?: number;
+	outcomes: Record<string, number>;
+}
+
+// Spans of one name below the invocations' root spans, like `d1_query` or `kv_get`
+export interface SpanStats extends LatencyStats {
+	name: string;
+}
+
+export interface AnalyticsReport {
+	from: number;
+	to: number;
+	routes: RouteStats[];
+	spans: SpanStats[];
+}
+
+interface StatsRow {
+	kind: 'route' | 'span';
+	name: string;
+	count: number;
+	errors: number;
+	cpu_time: number | null;
+	wall_time: number | null;
+	p50: number;
+	p95: number;
+	p99: number;
+}
+
+interface OutcomeRow {
+	route: string;
+	outcome: string | null;
+	count: number;
+}
+
+const TABLE = 'otel_analytics_samples';
+const DEFAULT_RETAIN_HOURS = 24;
+const MAX_LIMIT = 500;
+
+/**
+ * Keeps span timings in D1 for the stats API: one sample per invocation, for
+ * its route, and one per span below the root, for its name. Percentiles,
+ * error rates and outcome counts are worked out over whatever window is
+ * asked for, so there is nothing to roll up as samples come in.
+ */
+export class AnalyticsStore {
+	private ready?: Promise<unknown>;
+	private retainMs: number;
+
+	constructor(
+		private db: D1Database,
+		options: AnalyticsStoreOptions = {}
+	) {
+		this.retainMs = (options.retainHours ?? DEFAULT_RETAIN_HOURS) * 3600000;
+	}
+
+	async save(spans: OtelSpan[], invocation: InvocationSummary = {}): Promise<void> {
+		const root = invocation.rootSpan ?? spans[0];
+		if (!root) return;
+
+		const insert = this.db.prepare(
+			`INSERT INTO ${TABLE} (time, script_name, route, span_name, duration_ms, error, outcome, cpu_time, wall_time)
+			VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9)`
+		);
+		const route = invocation.route ?? root.operationName;
+		const failed = invocation.outcome !== undefined && invocation.outcome !== 'ok';
+
+		const samples = spans.map(span =>
+			span === root
+				? insert.bind(
+						time(span),
+						invocation.scriptName ?? null,
+						route,
+						null,
+						spanDurationMs(span),
+						failed || span.status?.code === SpanStatusCode.ERROR ? 1 : 0,
+						invocation.outcome ?? null,
+						invocation.cpuTime ?? null,
+						invocation.wallTime ?? null
+					)
+				: insert.bind(
+						time(span),
+						invocation.scriptName ?? null,
+						route,
+						span.operationName,
+						spanDurationMs(span),
+						span.status?.code === SpanStatusCode.ERROR ? 1 : 0,
+						null,
+						null,
+						null
+					)
+		);
+
+		await this.init();
+		await this.db.batch([
+			...samples,
+			this.db.prepare(`DELETE FROM ${TABLE} WHERE time < (SELECT MAX(time) FROM ${TABLE}) - ?1`).bind(this.retainMs)
+		]);
+	}
+
+	async report(query: AnalyticsQuery): Promise<AnalyticsReport> {
+		const params: unknown[] = [query.from, query.to];
+		const conditions = ['time >= ?1', 'time <= ?2'];
+
+		if (query.scriptName) {
+			params.push(query.scriptName);
+			conditions.push(`script_name = ?${params.length}`);
+		}
+		if (query.route) {
+			params.push(query.route.replace(/[\\%_]/g, '\\$&').replace(/\*/g, '%'));
+			conditions.push(`route LIKE ?${params.length} ESCAPE '\\'`);
+		}
+		const where = conditions.join(' AND ');
+		const limit = Math.min(Math.max(query.limit ?? 50, 1), MAX_LIMIT);
+
+		await this.init();
+		// Nearest-rank percentiles: the p-th is the sample at rank ceil(total * p / 100), in integer arithmetic
+		// since D1 doesn't promise SQLite's math functions
+		const [stats, outcomes] = await this.db.batch<StatsRow | OutcomeRow>([
+			this.db
+				.prepare(
+					`WITH ranked AS (
+						SELECT
+							CASE WHEN span_name IS NULL THEN 'route' ELSE 'span' END AS kind,
+							COALESCE(span_name, route) AS name,
+							duration_ms, error, cpu_time, wall_time,
+							ROW_NUMBER() OVER (PARTITION BY span_name IS NULL, COALESCE(span_name, route) ORDER BY duration_ms) AS rank,
+							COUNT(*) OVER (PARTITION BY span_name IS NULL, COALESCE(span_name, route)) AS total
+						FROM ${TABLE} WHERE ${where}
+					)
+					SELECT kind, name, COUNT(*) AS count, SUM(error) AS errors, SUM(cpu_time) AS cpu_time, SUM(wall_time) AS wall_time,
+						MAX(CASE WHEN rank = (total * 50 + 99) / 100 THEN duration_ms END) AS p50,
+						MAX(CASE WHEN rank = (total * 95 + 99) / 100 THEN duration_ms END) AS p95,
+						MAX(CASE WHEN rank = (total * 99 + 99) / 100 THEN duration_ms END) AS p99
+					FROM ranked GROUP BY kind, name ORDER BY count DESC, name`
+				)
+				.bind(...params),
+			this.db
+				.prepare(`SELECT route, outcome, COUNT(*) AS count FROM ${TABLE} WHERE ${where} AND span_name IS NULL GROUP BY route, outcome`)
+				.bind(...params)
+		]);
+
+		const outcomesByRoute = new Map<string, Record<string, number>>();
+		for (const row of outcomes.results as OutcomeRow[]) {
+			const counts = outcomesByRoute.get(row.route) ?? {};
+			counts[row.outcome ?? 'unknown'] = (counts[row.outcome ?? 'unknown'] ?? 0) + row.count;
+			outcomesByRoute.set(row.route, counts);
+		}
+
+		const rows = stats.results as StatsRow[];
+		return {
+			from: query.from,
+			to: query.to,
+			routes: rows
+				.filter(row => row.kind === 'route')
+				.slice(0, limit)
+				.map(row => ({
+					route: row.name,
+					...latency(row),
+					cpuWallRatio: row.cpu_time !== null && row.wall_time ? round(row.cpu_time / row.wall_time) : undefined,
+					outcomes: outcomesByRoute.get(row.name) ?? {}
+				})),
+			spans: rows
+				.filter(row => row.kind === 'span')
+				.slice(0, limit)
+				.map(row => ({ name: row.name, ...latency(row) }))
+		};
+	}
+
+	private init(): Promise<unknown> {
+		this.ready ??= this.db
+			.batch([
+				this.db.prepare(
+					`CREATE TABLE IF NOT EXISTS ${TABLE} (
+						id INTEGER PRIMARY KEY AUTOINCREMENT,
+						time INTEGER NOT NULL,
+						script_name TEXT,
+						route TEXT NOT NULL,
+						span_name TEXT,
+						duration_ms REAL NOT NULL,
+						error INTEGER NOT NULL,
+						outcome TEXT,
+						cpu_time REAL,
+						wall_time REAL
+					)`
+				),
+				this.db.prepare(`CREATE INDEX IF NOT EXISTS ${TABLE}_time ON ${TABLE} (time)`)
+			])
+			.catch(error => {
+				// Try again next time rather than failing every later call
+				this.ready = undefined;
+				throw error;
+			});
+		return this.ready;
+	}
+}
+
+// Milliseconds since the epoch
+function time(span: OtelSpan): number {
+	return Math.floor(span.startTime / 1000000);
+}
+
+function latency(row: StatsRow): LatencyStats {
+	return {
+		count: row.count,
+		errors: row.errors,
+		errorRate: round(row.errors / row.count),
+		p50Ms: row.p50,
+		p95Ms: row.p95,
+		p99Ms: row.p99
+	};
+}
+
+function round(value: number): number {
+	return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,42 @@
+import { AnalyticsStore } from './analytics-store';
+import type { ResolvedDestination } from './destinations';
+
+const DEFAULT_WINDOW_MINUTES = 60;
+
+// The store of the first `analytics` destination, if there is one
+export function createAnalyticsStore(destinations: ResolvedDestination[]): AnalyticsStore | undefined {
+	const config = destinations.find(config => config.type === 'analytics');
+	return config ? new AnalyticsStore(config.d1Database!, { retainHours: config.retainHours }) : undefined;
+}
+
+/**
+ * Serves `GET /__traces/api/stats?window=&to=&script=&route=&limit=`: latency
+ * percentiles, error rates, CPU/wall ratios and outcome counts per route, and
+ * latency and error rates per span name, over the `window` minutes (60 by
+ * default) up to `to` (milliseconds since the epoch, now by default).
+ */
+export async function handleAnalyticsRequest(request: Request, store: AnalyticsStore | undefined): Promise<Response> {
+	if (!store) {
+		return new Response('Trace analytics are not enabled, add an "analytics" destination to OTEL_DESTINATIONS\n', { status: 404 });
+	}
+	if (request.method !== 'GET') {
+		return new Response('Method not allowed\n', { status: 405, headers: { Allow: 'GET' } });
+	}
+
+	const { searchParams } = new URL(request.url);
+	const window = Number(searchParams.get('window') ?? DEFAULT_WINDOW_MINUTES);
+	const to = Number(searchParams.get('to') ?? Date.now());
+	if (!(window > 0) || !Number.isFinite(to)) {
+		return Response.json({ error: 'window must be a positive number of minutes and to a time in milliseconds' }, { status: 400 });
+	}
+
+	const limit = searchParams.get('limit');
+	const report = await store.report({
+		from: to - window * 60000,
+		to,
+		scriptName: searchParams.get('script') || undefined,
+		route: searchParams.get('route') || undefined,
+		limit: limit ? Number(limit) || undefined : undefined
+	});
+	return Response.json(report);
+}
@@ -0,0 +1,80 @@
+export interface BatchOptions {
+	// A batch is sent as soon as it holds this many spans
+	maxSpans?: number;
+	// Or once its first invocation has waited this long
+	maxDelayMs?: number;
+}
+
+export const DEFAULT_BATCH: Required<BatchOptions> = {
+	maxSpans: 512,
+	maxDelayMs: 1000
+};
+
+/**
+ * Collects exports across invocations and hands them to `send` together,
+ * once enough spans are waiting or the oldest has waited long enough.
+ *
+ * Each invocation's tail stream runs in its own request context, and a
+ * promise settled from another context may never wake up the one waiting on
+ * it. So every promise `add` returns is made in the caller's context: the
+ * export that fills a batch sends it, and the export that starts a batch
+ * waits out the delay itself, sending the batch then if nothing else has.
+ * Passing `add`'s promise to `ctx.waitUntil()` therefore keeps the isolate
+ * alive until the batch goes out; the exports in between resolve straight
+ * away, as their batch is sent under one of those two.
+ */
+export class Batcher<T> {
+	private items: T[] = [];
+	private spans = 0;
+	// Counts the batches sent, so a delay that ran out knows whether its batch is still waiting
+	private sentBatches = 0;
+	private maxSpans: number;
+	private maxDelayMs: number;
+
+	constructor(
+		private send: (items: T[]) => Promise<void>,
+		private spansOf: (item: T) => number,
+		options: BatchOptions = {}
+	) {
+		this.maxSpans = options.maxSpans ?? DEFAULT_BATCH.maxSpans;
+		this.maxDelayMs = options.maxDelayMs ?? DEFAULT_BATCH.maxDelayMs;
+	}
+
+	// How many items are waiting for the next batch
+	get size(): number {
+		return this.items.length;
+	}
+
+	add(item: T): Promise<void> {
+		const startsBatch = this.items.length === 0;
+		this.items.push(item);
+		this.spans += this.spansOf(item);
+
+		if (this.spans >= this.maxSpans) {
+			return this.flush();
+		}
+		if (startsBatch) {
+			return this.flushAfterDelay(this.sentBatches);
+		}
+		return Promise.resolve();
+	}
+
+	// Sends whatever is waiting now, resolving once it has been sent
+	async flush(): Promise<void> {
+		if (this.items.length === 0) return;
+
+		const items = this.items;
+		this.items = [];
+		this.spans = 0;
+		this.sentBatches++;
+		await this.send(items);
+	}
+
+	private async flushAfterDelay(batch: number) {
+		// Not cancelled when the batch goes out early, since the timer belongs to the context that started it
+		await new Promise(resolve => setTimeout(resolve, this.maxDelayMs));
+		if (this.sentBatches === batch) {
+			await this.flush();
+		}
+	}
+}
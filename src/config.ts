@@ -0,0 +1,572 @@
+import type { AlertsConfig } from './alerts';
+import { DEFAULT_BATCH } from './batcher';
+import { ConverterLimits, DEFAULT_LIMITS } from './converter';
+import { DestinationConfig, ExportDefaults, OUTCOME_SEVERITY, ResolvedDestination, Signal, SIGNALS } from './destinations';
+import { createExporter, EXPORTER_NAMES } from './exporters';
+import { AttributeLimits, DEFAULT_ATTRIBUTE_LIMITS } from './exporters/otlp-json';
+import { BUILTIN_SCRUBBERS, DEFAULT_REDACTION, RedactionConfig } from './redaction';
+import type { SamplingConfig } from './sampling';
+import { DEFAULT_CAPTURED_HEADERS } from './semconv';
+
+// Everything the tail worker is configured with, validated, and the bindings and secrets it names looked up
+export interface TailWorkerConfig {
+	destinations: ResolvedDestination[];
+	exportDefaults: ExportDefaults;
+	sampling: SamplingConfig;
+	redaction: RedactionConfig;
+	// The value of the redaction's `hashKeySecret`
+	redactionHashKey?: string;
+	alerts?: AlertsConfig;
+	capturedHeaders: string[];
+	// Set on every span's resource, over the attributes derived from the onset
+	resourceAttributes: Record<string, string>;
+	limits: Partial<ConverterLimits>;
+	liveFeed: boolean;
+	recordTailEvents: boolean;
+	// Required to read /__traces, see `authorizeViewerRequest`
+	viewerToken?: string;
+	// ENVIRONMENT is "development", where /__traces is served without a token
+	development: boolean;
+	// The R2 bucket OTEL_SOURCE_MAPS names
+	sourceMaps?: R2Bucket;
+	// Where http destinations keep exports they failed to deliver
+	deadLetters?: KVNamespace;
+}
+
+// OTEL_CONFIG keys and the env var each one stands in for
+const CONFIG_VARS = {
+	endpoint: 'OTEL_ENDPOINT',
+	exporter: 'OTEL_EXPORTER',
+	signals: 'OTEL_SIGNALS',
+	destinations: 'OTEL_DESTINATIONS',
+	headers: 'OTEL_EXPORTER_OTLP_HEADERS',
+	compression: 'OTEL_EXPORTER_OTLP_COMPRESSION',
+	batchSize: 'OTEL_BSP_MAX_EXPORT_BATCH_SIZE',
+	batchDelayMs: 'OTEL_BSP_SCHEDULE_DELAY',
+	attributeCountLimit: 'OTEL_ATTRIBUTE_COUNT_LIMIT',
+	attributeValueLengthLimit: 'OTEL_ATTRIBUTE_VALUE_LENGTH_LIMIT',
+	sampling: 'OTEL_SAMPLING',
+	redaction: 'OTEL_REDACTION',
+	alerts: 'OTEL_ALERTS',
+	captureRequestHeaders: 'OTEL_CAPTURE_REQUEST_HEADERS',
+	serviceName: 'OTEL_SERVICE_NAME',
+	resourceAttributes: 'OTEL_RESOURCE_ATTRIBUTES',
+	limits: 'OTEL_LIMITS',
+	liveFeed: 'OTEL_LIVE_FEED',
+	recordTailEvents: 'OTEL_RECORD_TAIL_EVENTS',
+	viewerToken: 'OTEL_VIEWER_TOKEN'
+} as const satisfies Record<string, keyof Env>;
+
+type ConfigKey = keyof typeof CONFIG_VARS;
+
+// Variables that are JSON (or `key=value` lists), as a string or as a structured value
+const STRUCTURED_KEYS = new Set<ConfigKey>(['destinations', 'headers', 'sampling', 'redaction', 'alerts', 'resourceAttributes', 'limits']);
+const LIST_KEYS = new Set<ConfigKey>(['signals', 'captureRequestHeaders']);
+const FLAG_KEYS = new Set<ConfigKey>(['liveFeed', 'recordTailEvents']);
+const NUMBER_KEYS = new Set<ConfigKey>(['batchSize', 'batchDelayMs', 'attributeCountLimit', 'attributeValueLengthLimit']);
+
+/**
+ * Reads and validates the whole configuration at once, looking up the
+ * bindings and secrets it names too, so a bad deployment fails with every
+ * problem listed rather than one at a time. The tail worker loads it as its
+ * isolate starts. Settings come from their own `OTEL_*` env vars, falling
+ * back to the matching key of `OTEL_CONFIG` (see `resolveConfigEnv`).
+ */
+export function loadConfig(env: Env): TailWorkerConfig {
+	const errors: string[] = [];
+	const read = <T>(parse: () => T, fallback: T): T => {
+		try {
+			return parse();
+		} catch (error) {
+			errors.push(error instanceof Error ? error.message : String(error));
+			return fallback;
+		}
+	};
+
+	const resolved = read(() => resolveConfigEnv(env), env);
+	const headers = read(() => parseKeyValues('OTEL_EXPORTER_OTLP_HEADERS', resolved.OTEL_EXPORTER_OTLP_HEADERS), {});
+	// Each destination's bindings are looked up on their own, so every missing one is listed
+	const destinations = read(() => parseDestinationConfigs(resolved), []).flatMap(destination =>
+		read(() => [resolveDestination(destination, resolved, headers)], [])
+	);
+	const redaction = read(() => parseRedactionConfig(resolved), DEFAULT_REDACTION);
+	const config: TailWorkerConfig = {
+		destinations,
+		exportDefaults: read(() => parseExportDefaults(resolved), { batch: DEFAULT_BATCH, attributeLimits: DEFAULT_ATTRIBUTE_LIMITS }),
+		sampling: read(() => parseSamplingConfig(resolved), {}),
+		redaction,
+		redactionHashKey: read(() => redactionHashKey(redaction, resolved), undefined),
+		alerts: read(() => parseAlertsConfig(resolved), undefined),
+		capturedHeaders: parseCapturedHeaders(resolved),
+		resourceAttributes: read(() => parseResourceAttributes(resolved), {}),
+		limits: read(() => parseLimits(resolved), {}),
+		liveFeed: read(() => parseFlag('OTEL_LIVE_FEED', resolved.OTEL_LIVE_FEED), false),
+		recordTailEvents: read(() => parseFlag('OTEL_RECORD_TAIL_EVENTS', resolved.OTEL_RECORD_TAIL_EVENTS), false),
+		viewerToken: resolved.OTEL_VIEWER_TOKEN || undefined,
+		development: resolved.ENVIRONMENT === 'development',
+		sourceMaps: read(() => sourceMapsBucket(resolved), undefined),
+		deadLetters: resolved.OTEL_DEAD_LETTER
+	};
+
+	if (errors.length > 0) {
+		throw new Error(`Invalid tail worker configuration:\n- ${errors.join('\n- ')}`);
+	}
+	return config;
+}
+
+/**
+ * Fills in the `OTEL_*` vars that aren't set from `OTEL_CONFIG`, a JSON object
+ * (a string, e.g. one secret holding endpoints and credentials, or a
+ * structured wrangler var) keyed by the names in `CONFIG_VARS`. A var that is
+ * set always wins over `OTEL_CONFIG`.
+ */
+export function resolveConfigEnv(env: Env): Env {
+	const config = parseJsonObject('OTEL_CONFIG', env.OTEL_CONFIG);
+	if (config === undefined) return env;
+
+	const resolved: Record<string, unknown> = { ...env };
+	for (const [key, value] of Object.entries(config)) {
+		if (!(key in CONFIG_VARS)) {
+			throw new Error(`OTEL_CONFIG has unknown key "${key}", expected one of: ${Object.keys(CONFIG_VARS).join(', ')}`);
+		}
+		const name = CONFIG_VARS[key as ConfigKey];
+		if (resolved[name] === undefined || resolved[name] === '') {
+			resolved[name] = configValue(key as ConfigKey, value);
+		}
+	}
+	return resolved as unknown as Env;
+}
+
+// Turns an OTEL_CONFIG value into what its env var holds
+function configValue(key: ConfigKey, value: unknown): unknown {
+	if (STRUCTURED_KEYS.has(key) && typeof value === 'object' && value !== null) {
+		return value;
+	}
+	if (LIST_KEYS.has(key) && Array.isArray(value) && value.every(item => typeof item === 'string')) {
+		return value.join(',');
+	}
+	if ((FLAG_KEYS.has(key) && typeof value === 'boolean') || (NUMBER_KEYS.has(key) && typeof value === 'number')) {
+		return String(value);
+	}
+	if (typeof value !== 'string') {
+		throw new Error(`OTEL_CONFIG ${key} must be ${describeConfigValue(key)}, got ${JSON.stringify(value)}`);
+	}
+	return value;
+}
+
+function describeConfigValue(key: ConfigKey): string {
+	if (STRUCTURED_KEYS.has(key)) return key === 'destinations' ? 'an array' : 'an object';
+	if (LIST_KEYS.has(key)) return 'an array of strings';
+	if (FLAG_KEYS.has(key)) return 'a boolean';
+	if (NUMBER_KEYS.has(key)) return 'a number';
+	return 'a string';
+}
+
+/**
+ * Reads the destinations from `OTEL_DESTINATIONS` (a JSON array). Without it
+ * there is a single `default` destination using `OTEL_ENDPOINT`,
+ * `OTEL_EXPORTER` and `OTEL_SIGNALS`.
+ */
+export function parseDestinationConfigs(env: Env): DestinationConfig[] {
+	const configs = parseJsonVar('OTEL_DESTINATIONS', env.OTEL_DESTINATIONS);
+	if (configs === undefined) {
+		const config: DestinationConfig = { name: 'default', endpoint: env.OTEL_ENDPOINT, exporter: env.OTEL_EXPORTER };
+		if (env.OTEL_SIGNALS) {
+			config.signals = env.OTEL_SIGNALS.split(',').map(signal => signal.trim()) as Signal[];
+		}
+		validateDestination(config);
+		return [config];
+	}
+
+	if (!Array.isArray(configs) || configs.length === 0) {
+		throw new Error('OTEL_DESTINATIONS must be a non-empty array of destinations');
+	}
+
+	const names = new Set<string>();
+	for (const [index, config] of configs.entries()) {
+		if (typeof config !== 'object' || config === null || typeof config.name !== 'string' || config.name === '') {
+			throw new Error(`OTEL_DESTINATIONS[${index}] must be an object with a "name"`);
+		}
+		if (names.has(config.name)) {
+			throw new Error(`OTEL_DESTINATIONS has more than one destination named "${config.name}"`);
+		}
+		names.add(config.name);
+
+		validateDestination(config);
+	}
+
+	return configs as DestinationConfig[];
+}
+
+function validateDestination(config: DestinationConfig) {
+	const type = config.type ?? 'http';
+	if (type !== 'http' && type !== 'r2' && type !== 'console' && type !== 'viewer' && type !== 'analytics') {
+		throw new Error(`Destination "${config.name}" has unknown type "${type}", expected http, r2, console, viewer or analytics`);
+	}
+	if (config.exporter !== undefined && !(EXPORTER_NAMES as readonly string[]).includes(config.exporter)) {
+		throw new Error(
+			`Destination "${config.name}" has unknown exporter "${config.exporter}", expected one of: ${EXPORTER_NAMES.join(', ')}`
+		);
+	}
+	if (type === 'r2' && typeof config.bucket !== 'string') {
+		throw new Error(`Destination "${config.name}" is an r2 destination but has no "bucket"`);
+	}
+	if (type === 'viewer' || type === 'analytics') {
+		const kind = type === 'viewer' ? 'a viewer' : 'an analytics';
+		if (typeof config.database !== 'string') {
+			throw new Error(`Destination "${config.name}" is ${kind} destination but has no "database"`);
+		}
+		if (config.signals?.some(signal => signal !== 'traces')) {
+			throw new Error(`Destination "${config.name}" is ${kind} destination, which only stores traces`);
+		}
+	}
+	if (type === 'viewer' && config.retain !== undefined && !(Number.isInteger(config.retain) && config.retain > 0)) {
+		throw new Error(`Destination "${config.name}" retain must be a positive integer, got ${JSON.stringify(config.retain)}`);
+	}
+	if (type === 'analytics' && config.retainHours !== undefined && !(typeof config.retainHours === 'number' && config.retainHours > 0)) {
+		throw new Error(`Destination "${config.name}" retainHours must be a positive number, got ${JSON.stringify(config.retainHours)}`);
+	}
+	if (config.batch !== undefined && config.batch !== false) {
+		if (type !== 'http') {
+			throw new Error(`Destination "${config.name}" sets "batch", but only http destinations batch`);
+		}
+		const { maxSpans, maxDelayMs } = config.batch;
+		if (maxSpans !== undefined && !(Number.isInteger(maxSpans) && maxSpans > 0)) {
+			throw new Error(`Destination "${config.name}" batch maxSpans must be a positive integer, got ${JSON.stringify(maxSpans)}`);
+		}
+		if (maxDelayMs !== undefined && !(typeof maxDelayMs === 'number' && maxDelayMs >= 0)) {
+			throw new Error(`Destination "${config.name}" batch maxDelayMs must be a non-negative number, got ${JSON.stringify(maxDelayMs)}`);
+		}
+	}
+	if (config.compression !== undefined && config.compression !== 'gzip' && config.compression !== 'none') {
+		throw new Error(`Destination "${config.name}" has unknown compression "${config.compression}", expected gzip or none`);
+	}
+	if (config.filter?.minOutcome !== undefined && !(config.filter.minOutcome in OUTCOME_SEVERITY)) {
+		throw new Error(`Destination "${config.name}" has unknown minOutcome "${config.filter.minOutcome}"`);
+	}
+
+	for (const signal of config.signals ?? []) {
+		if (!SIGNALS.includes(signal)) {
+			throw new Error(`Destination "${config.name}" has unknown signal "${signal}", expected one of: ${SIGNALS.join(', ')}`);
+		}
+		if (signal !== 'traces' && config.exporter !== undefined && !config.exporter.startsWith('otlp-')) {
+			throw new Error(`Destination "${config.name}" exports ${signal}, which the ${config.exporter} exporter cannot carry`);
+		}
+	}
+}
+
+/**
+ * What http destinations do unless they say otherwise, from the standard OTel
+ * SDK variables: OTEL_EXPORTER_OTLP_COMPRESSION, OTEL_BSP_MAX_EXPORT_BATCH_SIZE
+ * and OTEL_BSP_SCHEDULE_DELAY (milliseconds). The attribute limits apply to
+ * every destination.
+ */
+export function parseExportDefaults(env: Env): ExportDefaults {
+	const compression = env.OTEL_EXPORTER_OTLP_COMPRESSION || undefined;
+	if (compression !== undefined && compression !== 'gzip' && compression !== 'none') {
+		throw new Error(`OTEL_EXPORTER_OTLP_COMPRESSION must be gzip or none, got "${compression}"`);
+	}
+
+	const batch = { ...DEFAULT_BATCH };
+	if (env.OTEL_BSP_MAX_EXPORT_BATCH_SIZE) {
+		batch.maxSpans = Number(env.OTEL_BSP_MAX_EXPORT_BATCH_SIZE);
+		if (!(Number.isInteger(batch.maxSpans) && batch.maxSpans > 0)) {
+			throw new Error(`OTEL_BSP_MAX_EXPORT_BATCH_SIZE must be a positive integer, got "${env.OTEL_BSP_MAX_EXPORT_BATCH_SIZE}"`);
+		}
+	}
+	if (env.OTEL_BSP_SCHEDULE_DELAY) {
+		batch.maxDelayMs = Number(env.OTEL_BSP_SCHEDULE_DELAY);
+		if (!(batch.maxDelayMs >= 0)) {
+			throw new Error(`OTEL_BSP_SCHEDULE_DELAY must be a non-negative number of milliseconds, got "${env.OTEL_BSP_SCHEDULE_DELAY}"`);
+		}
+	}
+	return { batch, compression, attributeLimits: parseAttributeLimits(env) };
+}
+
+export function parseAttributeLimits(env: Env): AttributeLimits {
+	const limits = { ...DEFAULT_ATTRIBUTE_LIMITS };
+	if (env.OTEL_ATTRIBUTE_COUNT_LIMIT) {
+		limits.count = Number(env.OTEL_ATTRIBUTE_COUNT_LIMIT);
+		if (!(Number.isInteger(limits.count) && limits.count >= 0)) {
+			throw new Error(`OTEL_ATTRIBUTE_COUNT_LIMIT must be a non-negative integer, got "${env.OTEL_ATTRIBUTE_COUNT_LIMIT}"`);
+		}
+	}
+	if (env.OTEL_ATTRIBUTE_VALUE_LENGTH_LIMIT) {
+		limits.valueLength = Number(env.OTEL_ATTRIBUTE_VALUE_LENGTH_LIMIT);
+		if (!(Number.isInteger(limits.valueLength) && limits.valueLength >= 0)) {
+			throw new Error(`OTEL_ATTRIBUTE_VALUE_LENGTH_LIMIT must be a non-negative integer, got "${env.OTEL_ATTRIBUTE_VALUE_LENGTH_LIMIT}"`);
+		}
+	}
+	return limits;
+}
+
+// OTEL_SAMPLING, a JSON object; without it every invocation is exported
+export function parseSamplingConfig(env: Env): SamplingConfig {
+	const config = parseJsonObject('OTEL_SAMPLING', env.OTEL_SAMPLING);
+	if (config === undefined) return {};
+
+	const { ratio, slowThresholdMs, rateLimits } = config as SamplingConfig;
+	if (ratio !== undefined && (typeof ratio !== 'number' || ratio < 0 || ratio > 1)) {
+		throw new Error(`OTEL_SAMPLING ratio must be a number between 0 and 1, got ${JSON.stringify(ratio)}`);
+	}
+	if (slowThresholdMs !== undefined && (typeof slowThresholdMs !== 'number' || slowThresholdMs < 0)) {
+		throw new Error(`OTEL_SAMPLING slowThresholdMs must be a non-negative number, got ${JSON.stringify(slowThresholdMs)}`);
+	}
+	if (rateLimits !== undefined && !Array.isArray(rateLimits)) {
+		throw new Error('OTEL_SAMPLING rateLimits must be an array');
+	}
+	for (const [index, rule] of (rateLimits ?? []).entries()) {
+		if (typeof rule?.route !== 'string' || typeof rule.perSecond !== 'number' || rule.perSecond <= 0) {
+			throw new Error(`OTEL_SAMPLING rateLimits[${index}] must have a "route" and a positive "perSecond"`);
+		}
+		if (rule.burst !== undefined && (typeof rule.burst !== 'number' || rule.burst < 1)) {
+			throw new Error(`OTEL_SAMPLING rateLimits[${index}] burst must be at least 1`);
+		}
+	}
+
+	return config as SamplingConfig;
+}
+
+// OTEL_REDACTION, a JSON object; without it `DEFAULT_REDACTION` applies
+export function parseRedactionConfig(env: Env): RedactionConfig {
+	const config = parseJsonObject('OTEL_REDACTION', env.OTEL_REDACTION);
+	if (config === undefined) return DEFAULT_REDACTION;
+
+	const { allowKeys, denyKeys, scrub, stripQueryParams } = config as RedactionConfig;
+	if (scrub !== undefined && !Array.isArray(scrub)) {
+		throw new Error('OTEL_REDACTION scrub must be an array of scrubbers');
+	}
+	for (const [name, keys] of Object.entries({ allowKeys, denyKeys })) {
+		if (keys !== undefined && (!Array.isArray(keys) || keys.some(key => typeof key !== 'string'))) {
+			throw new Error(`OTEL_REDACTION ${name} must be an array of key patterns`);
+		}
+	}
+	if (stripQueryParams !== undefined && stripQueryParams !== true && !Array.isArray(stripQueryParams)) {
+		throw new Error('OTEL_REDACTION stripQueryParams must be true or an array of parameter names');
+	}
+	for (const [index, rule] of (scrub ?? []).entries()) {
+		if (typeof rule === 'string') {
+			if (!(rule in BUILTIN_SCRUBBERS)) {
+				throw new Error(
+					`OTEL_REDACTION scrub[${index}] is not a built-in scrubber, expected one of: ${Object.keys(BUILTIN_SCRUBBERS).join(', ')}`
+				);
+			}
+			continue;
+		}
+
+		if (typeof rule?.pattern !== 'string') {
+			throw new Error(`OTEL_REDACTION scrub[${index}] must be a built-in scrubber name or have a "pattern"`);
+		}
+		try {
+			new RegExp(rule.pattern, rule.flags);
+		} catch (error) {
+			throw new Error(`OTEL_REDACTION scrub[${index}] is not a valid pattern: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	return config as RedactionConfig;
+}
+
+// OTEL_ALERTS, a JSON object; without it nothing alerts
+export function parseAlertsConfig(env: Env): AlertsConfig | undefined {
+	const config = parseJsonObject('OTEL_ALERTS', env.OTEL_ALERTS);
+	if (config === undefined) return undefined;
+
+	const { webhook, rules, dedupSeconds, maxPerMinute } = config as AlertsConfig;
+	if (typeof webhook !== 'string' || !URL.canParse(webhook)) {
+		throw new Error(`OTEL_ALERTS webhook must be a URL, got ${JSON.stringify(webhook)}`);
+	}
+	if (!Array.isArray(rules)) {
+		throw new Error('OTEL_ALERTS rules must be an array');
+	}
+	if (dedupSeconds !== undefined && (typeof dedupSeconds !== 'number' || dedupSeconds < 0)) {
+		throw new Error(`OTEL_ALERTS dedupSeconds must be a non-negative number, got ${JSON.stringify(dedupSeconds)}`);
+	}
+	if (maxPerMinute !== undefined && (typeof maxPerMinute !== 'number' || maxPerMinute < 1)) {
+		throw new Error(`OTEL_ALERTS maxPerMinute must be at least 1, got ${JSON.stringify(maxPerMinute)}`);
+	}
+	for (const [index, rule] of rules.entries()) {
+		if (typeof rule?.name !== 'string') {
+			throw new Error(`OTEL_ALERTS rules[${index}] must have a "name"`);
+		}
+		if (rule.outcomes === undefined && rule.exception === undefined && rule.span === undefined) {
+			throw new Error(`OTEL_ALERTS rule "${rule.name}" needs at least one of "outcomes", "exception" or "span"`);
+		}
+		if (rule.outcomes !== undefined && !Array.isArray(rule.outcomes)) {
+			throw new Error(`OTEL_ALERTS rule "${rule.name}" outcomes must be an array`);
+		}
+		if (rule.span !== undefined && (typeof rule.maxDurationMs !== 'number' || rule.maxDurationMs < 0)) {
+			throw new Error(`OTEL_ALERTS rule "${rule.name}" needs a non-negative "maxDurationMs" for its span`);
+		}
+	}
+
+	return config as AlertsConfig;
+}
+
+// OTEL_CAPTURE_REQUEST_HEADERS is a comma separated list of header names, empty to capture none
+export function parseCapturedHeaders(env: Env): string[] {
+	if (env.OTEL_CAPTURE_REQUEST_HEADERS === undefined) return DEFAULT_CAPTURED_HEADERS;
+
+	return env.OTEL_CAPTURE_REQUEST_HEADERS.split(',')
+		.map(header => header.trim().toLowerCase())
+		.filter(header => header !== '');
+}
+
+/**
+ * Parses the `key1=value1,key2=value2` lists of OTEL_EXPORTER_OTLP_HEADERS and
+ * OTEL_RESOURCE_ATTRIBUTES, with percent-encoded values as the OTel
+ * environment variable spec has them, or takes them as an object.
+ */
+export function parseKeyValues(name: string, value: string | Record<string, string> | undefined): Record<string, string> {
+	if (value === undefined || value === '') return {};
+
+	if (typeof value === 'object') {
+		for (const [key, item] of Object.entries(value)) {
+			if (typeof item !== 'string') {
+				throw new Error(`${name} "${key}" must be a string, got ${JSON.stringify(item)}`);
+			}
+		}
+		return { ...value };
+	}
+
+	const pairs: Record<string, string> = {};
+	for (const pair of value.split(',')) {
+		if (pair.trim() === '') continue;
+
+		const separator = pair.indexOf('=');
+		const key = pair.slice(0, separator).trim();
+		if (separator === -1 || key === '') {
+			throw new Error(`${name} must be a comma separated list of key=value pairs, got "${pair.trim()}"`);
+		}
+		try {
+			pairs[key] = decodeURIComponent(pair.slice(separator + 1).trim());
+		} catch {
+			throw new Error(`${name} "${key}" has a badly percent-encoded value`);
+		}
+	}
+	return pairs;
+}
+
+// OTEL_SERVICE_NAME wins over a `service.name` in OTEL_RESOURCE_ATTRIBUTES, as in the OTel SDKs
+function parseResourceAttributes(env: Env): Record<string, string> {
+	const attributes = parseKeyValues('OTEL_RESOURCE_ATTRIBUTES', env.OTEL_RESOURCE_ATTRIBUTES);
+	if (env.OTEL_SERVICE_NAME) {
+		attributes['service.name'] = env.OTEL_SERVICE_NAME;
+	}
+	return attributes;
+}
+
+// OTEL_LIMITS overrides some of the converter's `DEFAULT_LIMITS`
+function parseLimits(env: Env): Partial<ConverterLimits> {
+	const limits = parseJsonObject('OTEL_LIMITS', env.OTEL_LIMITS) ?? {};
+
+	for (const [key, value] of Object.entries(limits)) {
+		if (!(key in DEFAULT_LIMITS)) {
+			throw new Error(`OTEL_LIMITS has unknown limit "${key}", expected one of: ${Object.keys(DEFAULT_LIMITS).join(', ')}`);
+		}
+		if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+			throw new Error(`OTEL_LIMITS ${key} must be a positive integer, got ${JSON.stringify(value)}`);
+		}
+	}
+	return limits as Partial<ConverterLimits>;
+}
+
+function parseFlag(name: string, value: string | undefined): boolean {
+	if (value === undefined || value === '' || value === 'false') return false;
+	if (value === 'true') return true;
+	throw new Error(`${name} must be "true" or "false", got ${JSON.stringify(value)}`);
+}
+
+/**
+ * Looks up what a destination uses from the environment: the R2 bucket or D1
+ * database it names, and the credentials of its `auth`. An http destination
+ * also gets its endpoint for each signal, and OTEL_EXPORTER_OTLP_HEADERS under
+ * its own headers.
+ */
+function resolveDestination(config: DestinationConfig, env: Env, otlpHeaders: Record<string, string>): ResolvedDestination {
+	switch (config.type ?? 'http') {
+		case 'r2':
+			return { ...config, r2Bucket: binding<R2Bucket>(env, config.bucket!, 'R2 bucket', `Destination "${config.name}"`) };
+		case 'viewer':
+		case 'analytics':
+			return { ...config, d1Database: binding<D1Database>(env, config.database!, 'D1 database', `Destination "${config.name}"`) };
+		case 'http': {
+			const endpoint = config.endpoint || createExporter(config.exporter).defaultEndpoint;
+			const endpoints: Record<Signal, string> = {
+				traces: endpoint,
+				logs: config.logsEndpoint || signalEndpoint(config, endpoint, 'logs'),
+				metrics: config.metricsEndpoint || signalEndpoint(config, endpoint, 'metrics')
+			};
+			const headers = { ...otlpHeaders, ...config.headers, ...authHeaders(config, env) };
+			return Object.keys(headers).length > 0 ? { ...config, headers, endpoints } : { ...config, endpoints };
+		}
+		default:
+			return config;
+	}
+}
+
+function signalEndpoint(config: DestinationConfig, tracesEndpoint: string, signal: Signal): string {
+	if (!config.signals?.includes(signal)) return tracesEndpoint;
+
+	if (!tracesEndpoint.endsWith('/v1/traces')) {
+		throw new Error(
+			`Destination "${config.name}" exports ${signal} but its endpoint doesn't end in /v1/traces, set "${signal}Endpoint"`
+		);
+	}
+	return tracesEndpoint.replace(/\/v1\/traces$/, `/v1/${signal}`);
+}
+
+function authHeaders(config: DestinationConfig, env: Env): Record<string, string> {
+	if (!config.auth) return {};
+
+	const { type, credentialsSecret } = config.auth;
+	const credentials = credentialsSecret ? (env as unknown as Record<string, unknown>)[credentialsSecret] : config.auth.credentials;
+	if (typeof credentials !== 'string' || credentials === '') {
+		throw new Error(`Destination "${config.name}" has ${type} auth configured but no credentials`);
+	}
+
+	return { Authorization: type === 'bearer' ? `Bearer ${credentials}` : `Basic ${btoa(credentials)}` };
+}
+
+function redactionHashKey(config: RedactionConfig, env: Env): string | undefined {
+	if (!config.hashKeySecret) return undefined;
+
+	const secret = (env as unknown as Record<string, unknown>)[config.hashKeySecret];
+	if (typeof secret !== 'string' || secret === '') {
+		throw new Error(`OTEL_REDACTION hashKeySecret "${config.hashKeySecret}" is not set`);
+	}
+	return secret;
+}
+
+// OTEL_SOURCE_MAPS names the R2 bucket binding the source maps are uploaded to
+function sourceMapsBucket(env: Env): R2Bucket | undefined {
+	return env.OTEL_SOURCE_MAPS ? binding<R2Bucket>(env, env.OTEL_SOURCE_MAPS, 'R2 bucket', 'OTEL_SOURCE_MAPS') : undefined;
+}
+
+function binding<T>(env: Env, name: string, kind: string, user: string): T {
+	const value = (env as unknown as Record<string, T | undefined>)[name];
+	if (!value) {
+		throw new Error(`${user} uses ${kind} binding "${name}", which is not bound`);
+	}
+	return value;
+}
+
+// A JSON var, as a string (e.g. a secret) or a structured wrangler var; undefined when it isn't set
+function parseJsonVar(name: string, value: unknown): unknown {
+	if (value === undefined || value === '') return undefined;
+	if (typeof value !== 'string') return value;
+
+	try {
+		return JSON.parse(value);
+	} catch (error) {
+		throw new Error(`${name} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+	}
+}
+
+function parseJsonObject(name: string, value: unknown): object | undefined {
+	const parsed = parseJsonVar(name, value);
+	if (parsed !== undefined && (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed))) {
+		throw new Error(`${name} must be an object`);
+	}
+	return parsed as object | undefined;
+}
@@ -0,0 +1,1007 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import type { Alerter } from './alerts';
+import type { Destination, InvocationSummary } from './destinations';
+import { EXCEPTION_EVENT, ExceptionResolver } from './exceptions';
+import type { LiveEvent, LiveFeed } from './live';
+import type { Redactor } from './redaction';
+import type { Sampler } from './sampling';
+import {
+	childSpanClassification,
+	DEFAULT_CAPTURED_HEADERS,
+	httpServerAttributes,
+	onsetSpanKind,
+	queueConsumerAttributes,
+	workerResource
+} from './semconv';
+
+export interface OtelSpan {
+	traceId: string;
+	spanId: string;
+	parentSpanId?: string;
+	operationName: string;
+	// Resource attributes of the worker the span came from, see `workerResource`
+	resource?: Record<string, string>;
+	kind: SpanKind;
+	startTime: number;
+	endTime?: number;
+	tags: Record<string, any>;
+	events: Array<{ timestamp: number; name: string; attributes: Record<string, any> }>;
+	links: Array<{ traceId: string; spanId: string; attributes: Record<string, any> }>;
+	logs: Array<{ timestamp: number; fields: Record<string, any> }>; // Keep logs for actual console.log
+	status?: { code: SpanStatusCode; message?: string };
+}
+
+// Milliseconds, rounded to the microsecond; open spans count as zero
+export function spanDurationMs(span: OtelSpan): number {
+	return Math.round(((span.endTime ?? span.startTime) - span.startTime) / 1000) / 1000;
+}
+
+// A Durable Object segment that ended in hibernation, waiting for its resume onset
+interface HibernatedSegment {
+	traceId: string;
+	spanId: string;
+	segment: number;
+}
+
+// Everything tracked for one invocation, from its onset until it is exported
+interface InvocationState {
+	spans: Map<string, OtelSpan>;
+	rootSpan: OtelSpan;
+	summary: InvocationSummary;
+	// Date.now() when the last event arrived, for the orphan sweeper
+	lastSeen: number;
+	// Timestamp (ns) of the latest event, where force-closed spans end
+	lastTimestamp: number;
+	// Spans over the limit, whose events go straight to the root span instead of waiting for them
+	droppedSpanIds: Set<string>;
+	// The sequence number the next event applied must have
+	nextSequence: number;
+	// Events that arrived ahead of a gap in the sequence, by sequence number
+	pending: Map<number, TailStream.TailEvent<TailStream.EventType>>;
+	// Date.now() when the current gap was first noticed
+	gapSince?: number;
+	// Events for spans that haven't opened yet, by span ID
+	parked: Map<string, Array<{ event: TailStream.TailEvent<TailStream.EventType>; parkedAt: number }>>;
+	parkedCount: number;
+	// Live feed entries waiting for redaction, one after another so clients see them in order
+	livePublishing?: Promise<void>;
+}
+
+// Events that belong to the span in their spanContext, rather than the invocation as a whole
+const SPAN_EVENT_TYPES = new Set(['attributes', 'log', 'spanClose', 'exception', 'diagnosticChannel']);
+// Span events still worth keeping on the root span when their own span never opens
+const ROOT_FALLBACK_EVENT_TYPES = new Set(['log', 'exception', 'diagnosticChannel']);
+
+export interface ConverterLimits {
+	// Invocations without events for this long are force-closed and exported as incomplete
+	orphanTimeoutMs: number;
+	// How often incoming events trigger a sweep for orphans
+	sweepIntervalMs: number;
+	// Invocations tracked at once, the oldest is force-closed to make room
+	maxInvocations: number;
+	// Spans per invocation, open or closed, since all of them are held until it's exported.
+	// Later spanOpens are dropped and counted on the root span
+	maxSpansPerInvocation: number;
+	// Events and logs per span, later ones are dropped and counted on the span
+	maxEventsPerSpan: number;
+	// How long a gap in sequence numbers, or an event for a span that hasn't opened, is waited for
+	reorderTimeoutMs: number;
+	// Events held back per invocation, the reorder buffer gives up on a gap when it's full
+	maxBufferedEvents: number;
+}
+
+export const DEFAULT_LIMITS: ConverterLimits = {
+	orphanTimeoutMs: 5 * 60 * 1000,
+	sweepIntervalMs: 30 * 1000,
+	maxInvocations: 1000,
+	maxSpansPerInvocation: 1000,
+	maxEventsPerSpan: 128,
+	reorderTimeoutMs: 1000,
+	maxBufferedEvents: 256
+};
+
+// Set on spans that were still open when their invocation was force-closed
+export const INCOMPLETE_STATUS = 'incomplete';
+
+export interface ConverterOptions {
+	// Decides which invocations are exported, all of them without one
+	sampler?: Sampler;
+	// Scrubs spans before any exporter sees them
+	redactor?: Redactor;
+	// Lowercased request header names recorded as `http.request.header.*`
+	capturedHeaders?: string[];
+	// Set on every span's resource, over what `workerResource` derives from the onset
+	resourceAttributes?: Record<string, string>;
+	limits?: Partial<ConverterLimits>;
+	// Gets every converted event as it is applied, before the invocation is exported
+	liveFeed?: LiveFeed;
+	// Source maps and fingerprints exceptions, without source maps when not set
+	exceptionResolver?: ExceptionResolver;
+	// Checks every finished invocation against the alert rules, sampled or not
+	alerter?: Alerter;
+}
+
+// Hibernation outlives a single tail stream, so segments are remembered per isolate, keyed by the
+// runtime's trace ID (before stitching) since that is all a resume onset has to go on
+const MAX_HIBERNATED_SEGMENTS = 1000;
+const hibernatedSegments: Map<string, HibernatedSegment> = new Map();
+
+/**
+ * Turns streaming tail events into spans, tracking each invocation by its
+ * `invocationId` so one converter can follow many tail streams at once.
+ * Invocations that stop sending events (killed for exceeding CPU or memory,
+ * disconnected...) are swept up and exported as incomplete, and span and
+ * event limits keep a chatty invocation from exhausting the isolate's memory.
+ */
+export class CloudflareToOtelConverter {
+	private invocations: Map<string, InvocationState> = new Map();
+	private destinations: Destination[];
+	private sampler?: Sampler;
+	private redactor?: Redactor;
+	private capturedHeaders: string[];
+	private resourceAttributes?: Record<string, string>;
+	private limits: ConverterLimits;
+	private liveFeed?: LiveFeed;
+	private exceptionResolver: ExceptionResolver;
+	private alerter?: Alerter;
+	private lastSweep = Date.now();
+	private inFlight: Set<Promise<void>> = new Set();
+	// Exports that haven't reached their destinations yet, see `flush`
+	private preparing: Set<Promise<unknown>> = new Set();
+	// What the event being handled has started, see `handleEvent`
+	private started?: Promise<void>[];
+
+	constructor(destinations: Destination[], options: ConverterOptions = {}) {
+		this.destinations = destinations;
+		this.sampler = options.sampler;
+		this.redactor = options.redactor;
+		this.capturedHeaders = options.capturedHeaders ?? DEFAULT_CAPTURED_HEADERS;
+		this.resourceAttributes = options.resourceAttributes;
+		this.limits = { ...DEFAULT_LIMITS, ...options.limits };
+		this.liveFeed = options.liveFeed;
+		this.exceptionResolver = options.exceptionResolver ?? new ExceptionResolver();
+		this.alerter = options.alerter;
+	}
+
+	/**
+	 * Applies one tail event, resolving once the work it started (exporting its
+	 * invocation, an orphan it swept, live feed entries) is done. That is what
+	 * the tail stream delivering it should pass to `ctx.waitUntil()`, since a
+	 * promise settled from another request context may never resolve there.
+	 */
+	handleEvent(event: TailStream.TailEvent<TailStream.EventType>): Promise<void> {
+		const started: Promise<void>[] = [];
+		this.started = started;
+		try {
+			this.receive(event);
+		} finally {
+			this.started = undefined;
+		}
+		return Promise.all(started).then(() => undefined);
+	}
+
+	private receive(event: TailStream.TailEvent<TailStream.EventType>) {
+		const now = Date.now();
+		if (now - this.lastSweep >= this.limits.sweepIntervalMs) {
+			this.sweep(now);
+		}
+
+		if (event.event.type === 'onset') {
+			this.handleOnset(event as TailStream.TailEvent<TailStream.Onset>);
+			return;
+		}
+
+		const state = this.invocations.get(event.invocationId);
+		// Nothing to attach to: the onset was never seen or the invocation was already swept
+		if (!state) return;
+
+		state.lastSeen = now;
+
+		// Already applied or already waiting, so this is a redelivery
+		if (event.sequence < state.nextSequence || state.pending.has(event.sequence)) return;
+
+		state.pending.set(event.sequence, event);
+		this.drain(event.invocationId, state, now);
+	}
+
+	/**
+	 * Applies pending events in sequence order. A gap is waited for until
+	 * `reorderTimeoutMs` has passed or the buffer is full (straight away when
+	 * `force` is set), then skipped.
+	 */
+	private drain(invocationId: string, state: InvocationState, now: number, force = false) {
+		// Events that gave up on their span go first, they happened before anything still pending
+		this.releaseParked(state, now);
+
+		// Stop once an event exports the invocation, anything after it has nowhere to go
+		while (this.invocations.get(invocationId) === state && state.pending.size > 0) {
+			const event = state.pending.get(state.nextSequence);
+
+			if (!event) {
+				state.gapSince ??= now;
+				const timedOut = now - state.gapSince >= this.limits.reorderTimeoutMs;
+				if (!force && !timedOut && this.bufferedEvents(state) < this.limits.maxBufferedEvents) break;
+
+				// The missing events are lost, carry on from the earliest one that did arrive
+				state.nextSequence = Math.min(...state.pending.keys());
+				state.gapSince = undefined;
+				continue;
+			}
+
+			state.pending.delete(state.nextSequence);
+			state.nextSequence++;
+			state.gapSince = undefined;
+			this.apply(state, event, now);
+		}
+	}
+
+	private apply(state: InvocationState, event: TailStream.TailEvent<TailStream.EventType>, now: number) {
+		state.lastTimestamp = Math.max(state.lastTimestamp, event.timestamp.getTime() * 1000000);
+
+		const { spanId } = event.spanContext;
+		if (SPAN_EVENT_TYPES.has(event.event.type) && spanId && state.droppedSpanIds.has(spanId)) {
+			// Its spanClose has nothing left to close, the span is already counted as dropped
+			if (event.event.type !== 'spanClose') {
+				this.applyToRoot(state, event, now);
+			}
+			return;
+		}
+		if (SPAN_EVENT_TYPES.has(event.event.type) && spanId && !state.spans.has(spanId)) {
+			// The span's spanOpen may still be on its way
+			if (this.bufferedEvents(state) < this.limits.maxBufferedEvents) {
+				const parked = state.parked.get(spanId) ?? [];
+				parked.push({ event, parkedAt: now });
+				state.parked.set(spanId, parked);
+				state.parkedCount++;
+			} else {
+				this.countDroppedEvent(state.rootSpan);
+			}
+			return;
+		}
+
+		switch (event.event.type) {
+			case 'spanOpen':
+				this.handleSpanOpen(state, event as TailStream.TailEvent<TailStream.SpanOpen>);
+				break;
+			case 'attributes':
+				this.handleAttributes(state, event as TailStream.TailEvent<TailStream.Attributes>);
+				break;
+			case 'log':
+				this.handleLog(state, event as TailStream.TailEvent<TailStream.Log>);
+				break;
+			case 'spanClose':
+				this.handleSpanClose(state, event as TailStream.TailEvent<TailStream.SpanClose>);
+				break;
+			case 'outcome':
+				this.handleOutcome(state, event as TailStream.TailEvent<TailStream.Outcome>);
+				break;
+			case 'exception':
+				this.handleException(state, event as TailStream.TailEvent<TailStream.Exception>);
+				break;
+			case 'return':
+				this.handleReturn(state, event as TailStream.TailEvent<TailStream.Return>);
+				break;
+			case 'diagnosticChannel':
+				this.handleDiagnosticChannel(state, event as TailStream.TailEvent<TailStream.DiagnosticChannelEvent>);
+				break;
+			case 'link':
+				this.handleLink(state, event as TailStream.TailEvent<TailStream.Link>);
+				break;
+			case 'hibernate':
+				this.handleHibernate(state, event as TailStream.TailEvent<TailStream.Hibernate>);
+				break;
+		}
+	}
+
+	/**
+	 * Force-closes and exports every invocation that hasn't sent an event for
+	 * `orphanTimeoutMs`. Runs from `handleEvent` every `sweepIntervalMs`.
+	 */
+	sweep(now = Date.now()) {
+		this.lastSweep = now;
+
+		for (const [invocationId, state] of this.invocations) {
+			// Gives up on gaps and spans that have waited too long, which may well complete the invocation
+			this.drain(invocationId, state, now);
+
+			if (this.invocations.get(invocationId) === state && now - state.lastSeen >= this.limits.orphanTimeoutMs) {
+				this.forceClose(invocationId, state, 'orphaned');
+			}
+		}
+	}
+
+	// How many invocations are waiting for their outcome
+	get openInvocations(): number {
+		return this.invocations.size;
+	}
+
+	/**
+	 * Resolves once every export started so far has been sent, or given up on,
+	 * whichever tail stream started it. For tests and tools that feed the
+	 * converter from a single context; a tail stream waits on `handleEvent`.
+	 */
+	async settled(): Promise<void> {
+		await Promise.all(this.inFlight);
+	}
+
+	// Like `settled`, but sends the destinations' batches straight away
+	async flush(): Promise<void> {
+		while (this.preparing.size > 0) {
+			await Promise.all(this.preparing);
+		}
+		await Promise.all(this.destinations.map(destination => destination.flush()));
+		await Promise.all(this.inFlight);
+	}
+
+	private track(promise: Promise<void>) {
+		this.started?.push(promise);
+		this.inFlight.add(promise);
+		// Handles a rejection as well, `settled` and `flush` are where it surfaces
+		const forget = () => this.inFlight.delete(promise);
+		promise.then(forget, forget);
+	}
+
+	private handleOnset(event: TailStream.TailEvent<TailStream.Onset>) {
+		const { event: onset, spanContext, timestamp, invocationId } = event;
+
+		const previous = this.invocations.get(invocationId);
+		if (previous?.rootSpan.spanId === onset.spanId) {
+			// A redelivered onset
+			return;
+		}
+		if (previous) {
+			this.forceClose(invocationId, previous, 'superseded');
+		} else if (this.invocations.size >= this.limits.maxInvocations) {
+			// Maps iterate in insertion order, so the first entry is the oldest invocation
+			const [oldestId, oldest] = this.invocations.entries().next().value!;
+			this.forceClose(oldestId, oldest, 'evicted');
+		}
+
+		const span: OtelSpan = {
+			traceId: spanContext.traceId,
+			spanId: onset.spanId,
+			// Onset is the root span - only has parent if there's an existing spanContext.spanId (from upstream)
+			parentSpanId: spanContext.spanId || undefined,
+			operationName: this.getOperationName(onset.info),
+			resource: { ...workerResource(onset), ...this.resourceAttributes },
+			kind: onsetSpanKind(onset.info),
+			startTime: timestamp.getTime() * 1000000,
+			tags: this.extractTags(onset),
+			events: [],
+			links: [],
+			logs: []
+		};
+
+		if (onset.info.type === 'resume') {
+			this.linkResumedSegment(span, onset.info);
+		} else if (onset.trigger) {
+			this.stitchTrigger(span, onset.trigger);
+		}
+
+		this.invocations.set(invocationId, {
+			spans: new Map([[span.spanId, span]]),
+			rootSpan: span,
+			summary: {
+				scriptName: onset.scriptName,
+				scriptVersion: onset.scriptVersion?.id,
+				eventType: onset.info.type,
+				rootSpan: span,
+				route: span.operationName
+			},
+			lastSeen: Date.now(),
+			lastTimestamp: span.startTime,
+			droppedSpanIds: new Set(),
+			nextSequence: event.sequence + 1,
+			pending: new Map(),
+			parked: new Map(),
+			parkedCount: 0
+		});
+		this.publish(invocationId, this.invocations.get(invocationId)!, span, span.startTime, {
+			type: 'spanOpen',
+			level: 'info',
+			message: span.operationName
+		});
+	}
+
+	private handleSpanOpen(state: InvocationState, event: TailStream.TailEvent<TailStream.SpanOpen>) {
+		const { event: spanOpen, spanContext, timestamp } = event;
+
+		if (state.spans.size >= this.limits.maxSpansPerInvocation) {
+			state.droppedSpanIds.add(spanOpen.spanId);
+			state.rootSpan.tags['cloudflare.dropped_spans'] = state.droppedSpanIds.size;
+
+			// Events that arrived ahead of it stop waiting now, rather than filling the reorder buffer
+			const parked = state.parked.get(spanOpen.spanId);
+			if (parked) {
+				state.parked.delete(spanOpen.spanId);
+				state.parkedCount -= parked.length;
+				for (const { event } of parked) {
+					this.apply(state, event, Date.now());
+				}
+			}
+			return;
+		}
+
+		const { kind, attributes } = childSpanClassification(spanOpen.name, spanOpen.info);
+
+		const span: OtelSpan = {
+			// Stitching may have moved the invocation into its caller's trace
+			traceId: state.rootSpan.traceId,
+			spanId: spanOpen.spanId,
+			// spanContext.spanId is the parent span where this spanOpen occurred
+			parentSpanId: spanContext.spanId,
+			operationName: spanOpen.name,
+			resource: state.rootSpan.resource,
+			kind,
+			startTime: timestamp.getTime() * 1000000,
+			// Attributes reported by the runtime win over what the span name suggests
+			tags: { ...attributes, ...(spanOpen.info ? this.extractSpanInfo(spanOpen.info) : {}) },
+			events: [],
+			links: [],
+			logs: []
+		};
+
+		state.spans.set(span.spanId, span);
+		this.publish(event.invocationId, state, span, span.startTime, { type: 'spanOpen', level: 'info', message: span.operationName });
+
+		const parked = state.parked.get(span.spanId);
+		if (parked) {
+			state.parked.delete(span.spanId);
+			state.parkedCount -= parked.length;
+			for (const { event } of parked) {
+				this.apply(state, event, Date.now());
+			}
+		}
+	}
+
+	private handleAttributes(state: InvocationState, event: TailStream.TailEvent<TailStream.Attributes>) {
+		const { event: attributes, spanContext } = event;
+		// spanContext.spanId tells us which span to add attributes to
+		const span = state.spans.get(spanContext.spanId!);
+
+		if (span && attributes.info && Array.isArray(attributes.info)) {
+			for (const attr of attributes.info) {
+				span.tags[attr.name] = attr.value;
+			}
+		}
+	}
+
+	private handleLog(state: InvocationState, event: TailStream.TailEvent<TailStream.Log>) {
+		const { event: log, spanContext, timestamp } = event;
+		// spanContext.spanId tells us which span this log belongs to
+		const span = state.spans.get(spanContext.spanId!);
+
+		if (!span) return;
+
+		const message = Array.isArray(log.message) ? log.message.join(' ') : log.message;
+		this.publish(event.invocationId, state, span, timestamp.getTime() * 1000000, {
+			type: 'log',
+			level: log.level === 'log' ? 'info' : log.level,
+			message: typeof message === 'string' ? message : JSON.stringify(message)
+		});
+
+		if (this.hasRoomForEvent(span)) {
+			span.logs.push({
+				timestamp: timestamp.getTime() * 1000000,
+				fields: {
+					level: log.level,
+					message
+				}
+			});
+		}
+	}
+
+	private handleSpanClose(state: InvocationState, event: TailStream.TailEvent<TailStream.SpanClose>) {
+		const { timestamp, spanContext } = event;
+
+		// spanContext.spanId tells us which span is being closed
+		const span = state.spans.get(spanContext.spanId!);
+		if (span) {
+			span.endTime = timestamp.getTime() * 1000000;
+			span.status = {
+				code: event.event.outcome === 'ok' ? SpanStatusCode.OK : SpanStatusCode.ERROR,
+				message: event.event.outcome
+			};
+			this.publishClose(event.invocationId, state, span, event.event.outcome);
+		}
+	}
+
+	private handleException(state: InvocationState, event: TailStream.TailEvent<TailStream.Exception>) {
+		const { event: exception, spanContext, timestamp } = event;
+		// spanContext.spanId tells us which span this exception belongs to
+		const span = state.spans.get(spanContext.spanId!);
+
+		if (span) {
+			this.publish(event.invocationId, state, span, timestamp.getTime() * 1000000, {
+				type: 'exception',
+				level: 'error',
+				message: `${exception.name}: ${exception.message}`
+			});
+
+			// The status still changes when the exception itself no longer fits
+			if (this.hasRoomForEvent(span)) {
+				// Parsed, source mapped and fingerprinted at export, see ExceptionResolver
+				span.events.push({
+					timestamp: timestamp.getTime() * 1000000,
+					name: EXCEPTION_EVENT,
+					attributes: {
+						'exception.type': exception.name,
+						'exception.message': exception.message,
+						'exception.stacktrace': exception.stack || ''
+					}
+				});
+			}
+
+			span.status = {
+				code: SpanStatusCode.ERROR,
+				message: exception.message
+			};
+		}
+	}
+
+	private handleReturn(state: InvocationState, event: TailStream.TailEvent<TailStream.Return>) {
+		const { event: returnEvent, spanContext, timestamp } = event;
+
+		// Return event should be marked on the root span (the main invocation)
+		const { rootSpan } = state;
+
+		// Add a proper OTEL span event to mark when the handler returned
+		if (this.hasRoomForEvent(rootSpan)) {
+			rootSpan.events.push({
+				timestamp: timestamp.getTime() * 1000000,
+				name: 'handler.return',
+				attributes: {
+					'event.description': 'Worker handler returned response',
+					'execution.phase': 'handler_complete',
+					'note': 'Worker may continue executing ctx.waitUntil promises and streaming responses'
+				}
+			});
+		}
+
+		// Add response information if available
+		if (returnEvent.info?.type === 'fetch') {
+			rootSpan.tags['http.response.status_code'] = returnEvent.info.statusCode;
+			if (this.hasRoomForEvent(rootSpan)) {
+				rootSpan.events.push({
+					timestamp: timestamp.getTime() * 1000000,
+					name: 'response.sent',
+					attributes: {
+						'http.response.status_code': returnEvent.info.statusCode.toString(),
+						'response.type': 'fetch'
+					}
+				});
+			}
+		}
+
+		// Mark this timestamp for potential use in span analysis
+		rootSpan.tags['handler.return.timestamp'] = timestamp.getTime();
+
+		// Also mark on the specific span if different from root
+		const contextSpan = state.spans.get(spanContext.spanId!);
+		if (contextSpan && contextSpan !== rootSpan && returnEvent.info?.type === 'fetch') {
+			contextSpan.tags['http.response.status_code'] = returnEvent.info.statusCode;
+		}
+	}
+
+	private handleDiagnosticChannel(state: InvocationState, event: TailStream.TailEvent<TailStream.DiagnosticChannelEvent>) {
+		const { event: diagnostic, spanContext, timestamp } = event;
+		// spanContext.spanId tells us which span this diagnostic belongs to
+		const span = state.spans.get(spanContext.spanId!);
+
+		if (span && this.hasRoomForEvent(span)) {
+			span.logs.push({
+				timestamp: timestamp.getTime() * 1000000,
+				fields: {
+					level: 'debug',
+					'diagnostic.channel': diagnostic.channel,
+					// Exporters encode structured messages themselves, e.g. as an OTLP kvlist
+					'diagnostic.message': diagnostic.message
+				}
+			});
+		}
+	}
+
+	private handleLink(state: InvocationState, event: TailStream.TailEvent<TailStream.Link>) {
+		const { event: link, spanContext } = event;
+		// spanContext.spanId tells us which span the link originates from
+		const span = state.spans.get(spanContext.spanId!) ?? state.rootSpan;
+
+		const attributes: Record<string, any> = {
+			'link.invocation_id': link.invocationId
+		};
+		if (link.label) {
+			attributes['link.label'] = link.label;
+		}
+
+		span.links.push({
+			traceId: link.traceId,
+			spanId: link.spanId,
+			attributes
+		});
+	}
+
+	private handleHibernate(state: InvocationState, event: TailStream.TailEvent<TailStream.Hibernate>) {
+		const { spanContext, timestamp, invocationId } = event;
+		const { rootSpan } = state;
+
+		// Hibernation ends this segment; the resume onset will start the next one
+		rootSpan.endTime = timestamp.getTime() * 1000000;
+		rootSpan.tags['cloudflare.hibernation.hibernated'] = true;
+		if (this.hasRoomForEvent(rootSpan)) {
+			rootSpan.events.push({
+				timestamp: timestamp.getTime() * 1000000,
+				name: 'durable_object.hibernate',
+				attributes: {
+					'event.description': 'Durable Object hibernated, waiting for the next event to resume'
+				}
+			});
+		}
+
+		if (hibernatedSegments.size >= MAX_HIBERNATED_SEGMENTS) {
+			// Maps iterate in insertion order, so the first key is the oldest segment
+			hibernatedSegments.delete(hibernatedSegments.keys().next().value!);
+		}
+		hibernatedSegments.set(spanContext.traceId, {
+			traceId: rootSpan.traceId,
+			spanId: rootSpan.spanId,
+			segment: rootSpan.tags['cloudflare.hibernation.segment'] ?? 0
+		});
+
+		this.publishClose(invocationId, state, rootSpan, 'hibernated');
+
+		// Nothing else arrives for this segment until the object wakes up, so export now
+		this.exportSpans(invocationId, state);
+	}
+
+	private publish(
+		invocationId: string,
+		state: InvocationState,
+		span: OtelSpan,
+		timestamp: number,
+		event: Pick<LiveEvent, 'type' | 'level' | 'message' | 'outcome' | 'durationMs'>
+	) {
+		const { liveFeed, redactor } = this;
+		if (!liveFeed?.active) return;
+
+		// Depth comes from the parent links within the invocation, a stitched root's caller doesn't count
+		let depth = 0;
+		for (let parent = state.spans.get(span.parentSpanId ?? ''); parent && depth < state.spans.size; depth++) {
+			parent = state.spans.get(parent.parentSpanId ?? '');
+		}
+
+		const entry: LiveEvent = {
+			...event,
+			timestamp: Math.round(timestamp / 1000000),
+			invocationId,
+			traceId: span.traceId,
+			spanId: span.spanId,
+			parentSpanId: span.parentSpanId,
+			depth,
+			scriptName: state.summary.scriptName,
+			route: state.summary.route
+		};
+
+		if (!redactor) {
+			liveFeed.publish(entry);
+			return;
+		}
+		state.livePublishing = (state.livePublishing ?? Promise.resolve()).then(async () => {
+			try {
+				liveFeed.publish(await redactor.redactLiveEvent(entry));
+			} catch (error) {
+				// Never publish what couldn't be redacted
+				console.error('Failed to redact a live feed entry, dropping it:', error);
+			}
+		});
+		this.track(state.livePublishing);
+	}
+
+	private publishClose(invocationId: string, state: InvocationState, span: OtelSpan, outcome: string) {
+		this.publish(invocationId, state, span, span.endTime ?? span.startTime, {
+			type: 'spanClose',
+			level: span.status?.code === SpanStatusCode.ERROR ? 'error' : 'info',
+			message: span.operationName,
+			outcome,
+			durationMs: spanDurationMs(span)
+		});
+	}
+
+	// Events and logs share the per-span budget; whatever doesn't fit is only counted
+	private hasRoomForEvent(span: OtelSpan): boolean {
+		if (span.events.length + span.logs.length < this.limits.maxEventsPerSpan) return true;
+
+		this.countDroppedEvent(span);
+		return false;
+	}
+
+	private countDroppedEvent(span: OtelSpan) {
+		span.tags['cloudflare.dropped_events'] = (span.tags['cloudflare.dropped_events'] ?? 0) + 1;
+	}
+
+	private bufferedEvents(state: InvocationState): number {
+		return state.pending.size + state.parkedCount;
+	}
+
+	/**
+	 * Stops waiting for spans that haven't opened within `reorderTimeoutMs`
+	 * (all of them when `force` is set). Their logs, exceptions and diagnostics
+	 * move to the root span, anything else is dropped.
+	 */
+	private releaseParked(state: InvocationState, now: number, force = false) {
+		for (const [spanId, parked] of state.parked) {
+			const expired = parked.filter(({ parkedAt }) => force || now - parkedAt >= this.limits.reorderTimeoutMs);
+			if (expired.length === 0) continue;
+
+			const waiting = parked.filter(entry => !expired.includes(entry));
+			if (waiting.length > 0) {
+				state.parked.set(spanId, waiting);
+			} else {
+				state.parked.delete(spanId);
+			}
+			state.parkedCount -= expired.length;
+
+			for (const { event } of expired) {
+				this.applyToRoot(state, event, now);
+			}
+		}
+	}
+
+	// For events whose span never opened: logs, exceptions and diagnostics move to the root span, anything else is dropped
+	private applyToRoot(state: InvocationState, event: TailStream.TailEvent<TailStream.EventType>, now: number) {
+		if (ROOT_FALLBACK_EVENT_TYPES.has(event.event.type)) {
+			this.apply(state, { ...event, spanContext: { ...event.spanContext, spanId: state.rootSpan.spanId } }, now);
+		} else {
+			this.countDroppedEvent(state.rootSpan);
+		}
+	}
+
+	/**
+	 * Exports an invocation that will never send its outcome: spans still open
+	 * end at the latest event seen and get an `incomplete` error status.
+	 */
+	private forceClose(invocationId: string, state: InvocationState, reason: 'orphaned' | 'superseded' | 'evicted') {
+		// Apply whatever is still buffered first, it may even include the outcome
+		this.drain(invocationId, state, Date.now(), true);
+		if (this.invocations.get(invocationId) !== state) return;
+
+		for (const span of state.spans.values()) {
+			if (span.endTime === undefined) {
+				span.endTime = state.lastTimestamp;
+				span.status = { code: SpanStatusCode.ERROR, message: INCOMPLETE_STATUS };
+				this.publishClose(invocationId, state, span, INCOMPLETE_STATUS);
+			}
+		}
+
+		state.rootSpan.tags['cloudflare.incomplete'] = true;
+		state.rootSpan.tags['cloudflare.incomplete.reason'] = reason;
+		state.summary.outcome ??= 'unknown';
+
+		this.exportSpans(invocationId, state);
+	}
+
+	private stitchTrigger(span: OtelSpan, trigger: TailStream.Trigger) {
+		span.tags['cloudflare.trigger.invocation_id'] = trigger.invocationId;
+
+		if (!span.parentSpanId) {
+			// Parent on the span that made the call (a service binding fetch, an RPC, a queue send...),
+			// so a chain of workers ends up in a single trace
+			span.traceId = trigger.traceId;
+			span.parentSpanId = trigger.spanId;
+		} else if (trigger.traceId !== span.traceId) {
+			// The runtime already propagated a parent from another trace, so only link the trigger
+			span.links.push({
+				traceId: trigger.traceId,
+				spanId: trigger.spanId,
+				attributes: {
+					'link.invocation_id': trigger.invocationId,
+					'link.label': 'trigger'
+				}
+			});
+		}
+	}
+
+	private linkResumedSegment(span: OtelSpan, resume: TailStream.Resume) {
+		const previous = hibernatedSegments.get(span.traceId);
+		hibernatedSegments.delete(span.traceId);
+
+		span.tags['cloudflare.hibernation.resumed'] = true;
+		Object.assign(span.tags, this.flattenAttachment(resume.attachment, 'resume.attachment'));
+
+		// Tail events don't say which Durable Object resumed, so a resume that starts a fresh trace can't be
+		// matched to its segment and is exported as a trace of its own
+		if (previous) {
+			// Follow the segment into the trace it was stitched into, if it had a caller
+			span.traceId = previous.traceId;
+			span.tags['cloudflare.hibernation.segment'] = previous.segment + 1;
+			span.links.push({
+				traceId: previous.traceId,
+				spanId: previous.spanId,
+				attributes: {
+					'link.label': 'hibernation.resume'
+				}
+			});
+		}
+	}
+
+	private flattenAttachment(value: any, prefix: string): Record<string, any> {
+		if (value === undefined || value === null) return {};
+
+		if (typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+			const tags: Record<string, any> = {};
+			for (const [key, nested] of Object.entries(value)) {
+				Object.assign(tags, this.flattenAttachment(nested, `${prefix}.${key}`));
+			}
+			return tags;
+		}
+
+		if (value instanceof Date) {
+			return { [prefix]: value.toISOString() };
+		}
+		return { [prefix]: value };
+	}
+
+	private handleOutcome(state: InvocationState, event: TailStream.TailEvent<TailStream.Outcome>) {
+		const { event: outcome, timestamp, invocationId } = event;
+		const { rootSpan } = state;
+
+		// IMPORTANT: Set the end time to close the onset span
+		rootSpan.endTime = timestamp.getTime() * 1000000;
+
+		rootSpan.status = {
+			code: outcome.outcome === 'ok' ? SpanStatusCode.OK : SpanStatusCode.ERROR,
+			message: outcome.outcome
+		};
+
+		rootSpan.tags['cpu.time.ms'] = outcome.cpuTime;
+		rootSpan.tags['wall.time.ms'] = outcome.wallTime;
+
+		state.summary.outcome = outcome.outcome;
+		state.summary.cpuTime = outcome.cpuTime;
+		state.summary.wallTime = outcome.wallTime;
+		this.publishClose(invocationId, state, rootSpan, outcome.outcome);
+
+		// Export all spans when the invocation completes
+		this.exportSpans(invocationId, state);
+	}
+
+	private getOperationName(info: TailStream.Onset['info']): string {
+		switch (info.type) {
+			case 'fetch':
+				// Server span names stay low-cardinality, the full URL is in `url.full`
+				return `${info.method} ${new URL(info.url).pathname}`;
+			case 'scheduled':
+				return `scheduled:${info.cron}`;
+			case 'queue':
+				return `queue:${info.queueName}`;
+			case 'email':
+				return `email:${info.mailFrom}`;
+			case 'jsrpc':
+				return `rpc:${info.methodName}`;
+			case 'alarm':
+				return 'alarm';
+			case 'custom':
+				return 'custom';
+			case 'trace':
+				return 'trace';
+			case 'hibernatableWebSocket':
+				return `websocket:${info.info.type}`;
+			case 'resume':
+				return 'resume';
+			default:
+				return 'unknown';
+		}
+	}
+
+	private extractTags(onset: TailStream.Onset): Record<string, any> {
+		// The script, its version and dispatch namespace go in the resource instead
+		const tags: Record<string, any> = {
+			'execution.model': onset.executionModel
+		};
+
+		if (onset.entrypoint) {
+			tags['entrypoint'] = onset.entrypoint;
+		}
+		if (onset.scriptTags) {
+			tags['script.tags'] = onset.scriptTags.join(',');
+		}
+
+		// Add event-specific tags
+		const info = onset.info;
+		if (info.type === 'fetch') {
+			Object.assign(tags, httpServerAttributes(info, this.capturedHeaders));
+		} else if (info.type === 'scheduled') {
+			tags['cron.expression'] = info.cron;
+			tags['scheduled.time'] = info.scheduledTime.toISOString();
+		} else if (info.type === 'queue') {
+			Object.assign(tags, queueConsumerAttributes(info));
+		}
+
+		// Add attributes (check if attributes exists and is iterable)
+		if (onset.attributes && Array.isArray(onset.attributes)) {
+			for (const attr of onset.attributes) {
+				tags[attr.name] = attr.value;
+			}
+		}
+
+		return tags;
+	}
+
+	private extractSpanInfo(info: TailStream.SpanOpen['info']): Record<string, any> {
+		if (!info) return {};
+
+		if ('type' in info && info.type === 'attributes') {
+			const tags: Record<string, any> = {};
+			if (info.info && Array.isArray(info.info)) {
+				for (const attr of info.info) {
+					tags[attr.name] = attr.value;
+				}
+			}
+			return tags;
+		}
+
+		return {};
+	}
+
+	private exportSpans(invocationId: string, state: InvocationState) {
+		const prepared = this.prepareExport(invocationId, state).catch(error => {
+			// Sampling or exception resolution failed, nothing would ever await the rejection
+			console.error('Failed to prepare an invocation for export, dropping it:', error);
+			return undefined;
+		});
+		this.preparing.add(prepared);
+		prepared.then(() => this.preparing.delete(prepared));
+
+		this.track(prepared.then(exported => exported && this.sendToOtel(exported.spans, exported.invocation)));
+	}
+
+	// Samples, resolves exceptions and redacts the invocation's spans and summary; undefined when they aren't exported
+	private async prepareExport(
+		invocationId: string,
+		state: InvocationState
+	): Promise<{ spans: OtelSpan[]; invocation: InvocationSummary } | undefined> {
+		// Stop tracking before sending, so a resumed segment or a reused invocation ID starts afresh
+		if (this.invocations.get(invocationId) === state) {
+			this.invocations.delete(invocationId);
+		}
+		// Logs for spans that never opened still belong in this export
+		this.releaseParked(state, Date.now(), true);
+
+		const allSpans = Array.from(state.spans.values());
+		const { rootSpan, summary } = state;
+
+		if (this.alerter) {
+			this.track(this.alerter.evaluate(allSpans, summary));
+		}
+
+		if (this.sampler) {
+			const decision = this.sampler.decide(allSpans, summary);
+			if (!decision) return undefined;
+
+			rootSpan.tags['cloudflare.sampling.decision'] = decision;
+			rootSpan.tags['cloudflare.sampling.ratio'] = this.sampler.headRatio;
+		}
+
+		await this.exceptionResolver.resolve(allSpans, summary);
+
+		if (!this.redactor) {
+			return { spans: allSpans, invocation: summary };
+		}
+
+		try {
+			await this.redactor.redact(allSpans);
+			// Sampling and alerts match the route as it was, destinations only get it redacted
+			return { spans: allSpans, invocation: await this.redactor.redactSummary(summary) };
+		} catch (error) {
+			// Never export what couldn't be redacted
+			console.error('Failed to redact spans, dropping the export:', error);
+			return undefined;
+		}
+	}
+
+	private async sendToOtel(spans: OtelSpan[], invocation: InvocationSummary) {
+		const destinations = this.destinations.filter(destination => destination.accepts(invocation));
+
+		// Destinations retry independently and never throw, so one slow sink doesn't hold up the others
+		await Promise.all(destinations.map(destination => destination.export(spans, invocation)));
+	}
+}
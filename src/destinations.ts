@@ -0,0 +1,319 @@
+import { AnalyticsStore } from './analytics-store';
+import { Batcher, BatchOptions } from './batcher';
+import type { TailWorkerConfig } from './config';
+import type { OtelSpan } from './converter';
+import { ExportQueue } from './export-queue';
+import { createExporter, ExportPayload, Exporter } from './exporters';
+import { AttributeLimits, DEFAULT_ATTRIBUTE_LIMITS } from './exporters/otlp-json';
+import { buildLogs, countLogRecords } from './logs';
+import { buildMetrics } from './metrics';
+import { isViewerRequest, TraceStore } from './trace-store';
+
+export const SIGNALS = ['traces', 'logs', 'metrics'] as const;
+
+export type Signal = (typeof SIGNALS)[number];
+
+export interface DestinationFilter {
+	// Only export invocations whose outcome is at least this severe
+	minOutcome?: TailStream.EventOutcome;
+	// Script name patterns, `*` matches any run of characters
+	scriptName?: string | string[];
+	// Onset `info.type` values, e.g. `fetch` or `queue`
+	eventTypes?: string[];
+}
+
+export interface DestinationAuth {
+	type: 'bearer' | 'basic';
+	// The token, or `user:password` for basic auth
+	credentials?: string;
+	// Name of an env var (usually a secret) holding the credentials
+	credentialsSecret?: string;
+}
+
+export interface DestinationConfig {
+	name: string;
+	// `http` posts to a collector, `r2` writes one object per export, `console` prints payloads,
+	// `viewer` keeps recent traces in D1 for the built-in viewer at /__traces,
+	// `analytics` keeps span timings in D1 for the stats at /__traces/api/stats
+	type?: 'http' | 'r2' | 'console' | 'viewer' | 'analytics';
+	exporter?: string;
+	endpoint?: string;
+	// Which OTLP signals to export, `traces` only by default
+	signals?: Signal[];
+	// Default to the traces endpoint with `/v1/traces` replaced by `/v1/logs` or `/v1/metrics`
+	logsEndpoint?: string;
+	metricsEndpoint?: string;
+	headers?: Record<string, string>;
+	auth?: DestinationAuth;
+	// How `http` destinations batch invocations together, `false` sends each one on its own
+	batch?: BatchOptions | false;
+	// `http` request bodies are gzipped by default, except for jaeger-thrift which collectors take uncompressed
+	compression?: 'gzip' | 'none';
+	// R2 bucket binding name and key prefix for `r2` destinations
+	bucket?: string;
+	prefix?: string;
+	// D1 database binding name for `viewer` and `analytics` destinations
+	database?: string;
+	// How many invocations a `viewer` keeps
+	retain?: number;
+	// How many hours of samples `analytics` keeps
+	retainHours?: number;
+	filter?: DestinationFilter;
+}
+
+// A destination's config with what it needs from the environment looked up by `loadConfig`. The
+// `headers` of an `http` destination then include OTEL_EXPORTER_OTLP_HEADERS and its `auth`
+export interface ResolvedDestination extends DestinationConfig {
+	// The bound `bucket` of an `r2` destination
+	r2Bucket?: R2Bucket;
+	// The bound `database` of a `viewer` or `analytics` destination
+	d1Database?: D1Database;
+	// Where an `http` destination sends each signal
+	endpoints?: Record<Signal, string>;
+}
+
+// What a destination filter gets to see about an invocation
+export interface InvocationSummary {
+	scriptName?: string;
+	// The deployment's version ID, when the runtime reports one
+	scriptVersion?: string;
+	eventType?: string;
+	// The span of the invocation itself, its other spans are below it
+	rootSpan?: OtelSpan;
+	// `METHOD /path` for fetch invocations, the span name otherwise
+	route?: string;
+	outcome?: TailStream.EventOutcome;
+	cpuTime?: number;
+	wallTime?: number;
+}
+
+// Outcomes ranked by how bad they are, for `minOutcome` filters
+export const OUTCOME_SEVERITY: Record<TailStream.EventOutcome, number> = {
+	ok: 0,
+	canceled: 1,
+	responseStreamDisconnected: 1,
+	unknown: 2,
+	loadShed: 2,
+	exception: 3,
+	exceededCpu: 4,
+	exceededMemory: 4,
+	killSwitch: 4,
+	daemonDown: 4,
+	scriptNotFound: 4
+};
+
+// Writes encoded payloads of one signal somewhere; the spans and invocation are there for naming
+type Sink = (signal: Signal, payloads: ExportPayload[], spans: OtelSpan[], invocation: InvocationSummary) => Promise<void>;
+
+// One invocation's spans, as handed to a destination
+interface InvocationExport {
+	spans: OtelSpan[];
+	invocation: InvocationSummary;
+}
+
+// How destinations export, where their own config doesn't say otherwise, see `parseExportDefaults`
+export interface ExportDefaults {
+	batch: Required<BatchOptions>;
+	compression?: 'gzip' | 'none';
+	attributeLimits: AttributeLimits;
+}
+
+export interface DestinationOptions {
+	// Retries the sink's requests, see `replayDeadLetters`
+	queue?: ExportQueue;
+	batch?: BatchOptions;
+	attributeLimits?: AttributeLimits;
+}
+
+export class Destination {
+	readonly queue?: ExportQueue;
+	private scriptPatterns?: RegExp[];
+	private batcher?: Batcher<InvocationExport>;
+	private attributeLimits: AttributeLimits;
+
+	constructor(
+		readonly name: string,
+		private exporter: Exporter,
+		private sink: Sink,
+		private filter: DestinationFilter = {},
+		private signals: Signal[] = ['traces'],
+		{ queue, batch, attributeLimits = DEFAULT_ATTRIBUTE_LIMITS }: DestinationOptions = {}
+	) {
+		this.queue = queue;
+		this.attributeLimits = attributeLimits;
+		if (filter.scriptName !== undefined) {
+			const patterns = Array.isArray(filter.scriptName) ? filter.scriptName : [filter.scriptName];
+			this.scriptPatterns = patterns.map(globToRegExp);
+		}
+		if (batch) {
+			this.batcher = new Batcher(exports => this.send(exports), ({ spans }) => spans.length, batch);
+		}
+	}
+
+	accepts(invocation: InvocationSummary): boolean {
+		const { minOutcome, eventTypes } = this.filter;
+
+		if (minOutcome && OUTCOME_SEVERITY[invocation.outcome ?? 'ok'] < OUTCOME_SEVERITY[minOutcome]) {
+			return false;
+		}
+		if (eventTypes && (!invocation.eventType || !eventTypes.includes(invocation.eventType))) {
+			return false;
+		}
+		if (this.scriptPatterns && !this.scriptPatterns.some(pattern => pattern.test(invocation.scriptName ?? ''))) {
+			return false;
+		}
+		return true;
+	}
+
+	// Resolves once the sending this call took on is done, see `Batcher` for what that is when batching
+	async export(spans: OtelSpan[], invocation: InvocationSummary = {}): Promise<void> {
+		if (this.batcher) {
+			await this.batcher.add({ spans, invocation });
+		} else {
+			await this.send([{ spans, invocation }]);
+		}
+	}
+
+	// Sends the batch being collected now, without waiting for it to fill up
+	async flush(): Promise<void> {
+		await this.batcher?.flush();
+	}
+
+	private async send(exports: InvocationExport[]) {
+		await Promise.all(this.signals.map(signal => this.exportSignal(signal, exports)));
+	}
+
+	private async exportSignal(signal: Signal, exports: InvocationExport[]) {
+		const spans = exports.flatMap(({ spans }) => spans);
+		// Only sinks that don't look at the invocation get batches, so the first one stands for them all
+		const { invocation } = exports[0];
+		try {
+			switch (signal) {
+				case 'traces': {
+					const options = { logsAsEvents: !this.signals.includes('logs'), attributeLimits: this.attributeLimits };
+					await this.sink(signal, this.exporter.encode(spans, options), spans, invocation);
+					break;
+				}
+				case 'logs': {
+					const logs = buildLogs(spans, this.attributeLimits);
+					if (countLogRecords(logs) > 0) {
+						await this.sink(signal, [this.exporter.encodeLogs!(logs)], spans, invocation);
+					}
+					break;
+				}
+				case 'metrics': {
+					// Metrics are aggregated per invocation, each with its worker's resource
+					const metrics = { resourceMetrics: exports.flatMap(({ spans, invocation }) => buildMetrics(spans, invocation).resourceMetrics) };
+					await this.sink(signal, [this.exporter.encodeMetrics!(metrics)], spans, invocation);
+					break;
+				}
+			}
+		} catch (error) {
+			console.error(`Failed to export ${signal} to destination "${this.name}":`, error);
+		}
+	}
+}
+
+/**
+ * Builds the destinations `loadConfig` resolved. Every HTTP destination gets
+ * its own retry queue, so a slow or failing collector can only fill its own
+ * retry buffer.
+ */
+export function createDestinations({ destinations, exportDefaults, deadLetters }: TailWorkerConfig): Destination[] {
+	return destinations.map(config => createDestination(config, exportDefaults, deadLetters));
+}
+
+function createDestination(config: ResolvedDestination, defaults: ExportDefaults, deadLetters?: KVNamespace): Destination {
+	const exporter = createExporter(config.exporter);
+	const signals = config.signals ?? ['traces'];
+	const { attributeLimits } = defaults;
+
+	switch (config.type ?? 'http') {
+		case 'r2': {
+			const bucket = config.r2Bucket!;
+			const prefix = config.prefix ?? 'traces/';
+			const sink: Sink = (signal, payloads, spans) => writeToBucket(bucket, prefix, signal, payloads, spans);
+			return new Destination(config.name, exporter, sink, config.filter, signals, { attributeLimits });
+		}
+		case 'console':
+			return new Destination(config.name, exporter, printPayloads, config.filter, signals, { attributeLimits });
+		case 'viewer': {
+			const store = new TraceStore(config.d1Database!, { retain: config.retain });
+			const sink: Sink = async (_signal, _payloads, spans, invocation) => {
+				if (!isViewerRequest(invocation)) {
+					await store.save(spans, invocation);
+				}
+			};
+			return new Destination(config.name, exporter, sink, config.filter, ['traces']);
+		}
+		case 'analytics': {
+			const store = new AnalyticsStore(config.d1Database!, { retainHours: config.retainHours });
+			const sink: Sink = async (_signal, _payloads, spans, invocation) => {
+				if (!isViewerRequest(invocation)) {
+					await store.save(spans, invocation);
+				}
+			};
+			return new Destination(config.name, exporter, sink, config.filter, ['traces']);
+		}
+		default: {
+			const endpoints = config.endpoints!;
+			const queue = new ExportQueue(deadLetters, {
+				destination: config.name,
+				headers: config.headers,
+				deadLetterPrefix: `otlp:${config.name}:`
+			});
+			const compression = config.compression ?? defaults.compression ?? (exporter.name === 'jaeger-thrift' ? 'none' : 'gzip');
+			const gzipped = compression === 'gzip';
+
+			const sink: Sink = async (signal, payloads) => {
+				await Promise.all(
+					payloads.map(async payload =>
+						queue.send({
+							endpoint: endpoints[signal],
+							headers: { 'Content-Type': payload.contentType, ...(gzipped && { 'Content-Encoding': 'gzip' }) },
+							// Compressed once up front, so retries and dead letters keep the smaller body
+							body: gzipped ? await gzip(payload.body) : payload.body
+						})
+					)
+				);
+			};
+			const batch = config.batch === false ? undefined : { ...defaults.batch, ...config.batch };
+			return new Destination(config.name, exporter, sink, config.filter, signals, { queue, batch, attributeLimits });
+		}
+	}
+}
+
+async function gzip(body: string | Uint8Array): Promise<Uint8Array> {
+	const compressed = new Blob([body]).stream().pipeThrough(new CompressionStream('gzip'));
+	return new Uint8Array(await new Response(compressed).arrayBuffer());
+}
+
+async function writeToBucket(bucket: R2Bucket, prefix: string, signal: Signal, payloads: ExportPayload[], spans: OtelSpan[]) {
+	const [first] = spans;
+	const date = new Date(first.startTime / 1000000).toISOString().slice(0, 10);
+	const suffix = signal === 'traces' ? '' : `-${signal}`;
+
+	await Promise.all(
+		payloads.map((payload, index) => {
+			const extension = payload.contentType === 'application/json' ? 'json' : 'bin';
+			return bucket.put(`${prefix}${date}/${first.traceId}-${first.spanId}-${index}${suffix}.${extension}`, payload.body, {
+				httpMetadata: { contentType: payload.contentType }
+			});
+		})
+	);
+}
+
+async function printPayloads(signal: Signal, payloads: ExportPayload[], spans: OtelSpan[]) {
+	for (const payload of payloads) {
+		if (typeof payload.body === 'string') {
+			console.log(payload.body);
+		} else {
+			console.log(`[${signal}] ${payload.body.byteLength} byte ${payload.contentType} payload for ${spans.length} span(s)`);
+		}
+	}
+}
+
+export function globToRegExp(pattern: string): RegExp {
+	const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+	return new RegExp(`^${escaped}$`);
+}
@@ -1,5 +1,50 @@
 interface Env {
+	// JSON object with any of the settings below (keyed endpoint, exporter, signals, destinations, headers, sampling,
+	// redaction, alerts, captureRequestHeaders, serviceName, resourceAttributes, limits, liveFeed, recordTailEvents),
+	// e.g. as one secret; the env vars themselves take precedence
+	OTEL_CONFIG?: string | object;
 	OTEL_ENDPOINT?: string;
+	// otlp-json (default), otlp-proto, zipkin or jaeger-thrift
+	OTEL_EXPORTER?: string;
+	// Comma separated OTLP signals to export: traces (default), logs, metrics
+	OTEL_SIGNALS?: string;
+	// Comma separated key=value headers sent to every http destination, e.g. `Authorization=Bearer%20...`
+	OTEL_EXPORTER_OTLP_HEADERS?: string | Record<string, string>;
+	// gzip (the default, except for jaeger-thrift) or none, for http destinations without their own "compression"
+	OTEL_EXPORTER_OTLP_COMPRESSION?: string;
+	// http destinations send invocations together once this many spans (512) are waiting,
+	// or this many milliseconds (1000) after the first, unless they set their own "batch"
+	OTEL_BSP_MAX_EXPORT_BATCH_SIZE?: string;
+	OTEL_BSP_SCHEDULE_DELAY?: string;
+	// Attributes kept per span, event, link and log record (128), and the characters kept of their strings (unlimited)
+	OTEL_ATTRIBUTE_COUNT_LIMIT?: string;
+	OTEL_ATTRIBUTE_VALUE_LENGTH_LIMIT?: string;
+	// JSON array of destinations, replaces OTEL_ENDPOINT/OTEL_EXPORTER when set
+	OTEL_DESTINATIONS?: string | object[];
+	// JSON sampling config: head sampling ratio, tail rules and per-route rate limits
+	OTEL_SAMPLING?: string | object;
+	// JSON redaction config: key allow/deny lists, value scrubbers, IP hashing, query stripping
+	OTEL_REDACTION?: string | object;
+	// Overrides the service.name every worker's spans get from its script name
+	OTEL_SERVICE_NAME?: string;
+	// Comma separated key=value resource attributes added to every span, e.g. `deployment.environment=staging`
+	OTEL_RESOURCE_ATTRIBUTES?: string | Record<string, string>;
+	// JSON overrides of the converter's memory limits, e.g. maxSpansPerInvocation
+	OTEL_LIMITS?: string | object;
+	// Comma separated request headers recorded as http.request.header.* attributes
+	OTEL_CAPTURE_REQUEST_HEADERS?: string;
+	// "true" logs every raw tail event, for capturing replay fixtures with `npm run record`
+	OTEL_RECORD_TAIL_EVENTS?: string;
+	// "true" streams converted events to clients of /__traces/live as they happen
+	OTEL_LIVE_FEED?: string;
+	// Bearer token for /__traces, its live feed and stats; without it they are only served in development
+	OTEL_VIEWER_TOKEN?: string;
+	// R2 bucket binding holding the workers' source maps, to map exception stack traces back to the sources
+	OTEL_SOURCE_MAPS?: string;
+	// JSON alerting config: a webhook URL and rules matching outcomes, exceptions and slow spans
+	OTEL_ALERTS?: string | object;
+	// Failed OTLP exports are kept here and replayed later
+	OTEL_DEAD_LETTER?: KVNamespace;
 
 	// KV Namespaces
 	CACHE_KV: KVNamespace;
@@ -14,6 +59,8 @@ interface Env {
 
 	// Queues
 	ANALYTICS_QUEUE: Queue;
+	// Poison analytics messages, and those that ran out of retries
+	ANALYTICS_DLQ: Queue;
 
 	// Service Bindings
 	AUTH_SERVICE?: Fetcher;
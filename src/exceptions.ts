@@ -0,0 +1,172 @@
+import type { OtelSpan } from './converter';
+import type { InvocationSummary } from './destinations';
+import { SourceMap, SourceMapStore } from './source-maps';
+
+// Name of the OTel span event each exception is recorded as
+export const EXCEPTION_EVENT = 'exception';
+
+export interface StackFrame {
+	function?: string;
+	file: string;
+	// Missing for frames like `native` or `<anonymous>`
+	line?: number;
+	column?: number;
+	async?: boolean;
+}
+
+export interface ParsedStack {
+	// `TypeError: message`, everything before the first frame
+	header: string;
+	frames: StackFrame[];
+}
+
+// `    at [async ]function (location)` or `    at [async ]location`
+const V8_FRAME = /^\s*at (async )?(?:(.+?) \((.+)\)|(.+))$/;
+const LOCATION = /^(.*?):(\d+):(\d+)$/;
+
+// Frames that identify where an exception came from, for its fingerprint
+const FINGERPRINT_FRAMES = 5;
+
+// Parses a V8 stack trace, the format workerd reports
+export function parseStackTrace(stack: string): ParsedStack {
+	const header: string[] = [];
+	const frames: StackFrame[] = [];
+
+	for (const line of stack.split('\n')) {
+		const match = V8_FRAME.exec(line);
+		if (!match) {
+			// Multi-line messages come before the frames
+			if (frames.length === 0) header.push(line);
+			continue;
+		}
+
+		const [, async, name, wrapped, bare] = match;
+		const location = LOCATION.exec(wrapped ?? bare);
+		frames.push({
+			function: name,
+			file: location ? location[1] : (wrapped ?? bare),
+			line: location ? Number(location[2]) : undefined,
+			column: location ? Number(location[3]) : undefined,
+			async: async !== undefined || undefined
+		});
+	}
+
+	return { header: header.join('\n'), frames };
+}
+
+export function formatStackTrace({ header, frames }: ParsedStack): string {
+	const lines = frames.map(frame => {
+		const location = frame.line === undefined ? frame.file : `${frame.file}:${frame.line}:${frame.column}`;
+		return `    at ${frame.async ? 'async ' : ''}${frame.function ? `${frame.function} (${location})` : location}`;
+	});
+	return [header, ...lines].join('\n');
+}
+
+// Maps each frame back to the original source; frames the map doesn't cover stay as they were
+export function resolveFrames(frames: StackFrame[], map: SourceMap): StackFrame[] {
+	return frames.map(frame => {
+		const position = frame.line !== undefined && frame.column !== undefined ? map.originalPosition(frame.line, frame.column) : undefined;
+		if (!position) return frame;
+
+		return {
+			...frame,
+			// Bundlers rename functions, the map knows what they were called
+			function: position.name ?? frame.function,
+			file: position.source,
+			line: position.line,
+			column: position.column
+		};
+	});
+}
+
+/**
+ * Identifies an exception across invocations and deployments: its type and
+ * the functions and files of its top frames. Line numbers are left out so
+ * unrelated edits don't split a group; without frames the message is used
+ * instead, with numbers masked.
+ */
+export async function exceptionFingerprint(type: string, message: string, frames: StackFrame[]): Promise<string> {
+	const identity =
+		frames.length > 0
+			? frames
+					.slice(0, FINGERPRINT_FRAMES)
+					.map(frame => `${frame.function ?? '?'} ${frame.file}`)
+					.join('\n')
+			: message.replace(/\d+/g, '0');
+
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${type}\n${identity}`));
+	return Array.from(new Uint8Array(digest).slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Finishes the `exception` span events before export: stack traces are
+ * mapped back to the original sources when the worker's source map is
+ * available, the top frame becomes `code.*` attributes, and each exception
+ * gets a fingerprint. Repeats of an exception on the same span are folded
+ * into the first one and counted.
+ */
+export class ExceptionResolver {
+	constructor(private sourceMaps?: SourceMapStore) {}
+
+	async resolve(spans: OtelSpan[], invocation: InvocationSummary = {}): Promise<void> {
+		for (const span of spans) {
+			if (!span.events.some(event => event.name === EXCEPTION_EVENT)) continue;
+
+			const seen = new Map<string, Record<string, any>>();
+			const events: OtelSpan['events'] = [];
+
+			for (const event of span.events) {
+				if (event.name !== EXCEPTION_EVENT) {
+					events.push(event);
+					continue;
+				}
+
+				const attributes = await this.resolveException(event.attributes, invocation);
+				const first = seen.get(attributes['cloudflare.exception.fingerprint']);
+				if (first) {
+					first['cloudflare.exception.count'] = (first['cloudflare.exception.count'] ?? 1) + 1;
+					continue;
+				}
+
+				seen.set(attributes['cloudflare.exception.fingerprint'], attributes);
+				events.push({ ...event, attributes });
+			}
+
+			span.events = events;
+		}
+	}
+
+	private async resolveException(attributes: Record<string, any>, invocation: InvocationSummary): Promise<Record<string, any>> {
+		const type = String(attributes['exception.type'] ?? 'Error');
+		const message = String(attributes['exception.message'] ?? '');
+		const stack = parseStackTrace(String(attributes['exception.stacktrace'] ?? ''));
+		const resolved = { ...attributes };
+
+		const map =
+			stack.frames.length > 0 && invocation.scriptName
+				? await this.sourceMaps?.get(invocation.scriptName, invocation.scriptVersion)
+				: undefined;
+		if (map) {
+			stack.frames = resolveFrames(stack.frames, map);
+			resolved['exception.stacktrace'] = formatStackTrace(stack);
+		}
+
+		const [top] = stack.frames;
+		if (top?.line !== undefined) {
+			if (top.function) {
+				resolved['code.function.name'] = top.function;
+			}
+			resolved['code.file.path'] = top.file;
+			resolved['code.line.number'] = top.line;
+			resolved['code.column.number'] = top.column;
+		}
+
+		resolved['cloudflare.exception.fingerprint'] = await exceptionFingerprint(type, message, stack.frames);
+		return resolved;
+	}
+}
+
+// Source maps are read from the OTEL_SOURCE_MAPS bucket `loadConfig` looked up, if there is one
+export function createExceptionResolver(sourceMaps?: R2Bucket): ExceptionResolver {
+	return new ExceptionResolver(sourceMaps ? new SourceMapStore(sourceMaps) : undefined);
+}
@@ -0,0 +1,312 @@
+export interface ExportRequest {
+	endpoint: string;
+	headers: Record<string, string>;
+	body: string | Uint8Array;
+}
+
+// Binary bodies (protobuf, thrift) are base64 encoded in the dead-letter store. Only the
+// payload's own headers are stored, the destination's are added again when it is replayed
+interface StoredExport {
+	destination?: string;
+	endpoint: string;
+	headers: Record<string, string>;
+	body: string;
+	bodyEncoding?: 'base64';
+}
+
+export interface ExportQueueOptions {
+	// The destination the queue delivers to, recorded in its dead letters
+	destination?: string;
+	// Sent with every attempt (credentials, OTEL_EXPORTER_OTLP_HEADERS) but never written to the dead-letter store
+	headers?: Record<string, string>;
+	maxAttempts?: number;
+	baseDelayMs?: number;
+	maxDelayMs?: number;
+	maxBufferedBytes?: number;
+	deadLetterTtlSeconds?: number;
+	// Dead letters are listed by prefix, so queues sharing a namespace only replay their own
+	deadLetterPrefix?: string;
+	replayIntervalMs?: number;
+	// How long a replay keeps starting on dead letters, so it ends within the tail stream's waitUntil() limit
+	replayTimeMs?: number;
+	// A collector that hasn't answered by then counts as a failed attempt
+	timeoutMs?: number;
+}
+
+interface PendingExport extends ExportRequest {
+	attempts: number;
+	bytes: number;
+	evicted: boolean;
+	// The dead letter a replayed payload came from, updated in place if it fails again
+	deadLetter?: { key: string; expiration?: number };
+}
+
+interface DeadLetterMetadata {
+	attempts: number;
+	reason: string;
+	retryable: boolean;
+}
+
+type AttemptResult = { ok: true } | { ok: false; retryable: boolean; retryAfterMs?: number; reason: string };
+
+/**
+ * Delivers export payloads with exponential backoff, keeping the total size of
+ * payloads waiting for a retry under a fixed budget. Payloads that run out of
+ * attempts (or are evicted to make room) go to a KV dead-letter store, which is
+ * replayed from later tail streams so they survive the worker being recycled.
+ */
+export class ExportQueue {
+	private pending: Set<PendingExport> = new Set();
+	private bufferedBytes = 0;
+	private lastReplay = 0;
+	private maxAttempts: number;
+	private baseDelayMs: number;
+	private maxDelayMs: number;
+	private maxBufferedBytes: number;
+	private deadLetterTtlSeconds: number;
+	private deadLetterPrefix: string;
+	private destination?: string;
+	private headers: Record<string, string>;
+	private replayIntervalMs: number;
+	private replayTimeMs: number;
+	private timeoutMs: number;
+
+	constructor(
+		private deadLetters?: KVNamespace,
+		options: ExportQueueOptions = {}
+	) {
+		this.maxAttempts = options.maxAttempts ?? 5;
+		this.baseDelayMs = options.baseDelayMs ?? 500;
+		this.maxDelayMs = options.maxDelayMs ?? 30000;
+		this.maxBufferedBytes = options.maxBufferedBytes ?? 5 * 1024 * 1024;
+		this.deadLetterTtlSeconds = options.deadLetterTtlSeconds ?? 7 * 24 * 60 * 60;
+		this.deadLetterPrefix = options.deadLetterPrefix ?? 'otlp:';
+		this.destination = options.destination;
+		this.headers = options.headers ?? {};
+		this.replayIntervalMs = options.replayIntervalMs ?? 60000;
+		this.replayTimeMs = options.replayTimeMs ?? 15000;
+		this.timeoutMs = options.timeoutMs ?? 10000;
+	}
+
+	get size(): number {
+		return this.pending.size;
+	}
+
+	get bytes(): number {
+		return this.bufferedBytes;
+	}
+
+	/**
+	 * Sends a payload, retrying until it is delivered or dead-lettered.
+	 * Resolves to whether the payload was delivered.
+	 */
+	async send(request: ExportRequest): Promise<boolean> {
+		const entry = this.entry(request);
+
+		if (entry.bytes > this.maxBufferedBytes) {
+			// Too big to wait for a retry, so it gets one attempt; replaying it would only fail the same way
+			const result = await this.attempt(entry);
+			entry.attempts++;
+			if (result.ok) return true;
+
+			await this.deadLetter(entry, `${result.reason}, and the payload of ${entry.bytes} bytes is too big to retry`, false);
+			return false;
+		}
+
+		const evicted = this.reserve(entry);
+		try {
+			await Promise.all(evicted.map(old => this.deadLetter(old, 'evicted from a full retry buffer', true)));
+
+			while (true) {
+				const result = await this.attempt(entry);
+				entry.attempts++;
+
+				if (result.ok) return true;
+				if (entry.evicted) return false;
+
+				if (!result.retryable || entry.attempts >= this.maxAttempts) {
+					await this.deadLetter(entry, result.reason, result.retryable);
+					return false;
+				}
+
+				const delay = this.backoff(entry.attempts, result.retryAfterMs);
+				if (delay === undefined) {
+					// The collector asked us to wait longer than we're willing to hold the payload in memory
+					await this.deadLetter(entry, `${result.reason} (Retry-After ${result.retryAfterMs}ms)`, true);
+					return false;
+				}
+
+				await new Promise(resolve => setTimeout(resolve, delay));
+				// Evicted while sleeping: it is already in the dead-letter store
+				if (entry.evicted) return false;
+			}
+		} finally {
+			this.release(entry);
+		}
+	}
+
+	/**
+	 * Re-sends payloads from the dead-letter store, one attempt each since they
+	 * were retried before. A payload's dead letter is only deleted once it is
+	 * delivered, one that fails again is updated in place, and payloads not
+	 * started within `replayTimeMs` wait for the next replay. Throttled so that
+	 * busy tail streams don't list the store on every invocation.
+	 */
+	async replayDeadLetters(): Promise<void> {
+		if (!this.deadLetters) return;
+
+		const now = Date.now();
+		if (now - this.lastReplay < this.replayIntervalMs) return;
+		this.lastReplay = now;
+
+		try {
+			const listing = await this.deadLetters.list<DeadLetterMetadata>({ prefix: this.deadLetterPrefix, limit: 50 });
+
+			for (const key of listing.keys) {
+				if (Date.now() - now >= this.replayTimeMs) break;
+				// Non-retryable payloads (e.g. a 400 from the collector) are only kept for inspection
+				if (key.metadata && !key.metadata.retryable) continue;
+
+				const stored = await this.deadLetters.get<StoredExport>(key.name, 'json');
+				if (!stored) continue;
+
+				const body = stored.bodyEncoding === 'base64' ? fromBase64(stored.body) : stored.body;
+				const entry = this.entry({ endpoint: stored.endpoint, headers: stored.headers, body });
+				entry.attempts = key.metadata?.attempts ?? 0;
+				entry.deadLetter = { key: key.name, expiration: key.expiration };
+
+				const result = await this.attempt(entry);
+				entry.attempts++;
+				if (result.ok) {
+					await this.deadLetters.delete(key.name);
+				} else {
+					await this.deadLetter(entry, result.reason, result.retryable);
+				}
+			}
+		} catch (error) {
+			console.error('Failed to replay dead-lettered exports:', error);
+		}
+	}
+
+	private entry(request: ExportRequest): PendingExport {
+		const bytes = typeof request.body === 'string' ? new TextEncoder().encode(request.body).byteLength : request.body.byteLength;
+		return { ...request, attempts: 0, bytes, evicted: false };
+	}
+
+	private async attempt(entry: PendingExport): Promise<AttemptResult> {
+		let response: Response;
+		try {
+			response = await fetch(entry.endpoint, {
+				method: 'POST',
+				headers: { ...this.headers, ...entry.headers },
+				body: entry.body,
+				signal: AbortSignal.timeout(this.timeoutMs)
+			});
+		} catch (error) {
+			return { ok: false, retryable: true, reason: error instanceof Error ? error.message : String(error) };
+		}
+
+		// Drain the body so the connection can be reused
+		await response.arrayBuffer().catch(() => undefined);
+
+		if (response.ok) {
+			return { ok: true };
+		}
+
+		const status = response.status;
+		return {
+			ok: false,
+			retryable: status === 408 || status === 429 || status >= 500,
+			retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+			reason: `HTTP ${status}`
+		};
+	}
+
+	private backoff(attempts: number, retryAfterMs?: number): number | undefined {
+		if (retryAfterMs !== undefined) {
+			return retryAfterMs <= this.maxDelayMs ? retryAfterMs : undefined;
+		}
+
+		const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempts - 1));
+		// Jitter so that tail streams failing together don't retry together
+		return Math.round(exponential * (0.5 + Math.random() * 0.5));
+	}
+
+	private reserve(entry: PendingExport): PendingExport[] {
+		const evicted: PendingExport[] = [];
+
+		// Sets iterate in insertion order, so the oldest payloads are evicted first
+		for (const old of this.pending) {
+			if (this.bufferedBytes + entry.bytes <= this.maxBufferedBytes) break;
+			old.evicted = true;
+			this.release(old);
+			evicted.push(old);
+		}
+
+		this.pending.add(entry);
+		this.bufferedBytes += entry.bytes;
+		return evicted;
+	}
+
+	private release(entry: PendingExport) {
+		if (this.pending.delete(entry)) {
+			this.bufferedBytes -= entry.bytes;
+		}
+	}
+
+	private async deadLetter(entry: PendingExport, reason: string, retryable: boolean) {
+		console.error(`Failed to export traces to ${entry.endpoint} after ${entry.attempts} attempt(s): ${reason}`);
+
+		if (!this.deadLetters) return;
+
+		const { destination } = this;
+		const stored: StoredExport =
+			typeof entry.body === 'string'
+				? { destination, endpoint: entry.endpoint, headers: entry.headers, body: entry.body }
+				: { destination, endpoint: entry.endpoint, headers: entry.headers, body: toBase64(entry.body), bodyEncoding: 'base64' };
+		const metadata: DeadLetterMetadata = { attempts: entry.attempts, reason, retryable };
+
+		// A replayed payload keeps its dead letter, and with it the time it expires
+		const key = entry.deadLetter?.key ?? `${this.deadLetterPrefix}${Date.now()}:${crypto.randomUUID()}`;
+		const expiry = entry.deadLetter?.expiration
+			? { expiration: entry.deadLetter.expiration }
+			: { expirationTtl: this.deadLetterTtlSeconds };
+
+		try {
+			await this.deadLetters.put(key, JSON.stringify(stored), { ...expiry, metadata });
+		} catch (error) {
+			console.error('Failed to store dead-lettered export:', error);
+		}
+	}
+}
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an HTTP date.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+	if (!header) return undefined;
+
+	const seconds = Number(header);
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(header);
+	if (!Number.isNaN(date)) {
+		return Math.max(0, date - Date.now());
+	}
+
+	return undefined;
+}
+
+function toBase64(bytes: Uint8Array): string {
+	let binary = '';
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+function fromBase64(encoded: string): Uint8Array {
+	return Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+}
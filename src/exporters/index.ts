@@ -0,0 +1,51 @@
+import type { OtelSpan } from '../converter';
+import type { OtlpLogs } from '../logs';
+import type { OtlpMetrics } from '../metrics';
+import { JaegerThriftExporter } from './jaeger-thrift';
+import { AttributeLimits, OtlpJsonExporter } from './otlp-json';
+import { OtlpProtobufExporter } from './otlp-protobuf';
+import { ZipkinExporter } from './zipkin';
+
+export interface ExportPayload {
+	contentType: string;
+	body: string | Uint8Array;
+}
+
+export interface EncodeOptions {
+	// Keep console logs as span events; off when the logs are exported as OTLP LogRecords instead
+	logsAsEvents?: boolean;
+	// How many attributes OTLP exporters keep, and how long their strings can get
+	attributeLimits?: AttributeLimits;
+}
+
+/**
+ * Encodes converted spans into the wire format of a tracing backend.
+ * An exporter may split one export into several payloads (e.g. one per service).
+ * Only OTLP exporters can also carry the logs and metrics signals.
+ */
+export interface Exporter {
+	readonly name: ExporterName;
+	readonly defaultEndpoint: string;
+	encode(spans: OtelSpan[], options?: EncodeOptions): ExportPayload[];
+	encodeLogs?(logs: OtlpLogs): ExportPayload;
+	encodeMetrics?(metrics: OtlpMetrics): ExportPayload;
+}
+
+export const EXPORTER_NAMES = ['otlp-json', 'otlp-proto', 'zipkin', 'jaeger-thrift'] as const;
+
+export type ExporterName = (typeof EXPORTER_NAMES)[number];
+
+export function createExporter(name: string = 'otlp-json'): Exporter {
+	switch (name) {
+		case 'otlp-json':
+			return new OtlpJsonExporter();
+		case 'otlp-proto':
+			return new OtlpProtobufExporter();
+		case 'zipkin':
+			return new ZipkinExporter();
+		case 'jaeger-thrift':
+			return new JaegerThriftExporter();
+		default:
+			throw new Error(`Unknown OTEL_EXPORTER "${name}", expected one of: ${EXPORTER_NAMES.join(', ')}`);
+	}
+}
@@ -0,0 +1,235 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import type { OtelSpan } from '../converter';
+import type { ExportPayload, Exporter } from '.';
+import { groupByResource, padHex } from './otlp-json';
+
+/**
+ * Jaeger's native Thrift batches (binary protocol) for the collector's
+ * `/api/traces` endpoint. Struct and field ids follow jaeger-idl's jaeger.thrift.
+ */
+export class JaegerThriftExporter implements Exporter {
+	readonly name = 'jaeger-thrift';
+	readonly defaultEndpoint = 'http://localhost:14268/api/traces';
+
+	// A batch has a single process, so each worker's spans go in their own
+	encode(spans: OtelSpan[]): ExportPayload[] {
+		return groupByResource(spans, span => span).map(({ resource, items }) => ({
+			contentType: 'application/x-thrift',
+			body: encodeBatch(items, resource)
+		}));
+	}
+}
+
+const T_STOP = 0;
+const T_BOOL = 2;
+const T_DOUBLE = 4;
+const T_I32 = 8;
+const T_I64 = 10;
+const T_STRING = 11;
+const T_STRUCT = 12;
+const T_LIST = 15;
+
+const TAG_STRING = 0;
+const TAG_DOUBLE = 1;
+const TAG_BOOL = 2;
+const TAG_LONG = 3;
+
+const REF_FOLLOWS_FROM = 1;
+
+// Jaeger's sampled flag
+const FLAG_SAMPLED = 1;
+
+class ThriftWriter {
+	private bytes: number[] = [];
+
+	finish(): Uint8Array {
+		return Uint8Array.from(this.bytes);
+	}
+
+	field(type: number, id: number) {
+		this.bytes.push(type);
+		this.i16(id);
+	}
+
+	stop() {
+		this.bytes.push(T_STOP);
+	}
+
+	list<T>(elementType: number, items: T[], write: (item: T) => void) {
+		this.bytes.push(elementType);
+		this.i32(items.length);
+		for (const item of items) {
+			write(item);
+		}
+	}
+
+	bool(value: boolean) {
+		this.bytes.push(value ? 1 : 0);
+	}
+
+	i16(value: number) {
+		this.bytes.push((value >> 8) & 0xff, value & 0xff);
+	}
+
+	i32(value: number) {
+		const view = new DataView(new ArrayBuffer(4));
+		view.setInt32(0, value);
+		this.push(new Uint8Array(view.buffer));
+	}
+
+	i64(value: bigint) {
+		const view = new DataView(new ArrayBuffer(8));
+		view.setBigInt64(0, BigInt.asIntN(64, value));
+		this.push(new Uint8Array(view.buffer));
+	}
+
+	double(value: number) {
+		const view = new DataView(new ArrayBuffer(8));
+		view.setFloat64(0, value);
+		this.push(new Uint8Array(view.buffer));
+	}
+
+	string(value: string) {
+		const encoded = new TextEncoder().encode(value);
+		this.i32(encoded.byteLength);
+		this.push(encoded);
+	}
+
+	private push(bytes: Uint8Array) {
+		for (const byte of bytes) {
+			this.bytes.push(byte);
+		}
+	}
+}
+
+function hexToI64(hex: string): bigint {
+	return BigInt.asIntN(64, BigInt(`0x${hex}`));
+}
+
+function toMicros(nanos: number): bigint {
+	return BigInt(Math.round(nanos / 1000));
+}
+
+function writeTag(writer: ThriftWriter, key: string, value: any) {
+	writer.field(T_STRING, 1);
+	writer.string(key);
+
+	if (typeof value === 'boolean') {
+		writer.field(T_I32, 2);
+		writer.i32(TAG_BOOL);
+		writer.field(T_BOOL, 5);
+		writer.bool(value);
+	} else if (typeof value === 'bigint' || (typeof value === 'number' && Number.isInteger(value))) {
+		writer.field(T_I32, 2);
+		writer.i32(TAG_LONG);
+		writer.field(T_I64, 6);
+		writer.i64(BigInt(value));
+	} else if (typeof value === 'number') {
+		writer.field(T_I32, 2);
+		writer.i32(TAG_DOUBLE);
+		writer.field(T_DOUBLE, 4);
+		writer.double(value);
+	} else {
+		writer.field(T_I32, 2);
+		writer.i32(TAG_STRING);
+		writer.field(T_STRING, 3);
+		writer.string(typeof value === 'string' ? value : JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v)));
+	}
+
+	writer.stop();
+}
+
+function writeTags(writer: ThriftWriter, id: number, tags: Record<string, any>) {
+	const entries = Object.entries(tags).filter(([, value]) => value !== undefined && value !== null);
+	writer.field(T_LIST, id);
+	writer.list(T_STRUCT, entries, ([key, value]) => writeTag(writer, key, value));
+}
+
+function spanTags(span: OtelSpan): Record<string, any> {
+	const tags: Record<string, any> = { ...span.tags, 'span.kind': SpanKind[span.kind].toLowerCase() };
+
+	if (span.status) {
+		tags['otel.status_code'] = SpanStatusCode[span.status.code];
+		if (span.status.message) {
+			tags['otel.status_description'] = span.status.message;
+		}
+		if (span.status.code === SpanStatusCode.ERROR) {
+			tags['error'] = true;
+		}
+	}
+
+	return tags;
+}
+
+function writeSpan(writer: ThriftWriter, span: OtelSpan) {
+	const traceId = padHex(span.traceId, 32);
+
+	writer.field(T_I64, 1);
+	writer.i64(hexToI64(traceId.slice(16)));
+	writer.field(T_I64, 2);
+	writer.i64(hexToI64(traceId.slice(0, 16)));
+	writer.field(T_I64, 3);
+	writer.i64(hexToI64(padHex(span.spanId, 16)));
+	writer.field(T_I64, 4);
+	writer.i64(span.parentSpanId ? hexToI64(padHex(span.parentSpanId, 16)) : 0n);
+	writer.field(T_STRING, 5);
+	writer.string(span.operationName);
+
+	// Parents use parentSpanId, span links become FOLLOWS_FROM references
+	if (span.links.length > 0) {
+		writer.field(T_LIST, 6);
+		writer.list(T_STRUCT, span.links, link => {
+			const linkTraceId = padHex(link.traceId, 32);
+			writer.field(T_I32, 1);
+			writer.i32(REF_FOLLOWS_FROM);
+			writer.field(T_I64, 2);
+			writer.i64(hexToI64(linkTraceId.slice(16)));
+			writer.field(T_I64, 3);
+			writer.i64(hexToI64(linkTraceId.slice(0, 16)));
+			writer.field(T_I64, 4);
+			writer.i64(hexToI64(padHex(link.spanId, 16)));
+			writer.stop();
+		});
+	}
+
+	writer.field(T_I32, 7);
+	writer.i32(FLAG_SAMPLED);
+	writer.field(T_I64, 8);
+	writer.i64(toMicros(span.startTime));
+	writer.field(T_I64, 9);
+	writer.i64(span.endTime !== undefined ? toMicros(span.endTime - span.startTime) : 0n);
+	writeTags(writer, 10, spanTags(span));
+
+	const logs = [
+		...span.events.map(event => ({ timestamp: event.timestamp, fields: { event: event.name, ...event.attributes } })),
+		...span.logs.map(log => ({ timestamp: log.timestamp, fields: { event: 'log', ...log.fields } }))
+	];
+	writer.field(T_LIST, 11);
+	writer.list(T_STRUCT, logs, log => {
+		writer.field(T_I64, 1);
+		writer.i64(toMicros(log.timestamp));
+		writeTags(writer, 2, log.fields);
+		writer.stop();
+	});
+
+	writer.stop();
+}
+
+export function encodeBatch(spans: OtelSpan[], resource: Record<string, string>): Uint8Array {
+	const writer = new ThriftWriter();
+	const { 'service.name': serviceName, ...processTags } = resource;
+
+	// Batch.process
+	writer.field(T_STRUCT, 1);
+	writer.field(T_STRING, 1);
+	writer.string(serviceName);
+	writeTags(writer, 2, processTags);
+	writer.stop();
+
+	// Batch.spans
+	writer.field(T_LIST, 2);
+	writer.list(T_STRUCT, spans, span => writeSpan(writer, span));
+
+	writer.stop();
+	return writer.finish();
+}
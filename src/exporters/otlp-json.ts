@@ -0,0 +1,298 @@
+import { SpanKind } from '@opentelemetry/api';
+import type { OtelSpan } from '../converter';
+import type { OtlpLogs } from '../logs';
+import type { OtlpMetrics } from '../metrics';
+import { workerResource } from '../semconv';
+import type { EncodeOptions, ExportPayload, Exporter } from '.';
+
+export const SCOPE_NAME = 'cloudflare-worker-tracer';
+export const SCOPE_VERSION = '1.0.0';
+
+// As in the OTLP/JSON encoding: 64-bit ints as decimal strings, bytes as base64, and an empty value for null
+export type OtlpAnyValue =
+	| { stringValue: string }
+	| { boolValue: boolean }
+	| { intValue: string }
+	| { doubleValue: number | 'NaN' | 'Infinity' | '-Infinity' }
+	| { bytesValue: string }
+	| { arrayValue: { values: OtlpAnyValue[] } }
+	| { kvlistValue: { values: OtlpKeyValue[] } }
+	| Record<string, never>;
+
+export interface OtlpKeyValue {
+	key: string;
+	value: OtlpAnyValue;
+}
+
+export interface OtlpSpan {
+	traceId: string;
+	spanId: string;
+	parentSpanId?: string;
+	name: string;
+	kind: number;
+	startTimeUnixNano: string;
+	endTimeUnixNano?: string;
+	attributes: OtlpKeyValue[];
+	droppedAttributesCount?: number;
+	events: Array<{ timeUnixNano: string; name: string; attributes: OtlpKeyValue[]; droppedAttributesCount?: number }>;
+	links: Array<{ traceId: string; spanId: string; attributes: OtlpKeyValue[]; droppedAttributesCount?: number }>;
+	status?: { code: number; message?: string };
+}
+
+export interface OtlpTraces {
+	resourceSpans: Array<{
+		resource: { attributes: OtlpKeyValue[] };
+		scopeSpans: Array<{
+			scope: { name: string; version: string };
+			spans: OtlpSpan[];
+		}>;
+	}>;
+}
+
+export class OtlpJsonExporter implements Exporter {
+	readonly name = 'otlp-json';
+	readonly defaultEndpoint = 'http://localhost:4318/v1/traces';
+
+	encode(spans: OtelSpan[], options?: EncodeOptions): ExportPayload[] {
+		return [{ contentType: 'application/json', body: JSON.stringify(convertToOtelFormat(spans, options)) }];
+	}
+
+	encodeLogs(logs: OtlpLogs): ExportPayload {
+		return { contentType: 'application/json', body: JSON.stringify(logs) };
+	}
+
+	encodeMetrics(metrics: OtlpMetrics): ExportPayload {
+		return { contentType: 'application/json', body: JSON.stringify(metrics) };
+	}
+}
+
+// One resourceSpans entry per worker, so each shows up as its own service
+export function convertToOtelFormat(
+	spans: OtelSpan[],
+	{ logsAsEvents = true, attributeLimits = DEFAULT_ATTRIBUTE_LIMITS }: EncodeOptions = {}
+): OtlpTraces {
+	return {
+		resourceSpans: groupByResource(spans, span => span).map(({ resource, items }) => ({
+			resource: {
+				attributes: convertAttributes(resource)
+			},
+			scopeSpans: [{
+				scope: {
+					name: SCOPE_NAME,
+					version: SCOPE_VERSION
+				},
+				spans: items.map(span => ({
+					traceId: padHex(span.traceId, 32),
+					spanId: padHex(span.spanId, 16),
+					parentSpanId: span.parentSpanId ? padHex(span.parentSpanId, 16) : undefined,
+					name: span.operationName,
+					kind: otlpSpanKind(span.kind),
+					startTimeUnixNano: span.startTime.toString(),
+					endTimeUnixNano: span.endTime?.toString(),
+					...limitAttributes(span.tags, attributeLimits),
+					events: [
+						// Add proper OTEL span events
+						...span.events.map(event => ({
+							timeUnixNano: event.timestamp.toString(),
+							name: event.name,
+							...limitAttributes(event.attributes, attributeLimits)
+						})),
+						// Add console logs as log events
+						...(logsAsEvents ? span.logs : []).map(log => ({
+							timeUnixNano: log.timestamp.toString(),
+							name: 'log',
+							...limitAttributes(log.fields, attributeLimits)
+						}))
+					],
+					links: span.links.map(link => ({
+						traceId: padHex(link.traceId, 32),
+						spanId: padHex(link.spanId, 16),
+						...limitAttributes(link.attributes, attributeLimits)
+					})),
+					status: span.status ? {
+						code: span.status.code,
+						message: span.status.message
+					} : undefined
+				}))
+			}]
+		}))
+	};
+}
+
+// OTLP reserves 0 for SPAN_KIND_UNSPECIFIED, so its kinds are the API's shifted up by one
+export function otlpSpanKind(kind: SpanKind): number {
+	return kind + 1;
+}
+
+export function spanResource(span: OtelSpan): Record<string, string> {
+	return span.resource ?? workerResource();
+}
+
+// Groups items by the resource of the span they belong to, in the order each resource first appears
+export function groupByResource<T>(items: T[], spanOf: (item: T) => OtelSpan): Array<{ resource: Record<string, string>; items: T[] }> {
+	const groups = new Map<string, { resource: Record<string, string>; items: T[] }>();
+	for (const item of items) {
+		const resource = spanResource(spanOf(item));
+		const key = JSON.stringify(resource);
+
+		const group = groups.get(key) ?? { resource, items: [] };
+		group.items.push(item);
+		groups.set(key, group);
+	}
+	return Array.from(groups.values());
+}
+
+export interface AttributeLimits {
+	// Attributes kept per span, event, link and log record, the rest are counted in droppedAttributesCount
+	count: number;
+	// Strings longer than this many characters are truncated, at any depth
+	valueLength?: number;
+}
+
+// The OTel SDK defaults: OTEL_ATTRIBUTE_COUNT_LIMIT of 128 and no OTEL_ATTRIBUTE_VALUE_LENGTH_LIMIT
+export const DEFAULT_ATTRIBUTE_LIMITS: AttributeLimits = { count: 128 };
+
+// Attributes without a value (undefined or null) are left out, as OTel SDKs do
+export function convertAttributes(attributes: Record<string, any>, valueLength?: number): OtlpKeyValue[] {
+	return Object.entries(attributes)
+		.filter(([, value]) => value !== undefined && value !== null)
+		.map(([key, value]) => ({ key, value: convertAttributeValue(value, valueLength) }));
+}
+
+// Keeps the first `limits.count` attributes, with droppedAttributesCount set when any are left out
+export function limitAttributes(
+	attributes: Record<string, any>,
+	limits: AttributeLimits
+): { attributes: OtlpKeyValue[]; droppedAttributesCount?: number } {
+	const converted = convertAttributes(attributes, limits.valueLength);
+	if (converted.length <= limits.count) {
+		return { attributes: converted };
+	}
+	return { attributes: converted.slice(0, limits.count), droppedAttributesCount: converted.length - limits.count };
+}
+
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+/**
+ * Encodes a value as an OTLP AnyValue: integers that fit in an int64 as
+ * intValue, other numbers as doubleValue, binary as bytesValue, plain objects
+ * and Maps as kvlistValue and arrays (including typed arrays) as arrayValue.
+ * Array items all get the same kind, as attribute arrays must be homogeneous:
+ * ints are widened to doubles when mixed with them, and anything else mixed
+ * is turned into strings.
+ */
+export function convertAttributeValue(value: any, valueLength?: number, ancestors: object[] = []): OtlpAnyValue {
+	switch (typeof value) {
+		case 'string':
+			return { stringValue: truncate(value, valueLength) };
+		case 'boolean':
+			return { boolValue: value };
+		case 'number':
+			if (Number.isSafeInteger(value)) {
+				// `+ 0` turns -0 into 0
+				return { intValue: (value + 0).toString() };
+			}
+			return { doubleValue: Number.isFinite(value) ? value : (String(value) as 'NaN' | 'Infinity' | '-Infinity') };
+		case 'bigint':
+			if (value >= INT64_MIN && value <= INT64_MAX) {
+				return { intValue: value.toString() };
+			}
+			return { stringValue: truncate(value.toString(), valueLength) };
+		case 'undefined':
+			return {};
+		case 'object':
+			break;
+		default:
+			return { stringValue: truncate(String(value), valueLength) };
+	}
+
+	if (value === null) {
+		return {};
+	}
+	if (ancestors.includes(value)) {
+		return { stringValue: truncate('[Circular]', valueLength) };
+	}
+	if (value instanceof Date) {
+		return { stringValue: truncate(Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString(), valueLength) };
+	}
+	if (value instanceof ArrayBuffer || value instanceof Uint8Array || value instanceof Uint8ClampedArray || value instanceof DataView) {
+		const bytes = value instanceof ArrayBuffer ? new Uint8Array(value) : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+		return { bytesValue: bytesToBase64(bytes) };
+	}
+
+	const nested = [...ancestors, value];
+	if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+		const items = Array.from(value as ArrayLike<unknown>, item => convertAttributeValue(item, valueLength, nested));
+		return { arrayValue: { values: homogeneous(items, valueLength) } };
+	}
+	if (value instanceof Map) {
+		const entries = Array.from(value, ([key, item]): [string, unknown] => [String(key), item]);
+		return { kvlistValue: { values: convertNested(entries, valueLength, nested) } };
+	}
+	const prototype = Object.getPrototypeOf(value);
+	if (prototype === Object.prototype || prototype === null) {
+		return { kvlistValue: { values: convertNested(Object.entries(value), valueLength, nested) } };
+	}
+	return { stringValue: truncate(String(value), valueLength) };
+}
+
+function convertNested(entries: Array<[string, unknown]>, valueLength: number | undefined, ancestors: object[]): OtlpKeyValue[] {
+	return entries
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => ({ key, value: convertAttributeValue(value, valueLength, ancestors) }));
+}
+
+// Gives every (non-empty) item the same kind, see `convertAttributeValue`
+function homogeneous(items: OtlpAnyValue[], valueLength: number | undefined): OtlpAnyValue[] {
+	const kinds = new Set(items.flatMap(item => Object.keys(item)));
+	if (kinds.size <= 1) {
+		return items;
+	}
+	if (kinds.size === 2 && kinds.has('intValue') && kinds.has('doubleValue')) {
+		return items.map(item => ('intValue' in item ? { doubleValue: Number(item.intValue) } : item));
+	}
+	return items.map(item => (Object.keys(item).length === 0 ? item : { stringValue: truncate(anyValueToString(item), valueLength) }));
+}
+
+// Scalars as they'd print, arrays and kvlists as JSON
+function anyValueToString(value: OtlpAnyValue): string {
+	if ('stringValue' in value) return value.stringValue;
+	if ('boolValue' in value) return String(value.boolValue);
+	if ('intValue' in value) return value.intValue;
+	if ('doubleValue' in value) return String(value.doubleValue);
+	return JSON.stringify(plainValue(value));
+}
+
+function plainValue(value: OtlpAnyValue): unknown {
+	if ('arrayValue' in value) return value.arrayValue.values.map(plainValue);
+	if ('kvlistValue' in value) return Object.fromEntries(value.kvlistValue.values.map(({ key, value }) => [key, plainValue(value)]));
+	if ('bytesValue' in value) return value.bytesValue;
+	if ('intValue' in value) return Number.isSafeInteger(Number(value.intValue)) ? Number(value.intValue) : value.intValue;
+	if ('stringValue' in value) return value.stringValue;
+	if ('boolValue' in value) return value.boolValue;
+	if ('doubleValue' in value) return value.doubleValue;
+	return null;
+}
+
+// Counts characters as code points, so a surrogate pair is never split
+function truncate(value: string, length: number | undefined): string {
+	if (length === undefined || value.length <= length) {
+		return value;
+	}
+	const characters = Array.from(value);
+	return characters.length <= length ? value : characters.slice(0, length).join('');
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+	let binary = '';
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+export function padHex(hex: string, targetLength: number): string {
+	// Ensure hex string is the correct length for OTEL (32 chars for traceId, 16 for spanId)
+	return hex.padStart(targetLength, '0').toLowerCase();
+}
@@ -0,0 +1,320 @@
+import type { OtelSpan } from '../converter';
+import type { OtlpLogs } from '../logs';
+import type { OtlpHistogramDataPoint, OtlpMetrics, OtlpNumberDataPoint } from '../metrics';
+import type { EncodeOptions, ExportPayload, Exporter } from '.';
+import { convertToOtelFormat, OtlpAnyValue, OtlpKeyValue, OtlpSpan, OtlpTraces } from './otlp-json';
+
+/**
+ * OTLP/HTTP with protobuf bodies. Encodes the same structures as the OTLP/JSON
+ * exporter, field numbers follow opentelemetry-proto's trace/v1, logs/v1,
+ * metrics/v1 and common/v1.
+ */
+export class OtlpProtobufExporter implements Exporter {
+	readonly name = 'otlp-proto';
+	readonly defaultEndpoint = 'http://localhost:4318/v1/traces';
+
+	encode(spans: OtelSpan[], options?: EncodeOptions): ExportPayload[] {
+		return [{ contentType: 'application/x-protobuf', body: encodeTraces(convertToOtelFormat(spans, options)) }];
+	}
+
+	encodeLogs(logs: OtlpLogs): ExportPayload {
+		return { contentType: 'application/x-protobuf', body: encodeLogs(logs) };
+	}
+
+	encodeMetrics(metrics: OtlpMetrics): ExportPayload {
+		return { contentType: 'application/x-protobuf', body: encodeMetrics(metrics) };
+	}
+}
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+
+class ProtoWriter {
+	private bytes: number[] = [];
+
+	finish(): Uint8Array {
+		return Uint8Array.from(this.bytes);
+	}
+
+	varint(field: number, value: number | bigint) {
+		this.tag(field, WIRE_VARINT);
+		this.rawVarint(BigInt.asUintN(64, BigInt(value)));
+	}
+
+	bool(field: number, value: boolean) {
+		this.varint(field, value ? 1 : 0);
+	}
+
+	fixed64(field: number, value: bigint) {
+		this.tag(field, WIRE_FIXED64);
+		const view = new DataView(new ArrayBuffer(8));
+		view.setBigUint64(0, BigInt.asUintN(64, value), true);
+		this.bytes.push(...new Uint8Array(view.buffer));
+	}
+
+	double(field: number, value: number) {
+		this.tag(field, WIRE_FIXED64);
+		const view = new DataView(new ArrayBuffer(8));
+		view.setFloat64(0, value, true);
+		this.bytes.push(...new Uint8Array(view.buffer));
+	}
+
+	packedFixed64(field: number, values: bigint[]) {
+		const view = new DataView(new ArrayBuffer(values.length * 8));
+		values.forEach((value, index) => view.setBigUint64(index * 8, BigInt.asUintN(64, value), true));
+		this.bytesField(field, new Uint8Array(view.buffer));
+	}
+
+	packedDouble(field: number, values: number[]) {
+		const view = new DataView(new ArrayBuffer(values.length * 8));
+		values.forEach((value, index) => view.setFloat64(index * 8, value, true));
+		this.bytesField(field, new Uint8Array(view.buffer));
+	}
+
+	string(field: number, value: string | undefined) {
+		// proto3 omits empty strings, they decode to the default anyway
+		if (!value) return;
+		this.bytesField(field, new TextEncoder().encode(value));
+	}
+
+	bytesField(field: number, value: Uint8Array) {
+		this.tag(field, WIRE_LENGTH_DELIMITED);
+		this.rawVarint(BigInt(value.byteLength));
+		// Not push(...value): spreading a large nested message would overflow the call stack
+		for (const byte of value) {
+			this.bytes.push(byte);
+		}
+	}
+
+	message(field: number, write: (writer: ProtoWriter) => void) {
+		const nested = new ProtoWriter();
+		write(nested);
+		this.bytesField(field, nested.finish());
+	}
+
+	private tag(field: number, wireType: number) {
+		this.rawVarint(BigInt((field << 3) | wireType));
+	}
+
+	private rawVarint(value: bigint) {
+		while (value > 0x7fn) {
+			this.bytes.push(Number(value & 0x7fn) | 0x80);
+			value >>= 7n;
+		}
+		this.bytes.push(Number(value));
+	}
+}
+
+function hexToBytes(hex: string): Uint8Array {
+	const bytes = new Uint8Array(hex.length / 2);
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+	}
+	return bytes;
+}
+
+function writeAnyValue(writer: ProtoWriter, value: OtlpAnyValue) {
+	if ('stringValue' in value) {
+		// Written even when empty so the oneof is still set
+		writer.bytesField(1, new TextEncoder().encode(value.stringValue));
+	} else if ('boolValue' in value) {
+		writer.bool(2, value.boolValue);
+	} else if ('intValue' in value) {
+		writer.varint(3, BigInt(value.intValue));
+	} else if ('doubleValue' in value) {
+		// Number() also reads back the "NaN" and "Infinity" that JSON can't hold as numbers
+		writer.double(4, Number(value.doubleValue));
+	} else if ('arrayValue' in value) {
+		writer.message(5, array => {
+			for (const item of value.arrayValue.values) {
+				array.message(1, w => writeAnyValue(w, item));
+			}
+		});
+	} else if ('kvlistValue' in value) {
+		writer.message(6, kvlist => writeKeyValues(kvlist, 1, value.kvlistValue.values));
+	} else if ('bytesValue' in value) {
+		writer.bytesField(7, Uint8Array.from(atob(value.bytesValue), char => char.charCodeAt(0)));
+	}
+}
+
+function writeKeyValues(writer: ProtoWriter, field: number, attributes: OtlpKeyValue[]) {
+	for (const attribute of attributes) {
+		writer.message(field, w => {
+			w.string(1, attribute.key);
+			w.message(2, v => writeAnyValue(v, attribute.value));
+		});
+	}
+}
+
+// proto3 leaves zero counts out
+function writeDroppedCount(writer: ProtoWriter, field: number, count: number | undefined) {
+	if (count) {
+		writer.varint(field, count);
+	}
+}
+
+function writeSpan(writer: ProtoWriter, span: OtlpSpan) {
+	writer.bytesField(1, hexToBytes(span.traceId));
+	writer.bytesField(2, hexToBytes(span.spanId));
+	if (span.parentSpanId) {
+		writer.bytesField(4, hexToBytes(span.parentSpanId));
+	}
+	writer.string(5, span.name);
+	writer.varint(6, span.kind);
+	writer.fixed64(7, BigInt(span.startTimeUnixNano));
+	if (span.endTimeUnixNano) {
+		writer.fixed64(8, BigInt(span.endTimeUnixNano));
+	}
+	writeKeyValues(writer, 9, span.attributes);
+	writeDroppedCount(writer, 10, span.droppedAttributesCount);
+	for (const event of span.events) {
+		writer.message(11, w => {
+			w.fixed64(1, BigInt(event.timeUnixNano));
+			w.string(2, event.name);
+			writeKeyValues(w, 3, event.attributes);
+			writeDroppedCount(w, 4, event.droppedAttributesCount);
+		});
+	}
+	for (const link of span.links) {
+		writer.message(13, w => {
+			w.bytesField(1, hexToBytes(link.traceId));
+			w.bytesField(2, hexToBytes(link.spanId));
+			writeKeyValues(w, 4, link.attributes);
+			writeDroppedCount(w, 5, link.droppedAttributesCount);
+		});
+	}
+	if (span.status) {
+		const status = span.status;
+		writer.message(15, w => {
+			w.string(2, status.message);
+			w.varint(3, status.code);
+		});
+	}
+}
+
+export function encodeTraces(traces: OtlpTraces): Uint8Array {
+	const writer = new ProtoWriter();
+
+	for (const resourceSpans of traces.resourceSpans) {
+		writer.message(1, rs => {
+			rs.message(1, resource => writeKeyValues(resource, 1, resourceSpans.resource.attributes));
+			for (const scopeSpans of resourceSpans.scopeSpans) {
+				rs.message(2, ss => {
+					ss.message(1, scope => {
+						scope.string(1, scopeSpans.scope.name);
+						scope.string(2, scopeSpans.scope.version);
+					});
+					for (const span of scopeSpans.spans) {
+						ss.message(2, w => writeSpan(w, span));
+					}
+				});
+			}
+		});
+	}
+
+	return writer.finish();
+}
+
+function writeResource(writer: ProtoWriter, attributes: OtlpKeyValue[]) {
+	writer.message(1, resource => writeKeyValues(resource, 1, attributes));
+}
+
+function writeScope(writer: ProtoWriter, scope: { name: string; version: string }) {
+	writer.message(1, w => {
+		w.string(1, scope.name);
+		w.string(2, scope.version);
+	});
+}
+
+export function encodeLogs(logs: OtlpLogs): Uint8Array {
+	const writer = new ProtoWriter();
+
+	for (const resourceLogs of logs.resourceLogs) {
+		writer.message(1, rl => {
+			writeResource(rl, resourceLogs.resource.attributes);
+			for (const scopeLogs of resourceLogs.scopeLogs) {
+				rl.message(2, sl => {
+					writeScope(sl, scopeLogs.scope);
+					for (const record of scopeLogs.logRecords) {
+						sl.message(2, w => {
+							w.fixed64(1, BigInt(record.timeUnixNano));
+							w.varint(2, record.severityNumber);
+							w.string(3, record.severityText);
+							w.message(5, body => writeAnyValue(body, record.body));
+							writeKeyValues(w, 6, record.attributes);
+							writeDroppedCount(w, 7, record.droppedAttributesCount);
+							w.bytesField(9, hexToBytes(record.traceId));
+							w.bytesField(10, hexToBytes(record.spanId));
+							w.fixed64(11, BigInt(record.observedTimeUnixNano));
+						});
+					}
+				});
+			}
+		});
+	}
+
+	return writer.finish();
+}
+
+function writeNumberDataPoint(writer: ProtoWriter, point: OtlpNumberDataPoint) {
+	writer.fixed64(2, BigInt(point.startTimeUnixNano));
+	writer.fixed64(3, BigInt(point.timeUnixNano));
+	// as_int is an sfixed64, which shares fixed64's wire format
+	writer.fixed64(6, BigInt(point.asInt));
+	writeKeyValues(writer, 7, point.attributes);
+}
+
+function writeHistogramDataPoint(writer: ProtoWriter, point: OtlpHistogramDataPoint) {
+	writer.fixed64(2, BigInt(point.startTimeUnixNano));
+	writer.fixed64(3, BigInt(point.timeUnixNano));
+	writer.fixed64(4, BigInt(point.count));
+	writer.double(5, point.sum);
+	writer.packedFixed64(6, point.bucketCounts.map(count => BigInt(count)));
+	writer.packedDouble(7, point.explicitBounds);
+	writeKeyValues(writer, 9, point.attributes);
+	writer.double(11, point.min);
+	writer.double(12, point.max);
+}
+
+export function encodeMetrics(metrics: OtlpMetrics): Uint8Array {
+	const writer = new ProtoWriter();
+
+	for (const resourceMetrics of metrics.resourceMetrics) {
+		writer.message(1, rm => {
+			writeResource(rm, resourceMetrics.resource.attributes);
+			for (const scopeMetrics of resourceMetrics.scopeMetrics) {
+				rm.message(2, sm => {
+					writeScope(sm, scopeMetrics.scope);
+					for (const metric of scopeMetrics.metrics) {
+						sm.message(2, w => {
+							w.string(1, metric.name);
+							w.string(2, metric.description);
+							w.string(3, metric.unit);
+							if ('sum' in metric) {
+								const { sum } = metric;
+								w.message(7, s => {
+									for (const point of sum.dataPoints) {
+										s.message(1, p => writeNumberDataPoint(p, point));
+									}
+									s.varint(2, sum.aggregationTemporality);
+									s.bool(3, sum.isMonotonic);
+								});
+							} else {
+								const { histogram } = metric;
+								w.message(9, h => {
+									for (const point of histogram.dataPoints) {
+										h.message(1, p => writeHistogramDataPoint(p, point));
+									}
+									h.varint(2, histogram.aggregationTemporality);
+								});
+							}
+						});
+					}
+				});
+			}
+		});
+	}
+
+	return writer.finish();
+}
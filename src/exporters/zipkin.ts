@@ -0,0 +1,94 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import type { OtelSpan } from '../converter';
+import { EXCEPTION_EVENT } from '../exceptions';
+import type { ExportPayload, Exporter } from '.';
+import { padHex, spanResource } from './otlp-json';
+
+interface ZipkinSpan {
+	traceId: string;
+	id: string;
+	parentId?: string;
+	name: string;
+	kind?: 'CLIENT' | 'SERVER' | 'PRODUCER' | 'CONSUMER';
+	timestamp: number;
+	duration?: number;
+	localEndpoint: { serviceName: string };
+	tags: Record<string, string>;
+	annotations: Array<{ timestamp: number; value: string }>;
+}
+
+// Zipkin has no internal kind, those spans just leave it out
+const ZIPKIN_KINDS: Record<SpanKind, ZipkinSpan['kind']> = {
+	[SpanKind.INTERNAL]: undefined,
+	[SpanKind.SERVER]: 'SERVER',
+	[SpanKind.CLIENT]: 'CLIENT',
+	[SpanKind.PRODUCER]: 'PRODUCER',
+	[SpanKind.CONSUMER]: 'CONSUMER'
+};
+
+/**
+ * Native Zipkin v2 JSON, as accepted by Zipkin's `/api/v2/spans`.
+ * Zipkin timestamps are microseconds and tags are strings only.
+ */
+export class ZipkinExporter implements Exporter {
+	readonly name = 'zipkin';
+	readonly defaultEndpoint = 'http://localhost:9411/api/v2/spans';
+
+	encode(spans: OtelSpan[]): ExportPayload[] {
+		return [{ contentType: 'application/json', body: JSON.stringify(spans.map(toZipkinSpan)) }];
+	}
+}
+
+function toZipkinSpan(span: OtelSpan): ZipkinSpan {
+	const zipkinSpan: ZipkinSpan = {
+		traceId: padHex(span.traceId, 32),
+		id: padHex(span.spanId, 16),
+		parentId: span.parentSpanId ? padHex(span.parentSpanId, 16) : undefined,
+		name: span.operationName,
+		kind: ZIPKIN_KINDS[span.kind],
+		timestamp: toMicros(span.startTime),
+		// Zipkin rejects zero durations, so round sub-microsecond spans up
+		duration: span.endTime !== undefined ? Math.max(1, toMicros(span.endTime - span.startTime)) : undefined,
+		localEndpoint: { serviceName: spanResource(span)['service.name'] },
+		tags: stringifyTags(span.tags),
+		annotations: [
+			...span.events.map(event => ({
+				timestamp: toMicros(event.timestamp),
+				value: event.name === EXCEPTION_EVENT ? formatLog(event.attributes) : event.name
+			})),
+			...span.logs.map(log => ({ timestamp: toMicros(log.timestamp), value: formatLog(log.fields) }))
+		]
+	};
+
+	if (span.status) {
+		zipkinSpan.tags['otel.status_code'] = SpanStatusCode[span.status.code];
+		if (span.status.code === SpanStatusCode.ERROR) {
+			zipkinSpan.tags['error'] = span.status.message || 'true';
+		}
+	}
+
+	return zipkinSpan;
+}
+
+function toMicros(nanos: number): number {
+	return Math.round(nanos / 1000);
+}
+
+function stringifyTags(tags: Record<string, any>): Record<string, string> {
+	const result: Record<string, string> = {};
+	for (const [key, value] of Object.entries(tags)) {
+		if (value === undefined || value === null) continue;
+		result[key] = typeof value === 'string' ? value : JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+	}
+	return result;
+}
+
+function formatLog(fields: Record<string, any>): string {
+	if ('exception.type' in fields) {
+		return `${fields['exception.type']}: ${fields['exception.message']}`;
+	}
+	if ('diagnostic.channel' in fields) {
+		return `${fields['diagnostic.channel']}: ${fields['diagnostic.message']}`;
+	}
+	return `${fields.level}: ${fields.message}`;
+}
@@ -0,0 +1,120 @@
+// W3C trace context, for picking up the caller's trace from a fetch's request headers
+const TRACEPARENT = /^[0-9a-f]{2}-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+/**
+ * Replays a buffered `TraceItem`, as the legacy `tail()` handler receives
+ * them, as the streaming tail events the same invocation would have sent:
+ * an onset, its logs, exceptions and diagnostics channel events in time
+ * order, the fetch response, then the outcome. Feeding them to the converter
+ * gives `tail()` the same spans, tags and exports as `tailStream()`.
+ *
+ * Buffered items carry no span IDs or trace context, so the root span gets a
+ * random ID and a fetch joins the trace in its `traceparent` header, if any.
+ * There are no child spans: the buffered format doesn't report them.
+ */
+export function traceItemToTailEvents(item: TraceItem): TailStream.TailEvent[] {
+	const invocationId = crypto.randomUUID();
+	const spanId = randomHex(8);
+	const parent = item.event && 'request' in item.event ? TRACEPARENT.exec(item.event.request.headers['traceparent'] ?? '') : null;
+	const traceId = parent?.[1] ?? randomHex(16);
+
+	const start = item.eventTimestamp ?? Math.min(Date.now(), ...item.logs.map(log => log.timestamp));
+	const end = start + item.wallTime;
+
+	const events: TailStream.TailEvent[] = [];
+	const push = (timestamp: number, event: TailStream.EventType, parentSpanId?: string) => {
+		events.push({
+			invocationId,
+			spanContext: { traceId, spanId: parentSpanId },
+			timestamp: new Date(timestamp),
+			sequence: events.length,
+			event
+		});
+	};
+
+	push(
+		start,
+		{
+			type: 'onset',
+			spanId,
+			executionModel: item.executionModel,
+			scriptName: item.scriptName ?? undefined,
+			scriptVersion: item.scriptVersion?.id ? { ...item.scriptVersion, id: item.scriptVersion.id } : undefined,
+			scriptTags: item.scriptTags,
+			entrypoint: item.entrypoint,
+			dispatchNamespace: item.dispatchNamespace,
+			// Logs past the runtime's limit were cut from the item
+			attributes: item.truncated ? [{ name: 'cloudflare.tail.truncated', value: true }] : [],
+			info: onsetInfo(item.event)
+		},
+		parent?.[2]
+	);
+
+	const happenings: Array<[number, TailStream.EventType]> = [
+		...item.logs.map((log): [number, TailStream.Log] => [
+			log.timestamp,
+			{ type: 'log', level: log.level as TailStream.Log['level'], message: log.message }
+		]),
+		...item.exceptions.map((exception): [number, TailStream.Exception] => [
+			exception.timestamp,
+			{ type: 'exception', name: exception.name, message: exception.message, stack: exception.stack }
+		]),
+		...item.diagnosticsChannelEvents.map((diagnostic): [number, TailStream.DiagnosticChannelEvent] => [
+			diagnostic.timestamp,
+			{ type: 'diagnosticChannel', channel: diagnostic.channel, message: diagnostic.message }
+		])
+	];
+	// Stable, so events logged in the same millisecond keep their order
+	for (const [timestamp, event] of happenings.sort(([a], [b]) => a - b)) {
+		push(timestamp, event, spanId);
+	}
+
+	if (item.event && 'request' in item.event && item.event.response) {
+		push(end, { type: 'return', info: { type: 'fetch', statusCode: item.event.response.status } }, spanId);
+	}
+	const outcome = item.outcome as TailStream.EventOutcome;
+	push(end, { type: 'outcome', outcome, cpuTime: item.cpuTime, wallTime: item.wallTime }, spanId);
+
+	return events;
+}
+
+// The onset info of the streaming format for a TraceItem's event, told apart by their fields
+function onsetInfo(event: TraceItem['event']): TailStream.Onset['info'] {
+	if (!event) return { type: 'custom' };
+
+	if ('request' in event) {
+		const { method, url, headers, cf } = event.request;
+		// Serialized as the streaming format has it
+		return { type: 'fetch', method, url, cfJson: JSON.stringify(cf ?? {}), headers: Object.entries(headers).map(([name, value]) => ({ name, value })) };
+	}
+	if ('cron' in event) {
+		return { type: 'scheduled', cron: event.cron, scheduledTime: new Date(event.scheduledTime) };
+	}
+	if ('scheduledTime' in event) {
+		return { type: 'alarm', scheduledTime: new Date(event.scheduledTime) };
+	}
+	if ('queue' in event) {
+		return { type: 'queue', queueName: event.queue, batchSize: event.batchSize };
+	}
+	if ('mailFrom' in event) {
+		return { type: 'email', mailFrom: event.mailFrom, rcptTo: event.rcptTo, rawSize: event.rawSize };
+	}
+	if ('rpcMethod' in event) {
+		return { type: 'jsrpc', methodName: event.rpcMethod };
+	}
+	if ('consumedEvents' in event) {
+		return { type: 'trace', traces: event.consumedEvents.map(consumed => consumed.scriptName) };
+	}
+	if ('getWebSocketEvent' in event) {
+		const webSocketEvent = event.getWebSocketEvent;
+		if (webSocketEvent.webSocketEventType === 'close' && 'code' in webSocketEvent) {
+			return { type: 'hibernatableWebSocket', info: { type: 'close', code: webSocketEvent.code, wasClean: webSocketEvent.wasClean } };
+		}
+		return { type: 'hibernatableWebSocket', info: { type: webSocketEvent.webSocketEventType === 'error' ? 'error' : 'message' } };
+	}
+	return { type: 'custom' };
+}
+
+function randomHex(bytes: number): string {
+	return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,330 @@
+import { globToRegExp } from './destinations';
+import { isViewerRequest, VIEWER_PATH } from './trace-store';
+
+// Where the worker serves the live feed, next to the trace viewer so neither stores the other's requests
+export const LIVE_PATH = `${VIEWER_PATH}/live`;
+
+export const LIVE_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LiveLevel = (typeof LIVE_LEVELS)[number];
+
+// One converted tail event, as pushed to live feed clients
+export interface LiveEvent {
+	type: 'spanOpen' | 'spanClose' | 'log' | 'exception';
+	// Milliseconds since the epoch
+	timestamp: number;
+	invocationId: string;
+	traceId: string;
+	spanId: string;
+	parentSpanId?: string;
+	// 0 for the invocation's root span, one more for each parent above a child span
+	depth: number;
+	scriptName?: string;
+	route?: string;
+	level: LiveLevel;
+	// The span name for span events, the message for logs and exceptions
+	message: string;
+	// spanClose only
+	outcome?: string;
+	durationMs?: number;
+}
+
+export interface LiveFilter {
+	scriptName?: string;
+	// `METHOD /path` pattern, `*` matches any run of characters
+	route?: string;
+	// Only events at least this severe
+	level?: LiveLevel;
+}
+
+// Events waiting for a slow client, the oldest are dropped beyond this
+const MAX_QUEUED_EVENTS = 1000;
+
+/**
+ * One connected client. Events are queued here and taken with `next()` from
+ * the client's own request, since a stream or WebSocket can only be written
+ * from the request that opened it, not from the tail stream publishing.
+ */
+export class LiveSubscription {
+	private queue: LiveEvent[] = [];
+	private wake?: () => void;
+	private route?: RegExp;
+	private minLevel: number;
+	closed = false;
+	// Events dropped because the client fell behind
+	dropped = 0;
+
+	constructor(
+		private feed: LiveFeed,
+		private filter: LiveFilter
+	) {
+		this.route = filter.route ? globToRegExp(filter.route) : undefined;
+		this.minLevel = LIVE_LEVELS.indexOf(filter.level ?? 'debug');
+	}
+
+	matches(event: LiveEvent): boolean {
+		if (this.filter.scriptName && event.scriptName !== this.filter.scriptName) return false;
+		if (this.route && !this.route.test(event.route ?? '')) return false;
+		return LIVE_LEVELS.indexOf(event.level) >= this.minLevel;
+	}
+
+	push(event: LiveEvent) {
+		this.queue.push(event);
+		if (this.queue.length > MAX_QUEUED_EVENTS) {
+			this.queue.shift();
+			this.dropped++;
+		}
+		this.wake?.();
+	}
+
+	// Resolves with the events queued since the last call, waiting for one if there are none; empty once closed
+	async next(): Promise<LiveEvent[]> {
+		while (this.queue.length === 0 && !this.closed) {
+			await new Promise<void>(resolve => (this.wake = resolve));
+			this.wake = undefined;
+		}
+		return this.queue.splice(0);
+	}
+
+	close() {
+		this.closed = true;
+		this.feed.unsubscribe(this);
+		this.wake?.();
+	}
+}
+
+/**
+ * Fans converted events out to live feed clients as they happen, rather than
+ * when the invocation is exported. Clients only see invocations handled by
+ * this isolate, which under `wrangler dev` is all of them.
+ */
+export class LiveFeed {
+	private subscriptions: Set<LiveSubscription> = new Set();
+
+	// Whether anyone is listening, so the converter can skip building events
+	get active(): boolean {
+		return this.subscriptions.size > 0;
+	}
+
+	subscribe(filter: LiveFilter = {}): LiveSubscription {
+		const subscription = new LiveSubscription(this, filter);
+		this.subscriptions.add(subscription);
+		return subscription;
+	}
+
+	unsubscribe(subscription: LiveSubscription) {
+		this.subscriptions.delete(subscription);
+	}
+
+	publish(event: LiveEvent) {
+		// Clients watching the feed would otherwise see their own connections
+		if (isViewerRequest({ eventType: 'fetch', route: event.route })) return;
+
+		for (const subscription of this.subscriptions) {
+			if (subscription.matches(event)) {
+				subscription.push(event);
+			}
+		}
+	}
+}
+
+export function parseLiveFilter(params: URLSearchParams): LiveFilter {
+	const level = params.get('level') || undefined;
+	if (level !== undefined && !LIVE_LEVELS.includes(level as LiveLevel)) {
+		throw new Error(`Unknown level "${level}", expected one of ${LIVE_LEVELS.join(', ')}`);
+	}
+
+	return {
+		scriptName: params.get('script') || undefined,
+		route: params.get('route') || undefined,
+		level: level as LiveLevel | undefined
+	};
+}
+
+/**
+ * Streams the live feed under /__traces/live, filtered by the `script`,
+ * `route` and `level` query parameters:
+ *
+ * - a WebSocket upgrade gets one JSON message per event
+ * - `Accept: text/event-stream` gets Server-Sent Events with the same JSON
+ * - `Accept: text/html` (a browser) gets a page that follows the stream
+ * - anything else, like `curl -N`, gets lines from `renderLiveEvent`
+ *
+ * `format=sse|text|html` picks a format regardless of the headers, and
+ * `color=false` turns off the text format's ANSI colours.
+ */
+export async function handleLiveRequest(request: Request, feed: LiveFeed | undefined, ctx: ExecutionContext): Promise<Response> {
+	if (!feed) {
+		return new Response('The live feed is not enabled, set OTEL_LIVE_FEED to "true"\n', { status: 404 });
+	}
+	if (request.method !== 'GET') {
+		return new Response('Method not allowed\n', { status: 405, headers: { Allow: 'GET' } });
+	}
+
+	const url = new URL(request.url);
+	let filter: LiveFilter;
+	try {
+		filter = parseLiveFilter(url.searchParams);
+	} catch (error) {
+		return new Response(`${(error as Error).message}\n`, { status: 400 });
+	}
+
+	if (request.headers.get('Upgrade')?.toLowerCase() === 'websocket') {
+		return openWebSocket(feed.subscribe(filter), ctx);
+	}
+
+	const accept = request.headers.get('Accept') ?? '';
+	const format =
+		url.searchParams.get('format') ?? (accept.includes('text/event-stream') ? 'sse' : accept.includes('text/html') ? 'html' : 'text');
+
+	switch (format) {
+		case 'html':
+			return new Response(LIVE_HTML, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+		case 'sse':
+			return streamEvents(feed.subscribe(filter), event => `data: ${JSON.stringify(event)}\n\n`, 'text/event-stream');
+		case 'text': {
+			const color = url.searchParams.get('color') !== 'false';
+			return streamEvents(feed.subscribe(filter), event => `${renderLiveEvent(event, { color })}\n`, 'text/plain; charset=utf-8');
+		}
+		default:
+			return new Response(`Unknown format "${format}", expected sse, text or html\n`, { status: 400 });
+	}
+}
+
+function openWebSocket(subscription: LiveSubscription, ctx: ExecutionContext): Response {
+	const [client, server] = Object.values(new WebSocketPair());
+	server.accept();
+	server.addEventListener('close', () => subscription.close());
+	server.addEventListener('error', () => subscription.close());
+
+	ctx.waitUntil(
+		(async () => {
+			for (let events = await subscription.next(); events.length > 0; events = await subscription.next()) {
+				for (const event of events) {
+					server.send(JSON.stringify(event));
+				}
+			}
+		})()
+	);
+
+	return new Response(null, { status: 101, webSocket: client });
+}
+
+function streamEvents(subscription: LiveSubscription, format: (event: LiveEvent) => string, contentType: string): Response {
+	const encoder = new TextEncoder();
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			// Lets EventSource (and any proxy) see the stream is open before the first event
+			if (contentType === 'text/event-stream') {
+				controller.enqueue(encoder.encode(': connected\n\n'));
+			}
+		},
+		async pull(controller) {
+			const events = await subscription.next();
+			if (events.length === 0) {
+				controller.close();
+				return;
+			}
+			controller.enqueue(encoder.encode(events.map(format).join('')));
+		},
+		cancel() {
+			subscription.close();
+		}
+	});
+
+	return new Response(body, { headers: { 'Content-Type': contentType, 'Cache-Control': 'no-cache' } });
+}
+
+const ANSI = { dim: '\x1b[2m', red: '\x1b[31m', yellow: '\x1b[33m', cyan: '\x1b[36m', reset: '\x1b[0m' };
+const LEVEL_COLORS: Partial<Record<LiveLevel, keyof typeof ANSI>> = { debug: 'dim', warn: 'yellow', error: 'red' };
+
+/**
+ * One compact terminal line per event, indented by span depth:
+ *
+ *     08:53:20.000 GET /api  ▶ GET https://example.com/api
+ *     08:53:20.001 GET /api    ▶ kv_get
+ *     08:53:20.003 GET /api    ◀ kv_get 2ms ok
+ *     08:53:20.004 GET /api    · [warn] cache miss
+ *     08:53:20.010 GET /api  ◀ GET https://example.com/api 10ms ok
+ */
+export function renderLiveEvent(event: LiveEvent, options: { color?: boolean } = {}): string {
+	const paint = (code: keyof typeof ANSI, text: string) => (options.color ? `${ANSI[code]}${text}${ANSI.reset}` : text);
+
+	const time = new Date(event.timestamp).toISOString().slice(11, 23);
+	const label = event.route ?? event.scriptName ?? event.invocationId;
+	const indent = '  '.repeat(event.depth);
+
+	let line: string;
+	switch (event.type) {
+		case 'spanOpen':
+			line = `▶ ${event.message}`;
+			break;
+		case 'spanClose': {
+			const duration = event.durationMs === undefined ? '' : ` ${formatDuration(event.durationMs)}`;
+			line = `◀ ${event.message}${duration} ${event.outcome ?? ''}`.trimEnd();
+			break;
+		}
+		case 'log':
+			line = `· [${event.level}] ${event.message}`;
+			break;
+		case 'exception':
+			line = `✖ ${event.message}`;
+			break;
+	}
+
+	const color = LEVEL_COLORS[event.level];
+	return `${paint('dim', time)} ${paint('cyan', label)}  ${indent}${color ? paint(color, line) : line}`;
+}
+
+function formatDuration(ms: number): string {
+	return ms < 10 ? `${Number(ms.toFixed(2))}ms` : `${Math.round(ms)}ms`;
+}
+
+// Follows the SSE stream, indenting like the terminal renderer
+const LIVE_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Live traces</title>
+<style>
+	body { font: 12px ui-monospace, monospace; margin: 0; color: #1f2328; }
+	header { padding: 8px 16px; background: #f6f8fa; border-bottom: 1px solid #d0d7de; font: 13px system-ui, sans-serif; }
+	#events { padding: 8px 16px; white-space: pre; }
+	.time { color: #656d76; }
+	.label { color: #0969da; }
+	.warn { color: #9a6700; }
+	.error { color: #cf222e; }
+	.debug { color: #8c959f; }
+</style>
+</head>
+<body>
+<header>Live traces <span id="status">connecting…</span></header>
+<div id="events"></div>
+<script>
+const params = new URLSearchParams(location.search);
+params.set('format', 'sse');
+const source = new EventSource(location.pathname + '?' + params);
+const list = document.getElementById('events');
+const status = document.getElementById('status');
+const symbols = { spanOpen: '▶ ', spanClose: '◀ ', log: '· ', exception: '✖ ' };
+source.onopen = () => { status.textContent = ''; };
+source.onerror = () => { status.textContent = 'disconnected, retrying…'; };
+source.onmessage = message => {
+	const event = JSON.parse(message.data);
+	const span = (className, text) => Object.assign(document.createElement('span'), { className, textContent: text });
+	let text = symbols[event.type] + (event.type === 'log' ? '[' + event.level + '] ' : '') + event.message;
+	if (event.type === 'spanClose') text += (event.durationMs === undefined ? '' : ' ' + event.durationMs.toFixed(2) + 'ms') + ' ' + (event.outcome || '');
+	const row = document.createElement('div');
+	row.append(
+		span('time', new Date(event.timestamp).toISOString().slice(11, 23) + ' '),
+		span('label', (event.route || event.scriptName || event.invocationId) + '  '),
+		span(event.level, '  '.repeat(event.depth) + text));
+	const follow = innerHeight + scrollY >= document.body.scrollHeight - 4;
+	list.append(row);
+	while (list.childElementCount > 2000) list.firstChild.remove();
+	if (follow) scrollTo(0, document.body.scrollHeight);
+};
+</script>
+</body>
+</html>
+`;
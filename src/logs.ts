@@ -0,0 +1,105 @@
+import type { OtelSpan } from './converter';
+import { EXCEPTION_EVENT } from './exceptions';
+import {
+	AttributeLimits,
+	convertAttributes,
+	convertAttributeValue,
+	DEFAULT_ATTRIBUTE_LIMITS,
+	limitAttributes,
+	OtlpAnyValue,
+	OtlpKeyValue,
+	groupByResource,
+	padHex,
+	SCOPE_NAME,
+	SCOPE_VERSION
+} from './exporters/otlp-json';
+
+export interface OtlpLogRecord {
+	timeUnixNano: string;
+	observedTimeUnixNano: string;
+	severityNumber: number;
+	severityText: string;
+	body: OtlpAnyValue;
+	attributes: OtlpKeyValue[];
+	droppedAttributesCount?: number;
+	traceId: string;
+	spanId: string;
+}
+
+export interface OtlpLogs {
+	resourceLogs: Array<{
+		resource: { attributes: OtlpKeyValue[] };
+		scopeLogs: Array<{
+			scope: { name: string; version: string };
+			logRecords: OtlpLogRecord[];
+		}>;
+	}>;
+}
+
+// OTel SeverityNumber values for the console levels a worker can log at
+const SEVERITY_NUMBERS: Record<string, number> = {
+	debug: 5,
+	log: 9,
+	info: 9,
+	warn: 13,
+	error: 17
+};
+
+/**
+ * Turns the console output, diagnostics channel messages and exceptions
+ * collected on spans into OTLP LogRecords, correlated with their span and
+ * grouped by the worker that logged them.
+ */
+export function buildLogs(spans: OtelSpan[], attributeLimits: AttributeLimits = DEFAULT_ATTRIBUTE_LIMITS): OtlpLogs {
+	const logRecords: Array<{ span: OtelSpan; record: OtlpLogRecord }> = [];
+
+	for (const span of spans) {
+		// Exceptions are span events, but belong in the logs too
+		const exceptions: OtelSpan['logs'] = span.events
+			.filter(event => event.name === EXCEPTION_EVENT)
+			.map(event => ({ timestamp: event.timestamp, fields: { level: 'error', ...event.attributes } }));
+
+		for (const log of [...span.logs, ...exceptions].sort((a, b) => a.timestamp - b.timestamp)) {
+			const { level, message, ...fields } = log.fields;
+
+			let body: any = message;
+			if ('exception.message' in fields) {
+				body = fields['exception.message'];
+			} else if ('diagnostic.message' in fields) {
+				body = fields['diagnostic.message'];
+				delete fields['diagnostic.message'];
+			}
+
+			logRecords.push({
+				span,
+				record: {
+					timeUnixNano: log.timestamp.toString(),
+					observedTimeUnixNano: log.timestamp.toString(),
+					severityNumber: SEVERITY_NUMBERS[level] ?? SEVERITY_NUMBERS.info,
+					severityText: level,
+					body: convertAttributeValue(body ?? '', attributeLimits.valueLength),
+					...limitAttributes(fields, attributeLimits),
+					traceId: padHex(span.traceId, 32),
+					spanId: padHex(span.spanId, 16)
+				}
+			});
+		}
+	}
+
+	return {
+		resourceLogs: groupByResource(logRecords, ({ span }) => span).map(({ resource, items }) => ({
+			resource: { attributes: convertAttributes(resource) },
+			scopeLogs: [{
+				scope: { name: SCOPE_NAME, version: SCOPE_VERSION },
+				logRecords: items.map(({ record }) => record)
+			}]
+		}))
+	};
+}
+
+export function countLogRecords(logs: OtlpLogs): number {
+	return logs.resourceLogs.reduce(
+		(count, resourceLogs) => count + resourceLogs.scopeLogs.reduce((sum, scopeLogs) => sum + scopeLogs.logRecords.length, 0),
+		0
+	);
+}
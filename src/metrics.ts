@@ -0,0 +1,155 @@
+import type { OtelSpan } from './converter';
+import type { InvocationSummary } from './destinations';
+import { convertAttributes, OtlpKeyValue, SCOPE_NAME, SCOPE_VERSION, spanResource } from './exporters/otlp-json';
+
+export interface OtlpHistogramDataPoint {
+	attributes: OtlpKeyValue[];
+	startTimeUnixNano: string;
+	timeUnixNano: string;
+	count: string;
+	sum: number;
+	min: number;
+	max: number;
+	bucketCounts: string[];
+	explicitBounds: number[];
+}
+
+export interface OtlpNumberDataPoint {
+	attributes: OtlpKeyValue[];
+	startTimeUnixNano: string;
+	timeUnixNano: string;
+	asInt: string;
+}
+
+export type OtlpMetric = { name: string; description: string; unit: string } & (
+	| { histogram: { aggregationTemporality: number; dataPoints: OtlpHistogramDataPoint[] } }
+	| { sum: { aggregationTemporality: number; isMonotonic: boolean; dataPoints: OtlpNumberDataPoint[] } }
+);
+
+export interface OtlpMetrics {
+	resourceMetrics: Array<{
+		resource: { attributes: OtlpKeyValue[] };
+		scopeMetrics: Array<{
+			scope: { name: string; version: string };
+			metrics: OtlpMetric[];
+		}>;
+	}>;
+}
+
+// Each export only reports the invocation it belongs to, so every point is a delta
+export const AGGREGATION_TEMPORALITY_DELTA = 1;
+
+// Millisecond bucket boundaries shared by all duration histograms
+export const DURATION_BOUNDS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+interface HistogramAccumulator {
+	attributes: Record<string, any>;
+	values: number[];
+}
+
+/**
+ * Derives metrics from one invocation: CPU and wall time histograms and an
+ * invocation counter (once the outcome is known), plus a duration histogram
+ * per span name. The root span is named by the invocation's route, a fetch
+ * span's name would give every URL and query string a series of its own.
+ */
+export function buildMetrics(spans: OtelSpan[], invocation: InvocationSummary): OtlpMetrics {
+	const startTime = Math.min(...spans.map(span => span.startTime));
+	const endTime = Math.max(...spans.map(span => span.endTime ?? span.startTime));
+	const window = { startTimeUnixNano: startTime.toString(), timeUnixNano: endTime.toString() };
+
+	const invocationAttributes: Record<string, any> = {
+		'cloudflare.script_name': invocation.scriptName ?? 'unknown',
+		'cloudflare.event_type': invocation.eventType ?? 'unknown'
+	};
+	const metrics: OtlpMetric[] = [];
+
+	if (invocation.outcome) {
+		const attributes = { ...invocationAttributes, 'cloudflare.outcome': invocation.outcome };
+
+		metrics.push({
+			name: 'cloudflare.worker.invocations',
+			description: 'Completed invocations by outcome',
+			unit: '{invocation}',
+			sum: {
+				aggregationTemporality: AGGREGATION_TEMPORALITY_DELTA,
+				isMonotonic: true,
+				dataPoints: [{ ...window, attributes: convertAttributes(attributes), asInt: '1' }]
+			}
+		});
+
+		if (invocation.cpuTime !== undefined) {
+			metrics.push(
+				histogram('cloudflare.worker.cpu_time', 'CPU time per invocation', [{ attributes, values: [invocation.cpuTime] }], window)
+			);
+		}
+		if (invocation.wallTime !== undefined) {
+			metrics.push(
+				histogram('cloudflare.worker.wall_time', 'Wall time per invocation', [{ attributes, values: [invocation.wallTime] }], window)
+			);
+		}
+	}
+
+	const root = invocation.rootSpan ?? spans[0];
+	const durations: Map<string, HistogramAccumulator> = new Map();
+	for (const span of spans) {
+		if (span.endTime === undefined) continue;
+
+		const name = span === root && invocation.route ? invocation.route : span.operationName;
+		const accumulator = durations.get(name) ?? {
+			attributes: { ...invocationAttributes, 'span.name': name },
+			values: []
+		};
+		accumulator.values.push((span.endTime - span.startTime) / 1000000);
+		durations.set(name, accumulator);
+	}
+	if (durations.size > 0) {
+		metrics.push(histogram('cloudflare.span.duration', 'Span duration by span name', Array.from(durations.values()), window));
+	}
+
+	return {
+		resourceMetrics: [{
+			// Every span of an invocation comes from the same worker
+			resource: { attributes: convertAttributes(spanResource(spans[0])) },
+			scopeMetrics: [{
+				scope: { name: SCOPE_NAME, version: SCOPE_VERSION },
+				metrics
+			}]
+		}]
+	};
+}
+
+function histogram(
+	name: string,
+	description: string,
+	series: HistogramAccumulator[],
+	window: { startTimeUnixNano: string; timeUnixNano: string }
+): OtlpMetric {
+	return {
+		name,
+		description,
+		unit: 'ms',
+		histogram: {
+			aggregationTemporality: AGGREGATION_TEMPORALITY_DELTA,
+			dataPoints: series.map(({ attributes, values }) => {
+				// One more bucket than bounds: the last one counts values above the highest bound
+				const bucketCounts = new Array<number>(DURATION_BOUNDS.length + 1).fill(0);
+				for (const value of values) {
+					const bucket = DURATION_BOUNDS.findIndex(bound => value <= bound);
+					bucketCounts[bucket === -1 ? DURATION_BOUNDS.length : bucket]++;
+				}
+
+				return {
+					...window,
+					attributes: convertAttributes(attributes),
+					count: values.length.toString(),
+					sum: values.reduce((total, value) => total + value, 0),
+					min: Math.min(...values),
+					max: Math.max(...values),
+					bucketCounts: bucketCounts.map(count => count.toString()),
+					explicitBounds: DURATION_BOUNDS
+				};
+			})
+		}
+	};
+}
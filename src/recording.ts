@@ -0,0 +1,42 @@
+// Marks recorded events in the worker's log output, so they can be picked out of everything else it logs
+export const RECORDING_LOG_PREFIX = '[tail-event] ';
+
+/**
+ * Serializes a tail event to a single JSON line. Dates and bigints don't
+ * survive JSON, so they're written as `{"$date": "..."}` and
+ * `{"$bigint": "..."}` and turned back by `parseRecording`.
+ */
+export function serializeTailEvent(event: TailStream.TailEvent): string {
+	return JSON.stringify(event, function (key, value) {
+		// Dates have already been through toJSON by the time they get here, the original is still on the holder
+		const original = this[key];
+		if (original instanceof Date) return { $date: original.toISOString() };
+		if (typeof value === 'bigint') return { $bigint: value.toString() };
+		return value;
+	});
+}
+
+// Parses a JSONL recording, one serialized tail event per line, skipping blank lines
+export function parseRecording(jsonl: string): TailStream.TailEvent[] {
+	const events: TailStream.TailEvent[] = [];
+
+	jsonl.split('\n').forEach((line, index) => {
+		if (line.trim() === '') return;
+
+		try {
+			events.push(JSON.parse(line, reviveValue));
+		} catch {
+			throw new Error(`Recording line ${index + 1} is not valid JSON`);
+		}
+	});
+
+	return events;
+}
+
+function reviveValue(_key: string, value: any): any {
+	if (value && typeof value === 'object') {
+		if (typeof value.$date === 'string') return new Date(value.$date);
+		if (typeof value.$bigint === 'string') return BigInt(value.$bigint);
+	}
+	return value;
+}
@@ -0,0 +1,239 @@
+import type { AlertNotification } from './alerts';
+import type { OtelSpan } from './converter';
+import { globToRegExp, InvocationSummary } from './destinations';
+import type { LiveEvent } from './live';
+
+export type BuiltinScrubber = 'bearer' | 'authorization' | 'jwt' | 'email';
+
+export interface ScrubRule {
+	// Regular expression source, always applied globally
+	pattern: string;
+	flags?: string;
+	replacement?: string;
+}
+
+export interface RedactionConfig {
+	// Only keep attributes whose key matches one of these patterns, `*` matches any run of characters
+	allowKeys?: string[];
+	// Drop attributes whose key matches one of these patterns
+	denyKeys?: string[];
+	// Value scrubbers, applied in order to every string value, span name and log message
+	scrub?: Array<BuiltinScrubber | ScrubRule>;
+	// Replace IPv4 and IPv6 addresses with a keyed hash, so they can still be correlated
+	hashIps?: boolean;
+	// Name of an env var (usually a secret) holding the hash key
+	hashKeySecret?: string;
+	// `true` drops whole query strings, a list drops only the matching parameters
+	stripQueryParams?: true | string[];
+}
+
+export const BUILTIN_SCRUBBERS: Record<BuiltinScrubber, ScrubRule> = {
+	bearer: { pattern: '\\b(Bearer|Basic)\\s+[A-Za-z0-9._~+/=-]+', flags: 'i', replacement: '$1 [REDACTED]' },
+	authorization: {
+		pattern: '\\b(authorization|api[-_]?key|access[-_]?token|token|secret|password|passwd|cookie)(["\']?\\s*[:=]\\s*["\']?)[^\\s"\'&,;]+',
+		flags: 'i',
+		replacement: '$1$2[REDACTED]'
+	},
+	jwt: { pattern: '\\beyJ[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]*', replacement: '[REDACTED_JWT]' },
+	email: { pattern: '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}', replacement: '[REDACTED_EMAIL]' }
+};
+
+// Used when OTEL_REDACTION is not set, set it to `{}` to export values untouched.
+// Client IPs and locations finer than the region identify people, so they are dropped too
+export const DEFAULT_REDACTION: RedactionConfig = {
+	denyKeys: ['client.address', 'geo.locality.name', 'geo.postal_code', 'geo.location.*'],
+	scrub: ['bearer', 'authorization', 'jwt', 'email']
+};
+
+// Log fields the exporters build the record from, never dropped by key rules
+const STRUCTURAL_LOG_FIELDS = ['level', 'message'];
+
+const IPV4 = '(?<![\\d.])(?:(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\.){3}(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)(?![\\d.])';
+// Full addresses with four groups at least (so times like 10:20:30 are left alone) or compressed ones with `::`
+const IPV6 =
+	'(?<![\\w:])(?=[0-9a-f:]*[0-9a-f])(?:(?:[0-9a-f]{1,4}:){3,7}[0-9a-f]{1,4}|(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4})*)?::(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4})*)?)(?![\\w:])';
+const IP_ADDRESS = new RegExp(`${IPV4}|${IPV6}`, 'gi');
+
+const URL_PATTERN = /https?:\/\/[^\s"'<>]+/g;
+
+/**
+ * Scrubs spans before they are exported: attribute key allow/deny lists,
+ * regex scrubbing of values, query parameter stripping and IP hashing. Span
+ * names, status messages, event and link attributes and log fields all get the
+ * same treatment, so nothing reaches an exporter unredacted. Live feed entries
+ * and alert notifications are scrubbed the same way before they go out.
+ */
+export class Redactor {
+	private allowKeys?: RegExp[];
+	private denyKeys: RegExp[];
+	private scrubbers: Array<{ pattern: RegExp; replacement: string }>;
+	private stripQueryParams?: true | RegExp[];
+	private hashKey?: Promise<CryptoKey>;
+
+	constructor(config: RedactionConfig = {}, hashKey?: string) {
+		this.allowKeys = config.allowKeys?.map(globToRegExp);
+		this.denyKeys = (config.denyKeys ?? []).map(globToRegExp);
+		this.scrubbers = (config.scrub ?? []).map(rule => {
+			const { pattern, flags = '', replacement = '[REDACTED]' } = typeof rule === 'string' ? BUILTIN_SCRUBBERS[rule] : rule;
+			return { pattern: new RegExp(pattern, flags.includes('g') ? flags : `${flags}g`), replacement };
+		});
+		if (config.stripQueryParams !== undefined) {
+			this.stripQueryParams = config.stripQueryParams === true ? true : config.stripQueryParams.map(globToRegExp);
+		}
+		if (config.hashIps) {
+			// Without a configured key hashes are only stable within the isolate
+			const keyData = hashKey ? new TextEncoder().encode(hashKey) : crypto.getRandomValues(new Uint8Array(32));
+			this.hashKey = crypto.subtle.importKey('raw', keyData, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+		}
+	}
+
+	async redact(spans: OtelSpan[]): Promise<void> {
+		// IPs repeat across attributes, so hash each one once per export
+		const hashes: Map<string, Promise<string>> = new Map();
+
+		for (const span of spans) {
+			span.operationName = await this.redactString(span.operationName, hashes);
+			span.tags = await this.redactAttributes(span.tags, hashes);
+
+			if (span.status?.message) {
+				span.status.message = await this.redactString(span.status.message, hashes);
+			}
+			for (const event of span.events) {
+				event.attributes = await this.redactAttributes(event.attributes, hashes);
+			}
+			for (const link of span.links) {
+				link.attributes = await this.redactAttributes(link.attributes, hashes);
+			}
+			for (const log of span.logs) {
+				log.fields = await this.redactAttributes(log.fields, hashes, STRUCTURAL_LOG_FIELDS);
+			}
+		}
+	}
+
+	// Entries carry span names, log and exception messages and routes, but no attributes for key rules to apply to
+	async redactLiveEvent(event: LiveEvent): Promise<LiveEvent> {
+		const hashes: Map<string, Promise<string>> = new Map();
+		return {
+			...event,
+			message: await this.redactString(event.message, hashes),
+			route: event.route === undefined ? undefined : await this.redactString(event.route, hashes)
+		};
+	}
+
+	// Exports store and report the route, which carries the request path or an email's sender
+	async redactSummary(invocation: InvocationSummary): Promise<InvocationSummary> {
+		const hashes: Map<string, Promise<string>> = new Map();
+		return {
+			...invocation,
+			scriptName: invocation.scriptName === undefined ? undefined : await this.redactString(invocation.scriptName, hashes),
+			route: invocation.route === undefined ? undefined : await this.redactString(invocation.route, hashes)
+		};
+	}
+
+	// The reason quotes exception messages and span names, the route the request path
+	async redactAlert(notification: AlertNotification): Promise<AlertNotification> {
+		const hashes: Map<string, Promise<string>> = new Map();
+		return {
+			...notification,
+			reason: await this.redactString(notification.reason, hashes),
+			route: notification.route === undefined ? undefined : await this.redactString(notification.route, hashes)
+		};
+	}
+
+	private async redactAttributes(
+		attributes: Record<string, any>,
+		hashes: Map<string, Promise<string>>,
+		keep: string[] = []
+	): Promise<Record<string, any>> {
+		const redacted: Record<string, any> = {};
+
+		for (const [key, value] of Object.entries(attributes)) {
+			if (!keep.includes(key)) {
+				if (this.allowKeys && !this.allowKeys.some(pattern => pattern.test(key))) continue;
+				if (this.denyKeys.some(pattern => pattern.test(key))) continue;
+			}
+
+			redacted[key] = await this.redactValue(value, hashes);
+		}
+
+		return redacted;
+	}
+
+	// Scrubs the strings in arrays and plain objects too, dropping nested keys that are denied
+	private async redactValue(value: unknown, hashes: Map<string, Promise<string>>): Promise<unknown> {
+		if (typeof value === 'string') {
+			return this.redactString(value, hashes);
+		}
+		if (Array.isArray(value)) {
+			return Promise.all(value.map(item => this.redactValue(item, hashes)));
+		}
+		if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+			const redacted: Record<string, unknown> = {};
+			for (const [key, nested] of Object.entries(value)) {
+				if (this.denyKeys.some(pattern => pattern.test(key))) continue;
+				redacted[key] = await this.redactValue(nested, hashes);
+			}
+			return redacted;
+		}
+		return value;
+	}
+
+	private async redactString(value: string, hashes: Map<string, Promise<string>>): Promise<string> {
+		let redacted = value;
+
+		if (this.stripQueryParams) {
+			redacted = redacted.replace(URL_PATTERN, url => this.stripQuery(url));
+		}
+		for (const { pattern, replacement } of this.scrubbers) {
+			redacted = redacted.replace(pattern, replacement);
+		}
+		if (this.hashKey) {
+			redacted = await this.hashIpAddresses(redacted, hashes);
+		}
+
+		return redacted;
+	}
+
+	private stripQuery(url: string): string {
+		let parsed: URL;
+		try {
+			parsed = new URL(url);
+		} catch {
+			return url;
+		}
+
+		if (this.stripQueryParams === true) {
+			parsed.search = '';
+		} else {
+			for (const name of Array.from(parsed.searchParams.keys())) {
+				if (this.stripQueryParams!.some(pattern => pattern.test(name))) {
+					parsed.searchParams.delete(name);
+				}
+			}
+		}
+		return parsed.toString();
+	}
+
+	private async hashIpAddresses(value: string, hashes: Map<string, Promise<string>>): Promise<string> {
+		const addresses = value.match(IP_ADDRESS);
+		if (!addresses) return value;
+
+		for (const address of addresses) {
+			if (!hashes.has(address)) {
+				hashes.set(address, this.hashIp(address));
+			}
+		}
+
+		const hashed: Map<string, string> = new Map();
+		for (const address of addresses) {
+			hashed.set(address, await hashes.get(address)!);
+		}
+		return value.replace(IP_ADDRESS, address => hashed.get(address)!);
+	}
+
+	private async hashIp(address: string): Promise<string> {
+		const signature = await crypto.subtle.sign('HMAC', await this.hashKey!, new TextEncoder().encode(address.toLowerCase()));
+		const hex = Array.from(new Uint8Array(signature).slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+		return `ip-${hex}`;
+	}
+}
@@ -0,0 +1,121 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import type { OtelSpan } from './converter';
+import { globToRegExp, InvocationSummary } from './destinations';
+import { EXCEPTION_EVENT } from './exceptions';
+
+export interface RateLimitRule {
+	// Route pattern, `*` matches any run of characters. Fetch routes look like
+	// `GET /api/users`, other invocations use their span name, e.g. `queue:orders`
+	route: string;
+	// Sustained number of head-sampled invocations exported per second, may be fractional
+	perSecond: number;
+	// How many can be exported at once after a quiet period, `perSecond` (at least 1) by default
+	burst?: number;
+}
+
+export interface SamplingConfig {
+	// Fraction of traces kept by head sampling, 1 (everything) by default
+	ratio?: number;
+	// Always keep invocations with an error status, a non-`ok` outcome or an exception
+	keepErrors?: boolean;
+	// Always keep invocations whose wall time exceeds this many milliseconds
+	slowThresholdMs?: number;
+	rateLimits?: RateLimitRule[];
+}
+
+// Why an invocation was exported: head sampled, or kept by a tail rule
+export type SamplingDecision = 'sampled' | 'error' | 'slow';
+
+interface RateLimiter {
+	pattern: RegExp;
+	perSecond: number;
+	burst: number;
+	tokens: number;
+	updatedAt: number;
+}
+
+// Head sampling compares the low 52 bits of the trace ID, the most a double holds exactly
+const TRACE_ID_BITS = 52;
+const TRACE_ID_HEX_DIGITS = TRACE_ID_BITS / 4;
+
+/**
+ * Decides which invocations get exported. Head sampling keeps a fixed
+ * fraction of traces, keyed on the trace ID so every worker in a trace makes
+ * the same call. Tail rules then keep errors and slow invocations that head
+ * sampling dropped, and per-route rate limits cap what head sampling keeps.
+ *
+ * Rate limit buckets live in the sampler, so they are shared by every tail
+ * stream in the isolate.
+ */
+export class Sampler {
+	private ratio: number;
+	private keepErrors: boolean;
+	private slowThresholdMs?: number;
+	private rateLimiters: RateLimiter[];
+
+	constructor(config: SamplingConfig = {}) {
+		this.ratio = config.ratio ?? 1;
+		this.keepErrors = config.keepErrors ?? true;
+		this.slowThresholdMs = config.slowThresholdMs;
+		this.rateLimiters = (config.rateLimits ?? []).map(rule => {
+			const burst = rule.burst ?? Math.max(1, rule.perSecond);
+			return { pattern: globToRegExp(rule.route), perSecond: rule.perSecond, burst, tokens: burst, updatedAt: Date.now() };
+		});
+	}
+
+	/**
+	 * Returns why the invocation should be exported, or undefined to drop it.
+	 * Errors and slow invocations are kept even when their route is rate limited.
+	 */
+	decide(spans: OtelSpan[], invocation: InvocationSummary): SamplingDecision | undefined {
+		if (this.keepErrors && this.isError(spans, invocation)) return 'error';
+		if (this.isSlow(spans, invocation)) return 'slow';
+
+		if (!this.headSampled(spans[0].traceId)) return undefined;
+		return this.takeToken(invocation.route) ? 'sampled' : undefined;
+	}
+
+	get headRatio(): number {
+		return this.ratio;
+	}
+
+	private headSampled(traceId: string): boolean {
+		if (this.ratio >= 1) return true;
+		if (this.ratio <= 0) return false;
+
+		const value = parseInt(traceId.slice(-TRACE_ID_HEX_DIGITS).padStart(TRACE_ID_HEX_DIGITS, '0'), 16);
+		return value < this.ratio * 2 ** TRACE_ID_BITS;
+	}
+
+	private isError(spans: OtelSpan[], invocation: InvocationSummary): boolean {
+		if (invocation.outcome !== undefined && invocation.outcome !== 'ok') return true;
+
+		return spans.some(span => span.status?.code === SpanStatusCode.ERROR || span.events.some(event => event.name === EXCEPTION_EVENT));
+	}
+
+	private isSlow(spans: OtelSpan[], invocation: InvocationSummary): boolean {
+		if (this.slowThresholdMs === undefined) return false;
+
+		// Hibernated segments have no outcome yet, so fall back to how long their spans ran
+		let wallTime = invocation.wallTime;
+		if (wallTime === undefined) {
+			const start = Math.min(...spans.map(span => span.startTime));
+			const end = Math.max(...spans.map(span => span.endTime ?? span.startTime));
+			wallTime = (end - start) / 1000000;
+		}
+		return wallTime > this.slowThresholdMs;
+	}
+
+	private takeToken(route: string | undefined): boolean {
+		const limiter = this.rateLimiters.find(limiter => limiter.pattern.test(route ?? ''));
+		if (!limiter) return true;
+
+		const now = Date.now();
+		limiter.tokens = Math.min(limiter.burst, limiter.tokens + ((now - limiter.updatedAt) / 1000) * limiter.perSecond);
+		limiter.updatedAt = now;
+
+		if (limiter.tokens < 1) return false;
+		limiter.tokens--;
+		return true;
+	}
+}
@@ -0,0 +1,231 @@
+import { AnalyticsEvent } from './analytics-queue';
+
+// Each scenario is served at `${SCENARIO_PATH}/<name>`, and the list of them at `/`
+export const SCENARIO_PATH = '/scenario';
+
+type ParamSpec = { description: string } & (
+	| { default: number; min?: number; max: number }
+	| { default: string; options: readonly string[] }
+);
+
+type Params = Record<string, number | string>;
+
+interface Scenario {
+	description: string;
+	params: Record<string, ParamSpec>;
+	run(env: Env, ctx: ExecutionContext, params: Params, request: Request): Promise<Response>;
+}
+
+const SCENARIOS: Record<string, Scenario> = {
+	kv: {
+		description: 'Puts, gets, lists and deletes KV keys',
+		params: { keys: { description: 'Keys written', default: 3, max: 100 } },
+		async run(env, _ctx, { keys }) {
+			const prefix = `scenario:kv:${crypto.randomUUID()}:`;
+			const names = Array.from({ length: keys as number }, (_, i) => `${prefix}${i}`);
+			for (const name of names) {
+				await env.CACHE_KV.put(name, String(Date.now()), { expirationTtl: 3600 });
+			}
+			const values = await Promise.all(names.map(name => env.CACHE_KV.get(name)));
+			const listing = await env.CACHE_KV.list({ prefix });
+			await Promise.all(names.map(name => env.CACHE_KV.delete(name)));
+			const read = values.filter(value => value !== null).length;
+			return Response.json({ scenario: 'kv', written: names.length, read, listed: listing.keys.length });
+		}
+	},
+	d1: {
+		description: 'Inserts rows into D1 in one batch and aggregates them, or runs a failing query',
+		params: {
+			rows: { description: 'Rows inserted', default: 10, max: 1000 },
+			fail: { description: '1 to query a table that does not exist, which the D1 span records as an error', default: 0, max: 1 }
+		},
+		async run(env, _ctx, { rows, fail }) {
+			if (fail) {
+				try {
+					await env.DB.prepare('SELECT * FROM scenario_missing_table').all();
+				} catch (error) {
+					return Response.json({ scenario: 'd1', error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+				}
+			}
+
+			const run = crypto.randomUUID();
+			await env.DB.batch([
+				env.DB.prepare('CREATE TABLE IF NOT EXISTS scenario_rows (run TEXT NOT NULL, value INTEGER NOT NULL)'),
+				...Array.from({ length: rows as number }, (_, i) =>
+					env.DB.prepare('INSERT INTO scenario_rows (run, value) VALUES (?1, ?2)').bind(run, i)
+				)
+			]);
+			const totals = await env.DB.prepare('SELECT COUNT(*) AS count, COALESCE(SUM(value), 0) AS sum FROM scenario_rows WHERE run = ?1')
+				.bind(run)
+				.first<{ count: number; sum: number }>();
+			await env.DB.prepare('DELETE FROM scenario_rows WHERE run = ?1').bind(run).run();
+			return Response.json({ scenario: 'd1', inserted: totals?.count, sum: totals?.sum });
+		}
+	},
+	r2: {
+		description: 'Puts, lists, reads back and deletes R2 objects',
+		params: {
+			objects: { description: 'Objects written', default: 3, max: 50 },
+			size: { description: 'Bytes in each object', default: 1024, max: 1048576 }
+		},
+		async run(env, _ctx, { objects, size }) {
+			const prefix = `scenario/r2/${crypto.randomUUID()}/`;
+			const keys = Array.from({ length: objects as number }, (_, i) => `${prefix}${i}.bin`);
+			for (const key of keys) {
+				await env.ASSETS.put(key, new Uint8Array(size as number), { customMetadata: { source: 'scenario' } });
+			}
+			const listing = await env.ASSETS.list({ prefix });
+			let bytes = 0;
+			for (const key of keys) {
+				const object = await env.ASSETS.get(key);
+				bytes += (await object?.arrayBuffer())?.byteLength ?? 0;
+			}
+			await env.ASSETS.delete(keys);
+			return Response.json({ scenario: 'r2', written: keys.length, listed: listing.objects.length, bytesRead: bytes });
+		}
+	},
+	queue: {
+		description: 'Sends analytics events to the queue, including ones its consumer dead-letters',
+		params: {
+			messages: { description: 'Valid events sent', default: 1, max: 100 },
+			invalid: { description: 'Events with an unknown type, which the consumer dead-letters', default: 0, max: 100 }
+		},
+		async run(env, _ctx, { messages, invalid }, request) {
+			const event: AnalyticsEvent = {
+				type: 'demo_request',
+				userId: 'scenario-user',
+				timestamp: Date.now(),
+				data: { path: new URL(request.url).pathname, userAgent: request.headers.get('User-Agent') }
+			};
+			const bodies: unknown[] = [
+				...Array.from({ length: messages as number }, () => event),
+				...Array.from({ length: invalid as number }, () => ({ ...event, type: 'scenario_invalid' }))
+			];
+			if (bodies.length > 0) {
+				await env.ANALYTICS_QUEUE.sendBatch(bodies.map(body => ({ body })));
+			}
+			return Response.json({ scenario: 'queue', sent: messages, invalid });
+		}
+	},
+	service: {
+		description: 'Calls the AUTH_SERVICE service binding',
+		params: {},
+		async run(env) {
+			if (!env.AUTH_SERVICE) {
+				return Response.json({ scenario: 'service', error: 'The AUTH_SERVICE binding is not configured' }, { status: 503 });
+			}
+			const response = await env.AUTH_SERVICE.fetch('https://auth/validate', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ token: 'scenario-token' })
+			});
+			return Response.json({ scenario: 'service', status: response.status, body: await response.text() });
+		}
+	},
+	error: {
+		description: 'Fails the invocation: throws, rejects a waitUntil() promise, or responds with an error status',
+		params: {
+			mode: { description: 'How to fail', default: 'throw', options: ['throw', 'waitUntil', 'status'] },
+			status: { description: 'Response status for mode=status', default: 500, min: 200, max: 599 }
+		},
+		async run(_env, ctx, { mode, status }) {
+			if (mode === 'throw') {
+				throw new Error('Scenario error: thrown from the fetch handler');
+			}
+			if (mode === 'waitUntil') {
+				ctx.waitUntil(sleep(10).then(() => Promise.reject(new Error('Scenario error: rejected in waitUntil'))));
+				return Response.json({ scenario: 'error', mode });
+			}
+			return Response.json({ scenario: 'error', mode }, { status: status as number });
+		}
+	},
+	slow: {
+		description: 'Waits before responding, and keeps working in waitUntil() after it',
+		params: {
+			ms: { description: 'Milliseconds before the response', default: 1000, max: 30000 },
+			after: { description: 'Milliseconds of waitUntil() work, ending with a KV write, after the response', default: 0, max: 30000 }
+		},
+		async run(env, ctx, { ms, after }) {
+			await sleep(ms as number);
+			if (after) {
+				ctx.waitUntil(sleep(after as number).then(() => env.CACHE_KV.put('scenario:slow:last-after', new Date().toISOString())));
+			}
+			return Response.json({ scenario: 'slow', ms, after });
+		}
+	},
+	'cpu-heavy': {
+		description: 'Burns CPU hashing in a loop, enough iterations exceed the CPU limit',
+		params: { iterations: { description: 'Rounds of hashing', default: 1000000, max: 1000000000 } },
+		async run(_env, _ctx, { iterations }) {
+			// FNV-1a over the round numbers, so the loop can't be optimized away
+			let hash = 0x811c9dc5;
+			for (let i = 0; i < (iterations as number); i++) {
+				hash = Math.imul(hash ^ (i & 0xff), 0x01000193);
+			}
+			return Response.json({ scenario: 'cpu-heavy', iterations, hash: (hash >>> 0).toString(16) });
+		}
+	},
+	memory: {
+		description: 'Holds on to allocated memory, past 128 MB exceeds the memory limit',
+		params: { mb: { description: 'Megabytes allocated', default: 16, max: 1024 } },
+		async run(_env, _ctx, { mb }) {
+			const chunks: Uint8Array[] = [];
+			for (let i = 0; i < (mb as number); i++) {
+				// Filled so the pages are really committed
+				chunks.push(new Uint8Array(1024 * 1024).fill(i & 0xff));
+			}
+			return Response.json({ scenario: 'memory', mb: chunks.length });
+		}
+	}
+};
+
+/**
+ * Routes the demo traffic: `GET /` lists the scenarios, and
+ * `/scenario/<name>?<param>=` runs one, exercising a single binding or failure
+ * mode without calling anything outside the worker. Together they produce
+ * every span shape and most invocation outcomes for the tail worker to
+ * convert.
+ */
+export async function handleScenarioRequest(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+	const url = new URL(request.url);
+	if (url.pathname === '/') {
+		return Response.json({ scenarios: describeScenarios(url.origin) });
+	}
+
+	const name = url.pathname.startsWith(`${SCENARIO_PATH}/`) ? url.pathname.slice(SCENARIO_PATH.length + 1).replace(/\/$/, '') : undefined;
+	const scenario = name !== undefined && Object.prototype.hasOwnProperty.call(SCENARIOS, name) ? SCENARIOS[name] : undefined;
+	if (!scenario) {
+		return Response.json({ error: `No scenario at ${url.pathname}`, scenarios: describeScenarios(url.origin) }, { status: 404 });
+	}
+
+	const params: Params = {};
+	for (const [param, spec] of Object.entries(scenario.params)) {
+		const value = url.searchParams.get(param);
+		if (value === null || value === '') {
+			params[param] = spec.default;
+		} else if ('options' in spec ? spec.options.includes(value) : /^\d+$/.test(value) && inRange(Number(value), spec)) {
+			params[param] = 'options' in spec ? value : Number(value);
+		} else {
+			const expected = 'options' in spec ? `one of ${spec.options.join(', ')}` : `a whole number from ${spec.min ?? 0} to ${spec.max}`;
+			return Response.json({ error: `${param} must be ${expected}, got ${JSON.stringify(value)}` }, { status: 400 });
+		}
+	}
+
+	return scenario.run(env, ctx, params, request);
+}
+
+function describeScenarios(origin: string) {
+	return Object.entries(SCENARIOS).map(([name, { description, params }]) => ({
+		url: `${origin}${SCENARIO_PATH}/${name}`,
+		description,
+		params
+	}));
+}
+
+function inRange(value: number, { min = 0, max }: { min?: number; max: number }): boolean {
+	return value >= min && value <= max;
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,228 @@
+import { SpanKind } from '@opentelemetry/api';
+
+// Request headers recorded as `http.request.header.*` unless OTEL_CAPTURE_REQUEST_HEADERS says otherwise.
+// Nothing that usually carries credentials or personal data is on the list.
+export const DEFAULT_CAPTURED_HEADERS = ['accept', 'accept-encoding', 'content-type', 'content-length', 'cf-ray', 'x-request-id'];
+
+/**
+ * OTel resource attributes identifying the worker an onset belongs to, so
+ * every script shows up as its own service. `service.version` is the
+ * version's tag when it has one and its ID otherwise; workers for platforms
+ * get their dispatch namespace as `service.namespace`. Without an onset, the
+ * generic `cloudflare-worker` service.
+ */
+export function workerResource(
+	onset: Partial<Pick<TailStream.Onset, 'scriptName' | 'scriptVersion' | 'dispatchNamespace'>> = {}
+): Record<string, string> {
+	const resource: Record<string, string> = { 'service.name': onset.scriptName || 'cloudflare-worker' };
+
+	const version = onset.scriptVersion?.tag || onset.scriptVersion?.id;
+	if (version) {
+		resource['service.version'] = version;
+	}
+	if (onset.dispatchNamespace) {
+		resource['service.namespace'] = onset.dispatchNamespace;
+	}
+	resource['cloud.provider'] = 'cloudflare';
+	resource['cloud.platform'] = 'cloudflare.workers';
+
+	return resource;
+}
+
+/**
+ * HTTP server attributes for a fetch onset, following the current OTel HTTP
+ * semantic conventions. Header attributes are string arrays, as the
+ * conventions require, keyed by the lowercased header name.
+ */
+export function httpServerAttributes(info: TailStream.FetchEventInfo, capturedHeaders: string[]): Record<string, any> {
+	const attributes: Record<string, any> = {
+		'http.request.method': info.method,
+		...urlAttributes(info.url)
+	};
+
+	const captured: Record<string, string[]> = {};
+	for (const { name, value } of info.headers ?? []) {
+		const header = name.toLowerCase();
+
+		if (header === 'user-agent') {
+			attributes['user_agent.original'] = value;
+		} else if (header === 'cf-connecting-ip') {
+			attributes['client.address'] = value;
+		}
+		if (capturedHeaders.includes(header)) {
+			(captured[header] ??= []).push(value);
+		}
+	}
+	for (const [header, values] of Object.entries(captured)) {
+		attributes[`http.request.header.${header}`] = values;
+	}
+
+	const cf = parseCfJson(info.cfJson);
+	if (cf) {
+		Object.assign(attributes, cfAttributes(cf));
+	}
+
+	return attributes;
+}
+
+// The runtime sends the request's `cf` object as JSON; an onset with a malformed one just goes without its attributes
+function parseCfJson(cfJson: string | undefined): Partial<IncomingRequestCfProperties> | undefined {
+	if (!cfJson) return undefined;
+
+	try {
+		const cf = JSON.parse(cfJson);
+		return typeof cf === 'object' && cf !== null && !Array.isArray(cf) ? cf : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+// HTTP client attributes for a fetch subrequest span
+export function httpClientAttributes(info: TailStream.FetchEventInfo): Record<string, any> {
+	const { 'url.path': _path, 'url.scheme': _scheme, ...url } = urlAttributes(info.url);
+	return { 'http.request.method': info.method, ...url };
+}
+
+function urlAttributes(url: string): Record<string, any> {
+	const attributes: Record<string, any> = { 'url.full': url };
+
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return attributes;
+	}
+
+	attributes['url.scheme'] = parsed.protocol.replace(/:$/, '');
+	attributes['url.path'] = parsed.pathname;
+	attributes['server.address'] = parsed.hostname;
+	if (parsed.port) {
+		attributes['server.port'] = Number(parsed.port);
+	}
+	return attributes;
+}
+
+/**
+ * Picks the useful fields out of the request's `cf` object as typed
+ * attributes: geo and TLS/protocol fields use the OTel names, the rest are
+ * namespaced under `cloudflare.`.
+ */
+export function cfAttributes(cf: Partial<IncomingRequestCfProperties>): Record<string, any> {
+	const attributes: Record<string, any> = {};
+	const set = (key: string, value: unknown) => {
+		if (value !== undefined && value !== null && value !== '') {
+			attributes[key] = value;
+		}
+	};
+
+	set('cloudflare.colo', cf.colo);
+	set('cloudflare.asn', cf.asn);
+	set('cloudflare.as_organization', cf.asOrganization);
+	set('cloudflare.client_tcp_rtt', cf.clientTcpRtt);
+	set('cloudflare.timezone', cf.timezone);
+	set('cloudflare.bot_management.score', cf.botManagement?.score);
+
+	set('geo.continent.code', cf.continent);
+	set('geo.country.iso_code', cf.country);
+	// ISO 3166-2 codes are the country code and the subdivision code
+	set('geo.region.iso_code', cf.country && cf.regionCode ? `${cf.country}-${cf.regionCode}` : undefined);
+	set('geo.locality.name', cf.city);
+	set('geo.postal_code', cf.postalCode);
+	set('geo.location.lat', cf.latitude !== undefined ? Number(cf.latitude) : undefined);
+	set('geo.location.lon', cf.longitude !== undefined ? Number(cf.longitude) : undefined);
+
+	// `TLSv1.3` becomes tls 1.3, `HTTP/2` becomes http 2
+	const tls = typeof cf.tlsVersion === 'string' ? /^TLSv(.+)$/.exec(cf.tlsVersion) : null;
+	if (tls) {
+		set('tls.protocol.name', 'tls');
+		set('tls.protocol.version', tls[1]);
+	}
+	set('tls.cipher', cf.tlsCipher);
+
+	const protocol = typeof cf.httpProtocol === 'string' ? /^(HTTP)\/(.+)$/i.exec(cf.httpProtocol) : null;
+	if (protocol) {
+		set('network.protocol.name', protocol[1].toLowerCase());
+		set('network.protocol.version', protocol[2]);
+	}
+
+	return attributes;
+}
+
+// Binding calls show up as child spans named `<binding>_<operation>`, e.g. `kv_get` or `d1_exec`
+const DATABASE_SPAN_PREFIXES: Record<string, string> = {
+	kv_: 'cloudflare-kv',
+	d1_: 'cloudflare-d1',
+	r2_: 'cloudflare-r2',
+	durable_object_storage_: 'cloudflare-durable-object-storage',
+	cache_: 'cloudflare-cache'
+};
+const QUEUE_SPAN_PREFIX = 'queue_';
+const MESSAGING_SYSTEM = 'cloudflare-queues';
+
+/**
+ * The kind of an invocation's root span: requests and RPC calls are served,
+ * queue batches are consumed, and cron triggers, alarms and the like are
+ * internal work.
+ */
+export function onsetSpanKind(info: TailStream.Onset['info']): SpanKind {
+	switch (info.type) {
+		case 'fetch':
+		case 'jsrpc':
+		case 'email':
+		case 'hibernatableWebSocket':
+			return SpanKind.SERVER;
+		case 'queue':
+			return SpanKind.CONSUMER;
+		default:
+			return SpanKind.INTERNAL;
+	}
+}
+
+export function queueConsumerAttributes(info: TailStream.QueueEventInfo): Record<string, any> {
+	return {
+		'messaging.system': MESSAGING_SYSTEM,
+		'messaging.destination.name': info.queueName,
+		'messaging.operation.type': 'process',
+		'messaging.batch.message_count': info.batchSize
+	};
+}
+
+/**
+ * Classifies a child span from its name and info: fetch subrequests, RPC and
+ * storage binding calls are CLIENT spans, queue sends are PRODUCER spans and
+ * everything else (user spans, runtime internals) is INTERNAL. Binding spans
+ * also get the `db.*` or `messaging.*` attributes their name tells us.
+ */
+export function childSpanClassification(
+	name: string,
+	info: TailStream.SpanOpen['info']
+): { kind: SpanKind; attributes: Record<string, any> } {
+	if (info?.type === 'fetch') {
+		return { kind: SpanKind.CLIENT, attributes: httpClientAttributes(info) };
+	}
+	if (info?.type === 'jsrpc') {
+		return { kind: SpanKind.CLIENT, attributes: { 'rpc.system': 'cloudflare-jsrpc', 'rpc.method': info.methodName } };
+	}
+	if (name === 'fetch') {
+		return { kind: SpanKind.CLIENT, attributes: {} };
+	}
+
+	if (name.startsWith(QUEUE_SPAN_PREFIX)) {
+		return {
+			kind: SpanKind.PRODUCER,
+			attributes: {
+				'messaging.system': MESSAGING_SYSTEM,
+				'messaging.operation.type': 'send',
+				'messaging.operation.name': name.slice(QUEUE_SPAN_PREFIX.length)
+			}
+		};
+	}
+
+	for (const [prefix, system] of Object.entries(DATABASE_SPAN_PREFIXES)) {
+		if (name.startsWith(prefix) && name.length > prefix.length) {
+			return { kind: SpanKind.CLIENT, attributes: { 'db.system': system, 'db.operation': name.slice(prefix.length) } };
+		}
+	}
+
+	return { kind: SpanKind.INTERNAL, attributes: {} };
+}
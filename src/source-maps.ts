@@ -0,0 +1,162 @@
+// Where a generated position came from in the original sources, all 1-based like stack traces
+export interface SourcePosition {
+	source: string;
+	line: number;
+	column: number;
+	name?: string;
+}
+
+// [generated column, source index, source line, source column, name index or -1], all 0-based
+type Segment = [number, number, number, number, number];
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map([...BASE64].map((char, index) => [char, index]));
+
+/**
+ * A decoded source map (revision 3), as wrangler writes next to the bundle.
+ * Only what resolving stack frames needs: no index maps, no sourcesContent.
+ */
+export class SourceMap {
+	private lines: Segment[][] = [];
+	private sources: string[];
+	private names: string[];
+
+	constructor(json: string) {
+		const map = JSON.parse(json);
+		if (map.version !== 3 || typeof map.mappings !== 'string') {
+			throw new Error('Only version 3 source maps with "mappings" are supported');
+		}
+
+		this.sources = (map.sources ?? []).map((source: string) => normalizeSource(`${map.sourceRoot ?? ''}${source}`));
+		this.names = map.names ?? [];
+
+		// Everything but the generated column carries over from one segment to the next, across lines too
+		let source = 0;
+		let sourceLine = 0;
+		let sourceColumn = 0;
+		let name = 0;
+		for (const line of map.mappings.split(';')) {
+			const segments: Segment[] = [];
+			let column = 0;
+			for (const encoded of line.split(',')) {
+				if (encoded === '') continue;
+
+				const values = decodeVlq(encoded);
+				column += values[0];
+				if (values.length < 4) continue;
+
+				source += values[1];
+				sourceLine += values[2];
+				sourceColumn += values[3];
+				if (values.length >= 5) {
+					name += values[4];
+				}
+				segments.push([column, source, sourceLine, sourceColumn, values.length >= 5 ? name : -1]);
+			}
+			this.lines.push(segments);
+		}
+	}
+
+	// The original position of a 1-based generated line and column, if the map covers it
+	originalPosition(line: number, column: number): SourcePosition | undefined {
+		const segments = this.lines[line - 1];
+		if (!segments || segments.length === 0) return undefined;
+
+		// The last segment starting at or before the column
+		let low = 0;
+		let high = segments.length - 1;
+		while (low < high) {
+			const middle = (low + high + 1) >> 1;
+			if (segments[middle][0] <= column - 1) {
+				low = middle;
+			} else {
+				high = middle - 1;
+			}
+		}
+		const [start, source, sourceLine, sourceColumn, name] = segments[low];
+		if (start > column - 1) return undefined;
+
+		return {
+			source: this.sources[source],
+			line: sourceLine + 1,
+			column: sourceColumn + 1,
+			name: name >= 0 ? this.names[name] : undefined
+		};
+	}
+}
+
+function decodeVlq(encoded: string): number[] {
+	const values: number[] = [];
+	let value = 0;
+	let shift = 0;
+
+	for (const char of encoded) {
+		const digit = BASE64_VALUES.get(char);
+		if (digit === undefined) {
+			throw new Error(`Invalid character "${char}" in source map mappings`);
+		}
+
+		value += (digit & 31) * 2 ** shift;
+		if (digit & 32) {
+			shift += 5;
+			continue;
+		}
+
+		// The lowest bit is the sign
+		values.push(value % 2 === 1 ? -Math.floor(value / 2) : value / 2);
+		value = 0;
+		shift = 0;
+	}
+
+	return values;
+}
+
+// Wrangler's sources are relative to its output directory, `../../src/index.ts` reads better as `src/index.ts`
+function normalizeSource(source: string): string {
+	return source.replace(/^[a-z]+:\/\/\/?/i, '').replace(/^(\.{1,2}\/)+/, '');
+}
+
+// Decoded maps kept per isolate, the oldest is dropped beyond this
+const MAX_CACHED_MAPS = 10;
+
+/**
+ * Source maps kept in an R2 bucket, under `<scriptName>/<versionId>.js.map`
+ * for a specific deployment or `<scriptName>.js.map` for whatever was
+ * uploaded last (see scripts/upload-source-maps.mjs).
+ */
+export class SourceMapStore {
+	private cache: Map<string, Promise<SourceMap | undefined>> = new Map();
+
+	constructor(private bucket: R2Bucket) {}
+
+	get(scriptName: string, versionId?: string): Promise<SourceMap | undefined> {
+		const key = `${scriptName}@${versionId ?? ''}`;
+		let map = this.cache.get(key);
+		if (!map) {
+			if (this.cache.size >= MAX_CACHED_MAPS) {
+				// Maps iterate in insertion order, so the first key is the oldest
+				this.cache.delete(this.cache.keys().next().value!);
+			}
+			map = this.load(scriptName, versionId).catch(error => {
+				// Try again next time, the bucket may only have been unreachable
+				this.cache.delete(key);
+				console.warn(`Failed to load the source map for ${scriptName}:`, error);
+				return undefined;
+			});
+			this.cache.set(key, map);
+		}
+		return map;
+	}
+
+	private async load(scriptName: string, versionId?: string): Promise<SourceMap | undefined> {
+		const keys = versionId ? [`${scriptName}/${versionId}.js.map`, `${scriptName}.js.map`] : [`${scriptName}.js.map`];
+
+		for (const key of keys) {
+			const object = await this.bucket.get(key);
+			if (object) {
+				return new SourceMap(await object.text());
+			}
+		}
+		return undefined;
+	}
+}
@@ -0,0 +1,198 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import type { OtelSpan } from './converter';
+import type { InvocationSummary } from './destinations';
+
+// Where the worker serves the viewer; requests to it aren't stored, or the viewer would fill up with itself
+export const VIEWER_PATH = '/__traces';
+
+export function isViewerRequest(invocation: InvocationSummary): boolean {
+	const path = invocation.eventType === 'fetch' ? invocation.route?.split(' ')[1] : undefined;
+	return path !== undefined && (path === VIEWER_PATH || path.startsWith(`${VIEWER_PATH}/`));
+}
+
+export interface TraceStoreOptions {
+	// Invocations kept, older ones are deleted as new ones come in
+	retain?: number;
+}
+
+export interface TraceQuery {
+	outcome?: string;
+	// `METHOD /path` pattern, `*` matches any run of characters
+	route?: string;
+	limit?: number;
+}
+
+// One exported invocation, as listed by the viewer
+export interface StoredInvocation {
+	traceId: string;
+	rootSpanId: string;
+	parentSpanId?: string;
+	scriptName?: string;
+	route?: string;
+	outcome?: string;
+	// Milliseconds since the epoch
+	startTime: number;
+	durationMs: number;
+	spanCount: number;
+	error: boolean;
+}
+
+export interface StoredTrace {
+	traceId: string;
+	invocations: StoredInvocation[];
+	spans: OtelSpan[];
+}
+
+interface InvocationRow {
+	trace_id: string;
+	root_span_id: string;
+	parent_span_id: string | null;
+	script_name: string | null;
+	route: string | null;
+	outcome: string | null;
+	start_time: number;
+	duration_ms: number;
+	span_count: number;
+	error: number;
+	spans: string;
+}
+
+const TABLE = 'otel_viewer_invocations';
+const DEFAULT_RETAIN = 1000;
+const MAX_LIMIT = 500;
+
+/**
+ * Keeps the most recent exported invocations in D1 for the built-in trace
+ * viewer. Each row is one invocation (or hibernation segment) with its spans
+ * as JSON; a trace is every row sharing a trace ID, which is how stitched
+ * cross-worker traces come back together.
+ */
+export class TraceStore {
+	private ready?: Promise<unknown>;
+	private retain: number;
+
+	constructor(
+		private db: D1Database,
+		options: TraceStoreOptions = {}
+	) {
+		this.retain = options.retain ?? DEFAULT_RETAIN;
+	}
+
+	async save(spans: OtelSpan[], invocation: InvocationSummary = {}): Promise<void> {
+		const root = invocation.rootSpan ?? spans[0];
+		if (!root) return;
+
+		const start = Math.min(...spans.map(span => span.startTime));
+		const end = Math.max(...spans.map(span => span.endTime ?? span.startTime));
+		const failed = invocation.outcome !== undefined && invocation.outcome !== 'ok';
+		const error = failed || spans.some(span => span.status?.code === SpanStatusCode.ERROR);
+
+		await this.init();
+		await this.db.batch([
+			this.db
+				.prepare(
+					`INSERT INTO ${TABLE} (trace_id, root_span_id, parent_span_id, script_name, route, outcome, start_time, duration_ms, span_count, error, spans)
+					VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11)`
+				)
+				.bind(
+					root.traceId,
+					root.spanId,
+					root.parentSpanId ?? null,
+					invocation.scriptName ?? null,
+					invocation.route ?? null,
+					invocation.outcome ?? null,
+					Math.floor(start / 1000000),
+					Math.round((end - start) / 1000) / 1000,
+					spans.length,
+					error ? 1 : 0,
+					JSON.stringify(spans, (_key, value) => (typeof value === 'bigint' ? value.toString() : value))
+				),
+			this.db.prepare(`DELETE FROM ${TABLE} WHERE id <= (SELECT MAX(id) FROM ${TABLE}) - ?1`).bind(this.retain)
+		]);
+	}
+
+	// Most recent invocations first
+	async list(query: TraceQuery = {}): Promise<StoredInvocation[]> {
+		const conditions: string[] = [];
+		const params: unknown[] = [];
+
+		if (query.outcome) {
+			params.push(query.outcome);
+			conditions.push(`outcome = ?${params.length}`);
+		}
+		if (query.route) {
+			params.push(query.route.replace(/[\\%_]/g, '\\$&').replace(/\*/g, '%'));
+			conditions.push(`route LIKE ?${params.length} ESCAPE '\\'`);
+		}
+		params.push(Math.min(Math.max(query.limit ?? 50, 1), MAX_LIMIT));
+
+		await this.init();
+		const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+		const { results } = await this.db
+			.prepare(`SELECT * FROM ${TABLE} ${where} ORDER BY start_time DESC, id DESC LIMIT ?${params.length}`)
+			.bind(...params)
+			.all<InvocationRow>();
+
+		return results.map(toInvocation);
+	}
+
+	async get(traceId: string): Promise<StoredTrace | undefined> {
+		await this.init();
+		const { results } = await this.db
+			.prepare(`SELECT * FROM ${TABLE} WHERE trace_id = ?1 ORDER BY start_time, id`)
+			.bind(traceId)
+			.all<InvocationRow>();
+		if (results.length === 0) return undefined;
+
+		return {
+			traceId,
+			invocations: results.map(toInvocation),
+			spans: results.flatMap(row => JSON.parse(row.spans) as OtelSpan[]).sort((a, b) => a.startTime - b.startTime)
+		};
+	}
+
+	private init(): Promise<unknown> {
+		this.ready ??= this.db
+			.batch([
+				this.db.prepare(
+					`CREATE TABLE IF NOT EXISTS ${TABLE} (
+						id INTEGER PRIMARY KEY AUTOINCREMENT,
+						trace_id TEXT NOT NULL,
+						root_span_id TEXT NOT NULL,
+						parent_span_id TEXT,
+						script_name TEXT,
+						route TEXT,
+						outcome TEXT,
+						start_time INTEGER NOT NULL,
+						duration_ms REAL NOT NULL,
+						span_count INTEGER NOT NULL,
+						error INTEGER NOT NULL,
+						spans TEXT NOT NULL
+					)`
+				),
+				this.db.prepare(`CREATE INDEX IF NOT EXISTS ${TABLE}_trace_id ON ${TABLE} (trace_id)`),
+				this.db.prepare(`CREATE INDEX IF NOT EXISTS ${TABLE}_start_time ON ${TABLE} (start_time)`)
+			])
+			.catch(error => {
+				// Try again next time rather than failing every later call
+				this.ready = undefined;
+				throw error;
+			});
+		return this.ready;
+	}
+}
+
+function toInvocation(row: InvocationRow): StoredInvocation {
+	return {
+		traceId: row.trace_id,
+		rootSpanId: row.root_span_id,
+		parentSpanId: row.parent_span_id ?? undefined,
+		scriptName: row.script_name ?? undefined,
+		route: row.route ?? undefined,
+		outcome: row.outcome ?? undefined,
+		startTime: row.start_time,
+		durationMs: row.duration_ms,
+		spanCount: row.span_count,
+		error: row.error === 1
+	};
+}
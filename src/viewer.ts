@@ -0,0 +1,223 @@
+import type { ResolvedDestination } from './destinations';
+import { TraceStore, VIEWER_PATH } from './trace-store';
+
+const TRACE_ID = /^[0-9a-f]{32}$/i;
+
+// The store of the first `viewer` destination, if there is one
+export function createTraceStore(destinations: ResolvedDestination[]): TraceStore | undefined {
+	const config = destinations.find(config => config.type === 'viewer');
+	return config ? new TraceStore(config.d1Database!, { retain: config.retain }) : undefined;
+}
+
+/**
+ * Decides who may read traces under /__traces, the live feed and stats
+ * included. With OTEL_VIEWER_TOKEN set a request needs it as a bearer token,
+ * or in the `token` query parameter for browsers, whose pages pass it on.
+ * Without one they are only served in development. Returns the response for a
+ * request that isn't allowed.
+ */
+export async function authorizeViewerRequest(
+	request: Request,
+	token: string | undefined,
+	development: boolean
+): Promise<Response | undefined> {
+	if (token === undefined) {
+		return development ? undefined : new Response('Set OTEL_VIEWER_TOKEN to serve /__traces outside development\n', { status: 404 });
+	}
+
+	const authorization = request.headers.get('Authorization');
+	const given = authorization?.startsWith('Bearer ')
+		? authorization.slice('Bearer '.length)
+		: new URL(request.url).searchParams.get('token');
+	if (given !== null && (await tokensMatch(given, token))) {
+		return undefined;
+	}
+	return new Response('Unauthorized\n', { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+}
+
+// Compares digests, so neither the time taken nor a difference in length gives the token away
+async function tokensMatch(given: string, token: string): Promise<boolean> {
+	const encoder = new TextEncoder();
+	const [a, b] = await Promise.all([given, token].map(value => crypto.subtle.digest('SHA-256', encoder.encode(value))));
+	return crypto.subtle.timingSafeEqual(a, b);
+}
+
+/**
+ * Serves the built-in trace viewer under /__traces:
+ *
+ * - `GET /__traces` is the viewer page
+ * - `GET /__traces/api/traces?outcome=&route=&limit=` lists recent invocations, newest first
+ * - `GET /__traces/api/traces/<traceId>` returns every span stored for a trace
+ */
+export async function handleViewerRequest(request: Request, store: TraceStore | undefined): Promise<Response> {
+	if (!store) {
+		return new Response('The trace viewer is not enabled, add a "viewer" destination to OTEL_DESTINATIONS\n', { status: 404 });
+	}
+	if (request.method !== 'GET') {
+		return new Response('Method not allowed\n', { status: 405, headers: { Allow: 'GET' } });
+	}
+
+	const url = new URL(request.url);
+	const path = url.pathname.replace(/\/+$/, '');
+
+	if (path === VIEWER_PATH) {
+		return new Response(VIEWER_HTML, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+	}
+
+	if (path === `${VIEWER_PATH}/api/traces`) {
+		const limit = url.searchParams.get('limit');
+		const invocations = await store.list({
+			outcome: url.searchParams.get('outcome') || undefined,
+			route: url.searchParams.get('route') || undefined,
+			limit: limit ? Number(limit) || undefined : undefined
+		});
+		return Response.json({ invocations });
+	}
+
+	const traceId = path.startsWith(`${VIEWER_PATH}/api/traces/`) ? path.slice(`${VIEWER_PATH}/api/traces/`.length) : undefined;
+	if (traceId !== undefined) {
+		if (!TRACE_ID.test(traceId)) {
+			return Response.json({ error: 'Trace IDs are 32 hex characters' }, { status: 400 });
+		}
+		const trace = await store.get(traceId.toLowerCase());
+		return trace ? Response.json(trace) : Response.json({ error: `Trace ${traceId} not found` }, { status: 404 });
+	}
+
+	return new Response('Not found\n', { status: 404 });
+}
+
+// A single page: the invocation list with filters, and a waterfall of the selected trace.
+// Everything from the traces goes in through textContent, span names and attributes come from requests.
+const VIEWER_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Traces</title>
+<style>
+	body { font: 13px system-ui, sans-serif; margin: 0; color: #1f2328; }
+	header { padding: 8px 16px; background: #f6f8fa; border-bottom: 1px solid #d0d7de; display: flex; gap: 8px; align-items: center; }
+	header h1 { font-size: 15px; margin: 0 16px 0 0; }
+	main { display: grid; grid-template-columns: minmax(320px, 1fr) 2fr; height: calc(100vh - 42px); }
+	section { overflow: auto; }
+	#list { border-right: 1px solid #d0d7de; }
+	table { border-collapse: collapse; width: 100%; }
+	td, th { padding: 4px 8px; text-align: left; white-space: nowrap; border-bottom: 1px solid #eaeef2; }
+	tr.invocation { cursor: pointer; }
+	tr.invocation:hover, tr.selected { background: #ddf4ff; }
+	.error { color: #cf222e; }
+	.span { cursor: pointer; }
+	.name { overflow: hidden; text-overflow: ellipsis; max-width: 320px; }
+	.track { position: relative; width: 100%; min-width: 240px; height: 14px; }
+	.bar { position: absolute; height: 100%; min-width: 1px; background: #54aeff; border-radius: 2px; }
+	.bar.error { background: #ff8182; }
+	pre { margin: 0; padding: 8px; background: #f6f8fa; white-space: pre-wrap; }
+	.empty { padding: 16px; color: #656d76; }
+</style>
+</head>
+<body>
+<header>
+	<h1>Traces</h1>
+	<input id="route" placeholder="Route, e.g. GET /api/*">
+	<select id="outcome">
+		<option value="">Any outcome</option>
+		<option>ok</option><option>exception</option><option>exceededCpu</option><option>exceededMemory</option>
+		<option>canceled</option><option>responseStreamDisconnected</option><option>unknown</option>
+	</select>
+	<button id="refresh">Refresh</button>
+</header>
+<main>
+	<section id="list"></section>
+	<section id="trace"><p class="empty">Select an invocation to see its trace.</p></section>
+</main>
+<script>
+const base = location.pathname.replace(/\\/+$/, '');
+// A token the page was opened with goes along to the API
+const token = new URLSearchParams(location.search).get('token');
+const auth = new URLSearchParams(token ? { token } : {});
+const el = (tag, props = {}, ...children) => {
+	const node = Object.assign(document.createElement(tag), props);
+	node.append(...children);
+	return node;
+};
+const ms = value => value < 10 ? value.toFixed(2) + ' ms' : Math.round(value) + ' ms';
+
+async function loadList() {
+	const params = new URLSearchParams(auth);
+	for (const id of ['route', 'outcome']) {
+		const value = document.getElementById(id).value.trim();
+		if (value) params.set(id, value);
+	}
+	const { invocations } = await (await fetch(base + '/api/traces?' + params)).json();
+	const list = document.getElementById('list');
+	if (invocations.length === 0) {
+		list.replaceChildren(el('p', { className: 'empty', textContent: 'No traces yet.' }));
+		return;
+	}
+	const rows = invocations.map(invocation => {
+		const row = el('tr', { className: 'invocation' },
+			el('td', { textContent: new Date(invocation.startTime).toLocaleTimeString() }),
+			el('td', { className: 'name', textContent: invocation.route || invocation.scriptName || invocation.traceId }),
+			el('td', { className: invocation.error ? 'error' : '', textContent: invocation.outcome || '' }),
+			el('td', { textContent: ms(invocation.durationMs) }),
+			el('td', { textContent: invocation.spanCount }));
+		row.onclick = () => {
+			list.querySelectorAll('.selected').forEach(selected => selected.classList.remove('selected'));
+			row.classList.add('selected');
+			loadTrace(invocation.traceId);
+		};
+		return row;
+	});
+	list.replaceChildren(el('table', {},
+		el('tr', {}, ...['Time', 'Route', 'Outcome', 'Duration', 'Spans'].map(title => el('th', { textContent: title }))),
+		...rows));
+}
+
+async function loadTrace(traceId) {
+	const { spans } = await (await fetch(base + '/api/traces/' + traceId + '?' + auth)).json();
+	const start = Math.min(...spans.map(span => span.startTime));
+	const end = Math.max(...spans.map(span => span.endTime ?? span.startTime));
+	const total = Math.max(end - start, 1);
+
+	// Depth-first, children in start order, so the waterfall reads like Jaeger's
+	const ids = new Set(spans.map(span => span.spanId));
+	const children = new Map();
+	for (const span of spans) {
+		const parent = ids.has(span.parentSpanId) ? span.parentSpanId : '';
+		children.set(parent, [...(children.get(parent) || []), span]);
+	}
+	const ordered = [];
+	const visit = (parent, depth) => {
+		for (const span of children.get(parent) || []) {
+			ordered.push([span, depth]);
+			visit(span.spanId, depth + 1);
+		}
+	};
+	visit('', 0);
+
+	const table = el('table', {}, el('tr', {}, el('th', { textContent: traceId }), el('th', { textContent: ms(total / 1e6) })));
+	for (const [span, depth] of ordered) {
+		const failed = span.status && span.status.code === 2;
+		const duration = ((span.endTime ?? span.startTime) - span.startTime) / 1e6;
+		const bar = el('div', { className: 'bar' + (failed ? ' error' : '') });
+		bar.style.left = ((span.startTime - start) / total) * 100 + '%';
+		bar.style.width = (((span.endTime ?? span.startTime) - span.startTime) / total) * 100 + '%';
+		const name = el('td', { className: 'name' + (failed ? ' error' : ''), textContent: span.operationName + ' · ' + ms(duration) });
+		name.style.paddingLeft = 8 + depth * 14 + 'px';
+		const row = el('tr', { className: 'span' }, name, el('td', {}, el('div', { className: 'track' }, bar)));
+		const details = el('tr', { hidden: true }, el('td', { colSpan: 2 }, el('pre', {
+			textContent: JSON.stringify({ spanId: span.spanId, kind: span.kind, status: span.status, tags: span.tags, events: span.events, logs: span.logs, links: span.links }, null, 2)
+		})));
+		row.onclick = () => { details.hidden = !details.hidden; };
+		table.append(row, details);
+	}
+	document.getElementById('trace').replaceChildren(table);
+}
+
+document.getElementById('refresh').onclick = loadList;
+document.getElementById('route').onchange = loadList;
+document.getElementById('outcome').onchange = loadList;
+loadList();
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,202 @@
+import { env } from 'cloudflare:test';
+import { SpanKind } from '@opentelemetry/api';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Alerter, AlertNotification, AlertRule, AlertsConfig } from '../src/alerts';
+import { loadConfig, parseAlertsConfig } from '../src/config';
+import type { OtelSpan } from '../src/converter';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { Redactor } from '../src/redaction';
+import { Sampler } from '../src/sampling';
+import { fakeReceiver, fetchOnset, outcome, ROOT_SPAN_ID, START, tailEvent, TRACE_ID } from './helpers';
+
+const WEBHOOK = 'http://localhost:8789/alerts';
+const INSERT_SPAN_ID = '3333333333333333';
+
+function span(overrides: Partial<OtelSpan> = {}): OtelSpan {
+	return {
+		traceId: TRACE_ID,
+		spanId: ROOT_SPAN_ID,
+		operationName: 'queue analytics',
+		kind: SpanKind.CONSUMER,
+		startTime: START.getTime() * 1000000,
+		endTime: (START.getTime() + 10) * 1000000,
+		tags: {},
+		events: [],
+		links: [],
+		logs: [],
+		...overrides
+	};
+}
+
+// The queue consumer's D1 insert, taking the given milliseconds
+function insert(durationMs: number): OtelSpan {
+	return span({
+		spanId: INSERT_SPAN_ID,
+		parentSpanId: ROOT_SPAN_ID,
+		operationName: 'd1_insert',
+		kind: SpanKind.CLIENT,
+		endTime: (START.getTime() + durationMs) * 1000000
+	});
+}
+
+const CRASHES: AlertRule = { name: 'crashes', outcomes: ['exceededCpu', 'exceededMemory', 'exception'] };
+
+function alerter(config: Partial<AlertsConfig> = {}) {
+	return new Alerter({ webhook: WEBHOOK, rules: [CRASHES], ...config });
+}
+
+function notifications(requests: Array<{ url: string; body: unknown }>): AlertNotification[] {
+	return requests.filter(request => request.url === WEBHOOK).map(request => request.body as AlertNotification);
+}
+
+describe('alerts', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.useRealTimers();
+	});
+
+	it('notifies the webhook of invocations with a matching outcome', async () => {
+		const { requests } = fakeReceiver();
+		const alerts = alerter();
+
+		await alerts.evaluate([span()], { scriptName: 'stw-local-dev', route: 'queue analytics', outcome: 'ok' });
+		await alerts.evaluate([span()], { scriptName: 'stw-local-dev', route: 'queue analytics', outcome: 'exceededCpu' });
+
+		expect(notifications(requests)).toEqual([
+			{
+				rule: 'crashes',
+				reason: 'outcome exceededCpu',
+				scriptName: 'stw-local-dev',
+				route: 'queue analytics',
+				outcome: 'exceededCpu',
+				traceId: TRACE_ID,
+				spanId: ROOT_SPAN_ID,
+				timestamp: START.toISOString(),
+				suppressed: 0,
+				dropped: 0
+			}
+		]);
+	});
+
+	it('matches exceptions by type or message, and spans over their latency budget', async () => {
+		const { requests } = fakeReceiver();
+		const alerts = alerter({
+			rules: [
+				{ name: 'type errors', exception: 'TypeError' },
+				{ name: 'timeouts', exception: '*timed out*' },
+				{ name: 'slow inserts', span: 'd1_*', maxDurationMs: 200, scriptName: 'stw-local-dev' }
+			]
+		});
+		const exception = (type: string, message: string) => ({
+			timestamp: 0,
+			name: 'exception',
+			attributes: { 'exception.type': type, 'exception.message': message }
+		});
+
+		await alerts.evaluate([span({ events: [exception('Error', 'upstream timed out')] }), insert(150)], { scriptName: 'stw-local-dev' });
+		await alerts.evaluate([span(), insert(512)], { scriptName: 'other-worker' });
+		await alerts.evaluate([span(), insert(512)], { scriptName: 'stw-local-dev' });
+
+		expect(notifications(requests).map(({ rule, reason, spanId }) => [rule, reason, spanId])).toEqual([
+			['timeouts', 'exception Error: upstream timed out', ROOT_SPAN_ID],
+			['slow inserts', 'span d1_insert took 512 ms, over its 200 ms budget', INSERT_SPAN_ID]
+		]);
+	});
+
+	it('counts repeats within the dedup window instead of sending them', async () => {
+		vi.useFakeTimers({ now: START });
+		const { requests } = fakeReceiver();
+		const alerts = alerter({ dedupSeconds: 60, rules: [{ name: 'slow inserts', span: 'd1_insert', maxDurationMs: 200 }] });
+
+		for (const duration of [300, 400, 500]) {
+			await alerts.evaluate([span(), insert(duration)], {});
+		}
+		vi.advanceTimersByTime(61000);
+		await alerts.evaluate([span(), insert(600)], {});
+
+		expect(notifications(requests).map(({ reason, suppressed }) => [reason, suppressed])).toEqual([
+			['span d1_insert took 300 ms, over its 200 ms budget', 0],
+			['span d1_insert took 600 ms, over its 200 ms budget', 2]
+		]);
+	});
+
+	it('rate limits notifications across rules and reports what it dropped', async () => {
+		vi.useFakeTimers({ now: START });
+		const { requests } = fakeReceiver();
+		const alerts = alerter({ maxPerMinute: 2 });
+
+		for (const route of ['GET /a', 'GET /b', 'GET /c', 'GET /d']) {
+			await alerts.evaluate([span()], { route, outcome: 'exception' });
+		}
+		vi.advanceTimersByTime(30000);
+		await alerts.evaluate([span()], { route: 'GET /e', outcome: 'exception' });
+
+		expect(notifications(requests).map(({ route, dropped }) => [route, dropped])).toEqual([
+			['GET /a', 0],
+			['GET /b', 0],
+			['GET /e', 2]
+		]);
+	});
+
+	it('logs webhook failures without throwing', async () => {
+		vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(null, { status: 503 }));
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		await alerter().evaluate([span()], { outcome: 'exception' });
+
+		expect(error).toHaveBeenCalledWith('Failed to send the "crashes" alert to the webhook:', new Error('HTTP 503'));
+	});
+
+	it('alerts on invocations that sampling drops', async () => {
+		const { requests } = fakeReceiver();
+		const converter = new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })), {
+			sampler: new Sampler({ ratio: 0, keepErrors: false }),
+			alerter: alerter()
+		});
+
+		converter.handleEvent(tailEvent(fetchOnset(), {}));
+		converter.handleEvent(tailEvent(outcome('exceededMemory'), { spanId: ROOT_SPAN_ID, at: 10 }));
+		await converter.flush();
+
+		expect(requests.map(request => request.url)).toEqual([WEBHOOK]);
+		expect(notifications(requests)[0]).toMatchObject({ rule: 'crashes', route: 'GET /', outcome: 'exceededMemory' });
+	});
+
+	it('matches rules against what happened, but redacts what it sends', async () => {
+		const { requests } = fakeReceiver();
+		const alerts = new Alerter(
+			{ webhook: WEBHOOK, rules: [{ name: 'signups', exception: '*ann@example.com*' }] },
+			new Redactor({ scrub: ['email'], hashIps: true }, 'salt')
+		);
+		const exception = {
+			timestamp: 0,
+			name: 'exception',
+			attributes: { 'exception.type': 'Error', 'exception.message': 'ann@example.com from 203.0.113.7' }
+		};
+
+		await alerts.evaluate([span({ events: [exception] })], { route: 'POST /users/ann@example.com' });
+
+		const [notification] = notifications(requests);
+		expect(notification.reason).toMatch(/^exception Error: \[REDACTED_EMAIL\] from ip-[0-9a-f]{16}$/);
+		expect(notification.route).toBe('POST /users/[REDACTED_EMAIL]');
+	});
+
+	it('validates the config', () => {
+		const parse = (config: unknown) => () => parseAlertsConfig({ ...env, OTEL_ALERTS: config as object });
+
+		expect(parseAlertsConfig(env)).toBeUndefined();
+		expect(parse('{')).toThrowError(/^OTEL_ALERTS is not valid JSON/);
+		expect(parse({ webhook: 'not a url', rules: [] })).toThrowError('OTEL_ALERTS webhook must be a URL, got "not a url"');
+		expect(parse({ webhook: WEBHOOK, rules: [{ name: 'empty' }] })).toThrowError(
+			'OTEL_ALERTS rule "empty" needs at least one of "outcomes", "exception" or "span"'
+		);
+		expect(parse({ webhook: WEBHOOK, rules: [{ name: 'slow', span: 'd1_*' }] })).toThrowError(
+			'OTEL_ALERTS rule "slow" needs a non-negative "maxDurationMs" for its span'
+		);
+		expect(parse(JSON.stringify({ webhook: WEBHOOK, rules: [{ name: 'crashes', outcomes: ['exception'] }] }))()).toEqual({
+			webhook: WEBHOOK,
+			rules: [{ name: 'crashes', outcomes: ['exception'] }]
+		});
+	});
+});
@@ -0,0 +1,101 @@
+import { createExecutionContext, createMessageBatch, env, getQueueResult } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { AnalyticsEvent, handleAnalyticsBatch, parseAnalyticsEvent } from '../src/analytics-queue';
+import worker from '../src/index';
+import { START } from './helpers';
+
+function event(overrides: Partial<AnalyticsEvent> = {}): AnalyticsEvent {
+	return { type: 'demo_request', userId: 'demo-user', timestamp: START.getTime(), data: { path: '/' }, ...overrides };
+}
+
+function message(id: string, body: unknown, attempts = 1) {
+	return { id, timestamp: START, attempts, body };
+}
+
+// Delivers the messages to the worker's queue() handler, as Queues would
+async function deliver(messages: Parameters<typeof createMessageBatch>[1]) {
+	const batch = createMessageBatch('analytics-queue', messages);
+	const ctx = createExecutionContext();
+	await worker.queue(batch, env, ctx);
+	return getQueueResult(batch, ctx);
+}
+
+async function counters() {
+	const { results } = await env.DB.prepare('SELECT event_type, count FROM analytics_counters').all();
+	return results;
+}
+
+describe('analytics queue', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('stores each event and counts it by type', async () => {
+		const result = await deliver([message('m1', event()), message('m2', event({ userId: 'someone-else' }))]);
+
+		expect(result.explicitAcks.sort()).toEqual(['m1', 'm2']);
+		expect(result.retryMessages).toEqual([]);
+		const { results } = await env.DB.prepare('SELECT message_id, user_id, timestamp, data FROM analytics_events ORDER BY message_id').all();
+		expect(results).toEqual([
+			{ message_id: 'm1', user_id: 'demo-user', timestamp: START.getTime(), data: '{"path":"/"}' },
+			{ message_id: 'm2', user_id: 'someone-else', timestamp: START.getTime(), data: '{"path":"/"}' }
+		]);
+		expect(await counters()).toEqual([{ event_type: 'demo_request', count: 2 }]);
+	});
+
+	it('does not count redelivered messages twice', async () => {
+		await deliver([message('m1', event())]);
+		const result = await deliver([message('m1', event(), 2), message('m2', event())]);
+
+		expect(result.explicitAcks.sort()).toEqual(['m1', 'm2']);
+		expect(await counters()).toEqual([{ event_type: 'demo_request', count: 2 }]);
+	});
+
+	it('dead-letters invalid messages and acks them', async () => {
+		const send = vi.spyOn(env.ANALYTICS_DLQ, 'send').mockResolvedValue();
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		const result = await deliver([message('m1', event({ type: 'signup' as never })), message('m2', event())]);
+
+		expect(result.explicitAcks.sort()).toEqual(['m1', 'm2']);
+		expect(send).toHaveBeenCalledExactlyOnceWith({
+			messageId: 'm1',
+			attempts: 1,
+			reason: 'Unknown analytics event type "signup", expected one of: demo_request',
+			body: event({ type: 'signup' as never })
+		});
+		expect(await counters()).toEqual([{ event_type: 'demo_request', count: 1 }]);
+	});
+
+	it('retries with backoff instead of acking when D1 fails', async () => {
+		vi.spyOn(env.DB, 'batch').mockRejectedValue(new Error('D1_ERROR: database is locked'));
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		const batch = createMessageBatch('analytics-queue', [message('m1', event()), message('m2', event(), 3)]);
+		const retries = batch.messages.map(message => vi.spyOn(message, 'retry'));
+		const ctx = createExecutionContext();
+
+		await handleAnalyticsBatch(batch, env);
+		const result = await getQueueResult(batch, ctx);
+
+		expect(result.explicitAcks).toEqual([]);
+		expect(result.retryMessages).toMatchObject([{ msgId: 'm1' }, { msgId: 'm2' }]);
+		expect(retries.map(retry => retry.mock.calls)).toEqual([[[{ delaySeconds: 2 }]], [[{ delaySeconds: 8 }]]]);
+	});
+
+	it('validates events', () => {
+		const parse = (body: unknown) => () => parseAnalyticsEvent(body);
+
+		expect(parse('demo_request')).toThrowError('Analytics events must be objects');
+		expect(parse(event({ userId: '' }))).toThrowError('Analytics event userId must be a non-empty string of at most 256 characters');
+		expect(parse(event({ timestamp: '2025-10-09' as never }))).toThrowError(
+			'Analytics event timestamp must be milliseconds since the epoch, got "2025-10-09"'
+		);
+		expect(parse(event({ data: [] as never }))).toThrowError('Analytics event data must be an object');
+		expect(parse({ type: 'demo_request', userId: 'demo-user', timestamp: 0 })()).toEqual({
+			type: 'demo_request',
+			userId: 'demo-user',
+			timestamp: 0,
+			data: {}
+		});
+	});
+});
@@ -0,0 +1,147 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleAnalyticsRequest } from '../src/analytics';
+import { AnalyticsReport, AnalyticsStore } from '../src/analytics-store';
+import { loadConfig, parseDestinationConfigs } from '../src/config';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { Redactor } from '../src/redaction';
+import { fetchOnset, outcome, ROOT_SPAN_ID, START, tailEvent } from './helpers';
+
+const QUERY_SPAN_ID = '2222222222222222';
+
+function createConverter() {
+	return new CloudflareToOtelConverter(
+		createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: [{ name: 'stats', type: 'analytics', database: 'DB' }] }))
+	);
+}
+
+interface Invocation {
+	path: string;
+	result: TailStream.EventOutcome;
+	// How long the D1 query and the whole invocation take, in milliseconds
+	query: number;
+	duration: number;
+	at: number;
+}
+
+// Runs one fetch invocation, with a D1 query, through the converter
+function invoke(converter: CloudflareToOtelConverter, options: Partial<Invocation> = {}) {
+	const { path = '/api/users', result = 'ok', query = 1, duration = 10, at = 0 } = options;
+	const invocation = { invocationId: `${path} ${at}` };
+
+	converter.handleEvent(tailEvent(fetchOnset({}, { url: `https://example.com${path}` }), { ...invocation, at }));
+	converter.handleEvent(
+		tailEvent({ type: 'spanOpen', name: 'd1_query', spanId: QUERY_SPAN_ID }, { ...invocation, spanId: ROOT_SPAN_ID, at })
+	);
+	converter.handleEvent(
+		tailEvent({ type: 'spanClose', outcome: result === 'ok' ? 'ok' : 'exception' }, { ...invocation, spanId: QUERY_SPAN_ID, at: at + query })
+	);
+	converter.handleEvent(tailEvent(outcome(result, duration / 2, duration), { ...invocation, spanId: ROOT_SPAN_ID, at: at + duration }));
+}
+
+async function get(query: string): Promise<[number, AnalyticsReport]> {
+	const response = await handleAnalyticsRequest(new Request(`https://example.com/__traces/api/stats?${query}`), new AnalyticsStore(env.DB));
+	return [response.status, await response.json<AnalyticsReport>()];
+}
+
+// The window ends a minute after the invocations start, as if they had just happened
+const to = START.getTime() + 60000;
+
+describe('trace analytics', () => {
+	it('reports latency percentiles, error rates and outcomes per route and span name', async () => {
+		const converter = createConverter();
+		for (let i = 1; i <= 20; i++) {
+			invoke(converter, { duration: i * 10, query: i, at: i * 1000, result: i === 20 ? 'exception' : 'ok' });
+		}
+		invoke(converter, { path: '/health', duration: 2, at: 500 });
+		await converter.flush();
+
+		const [status, report] = await get(`to=${to}`);
+		expect(status).toBe(200);
+		expect(report.from).toBe(to - 3600000);
+		expect(report.routes).toEqual([
+			{
+				route: 'GET /api/users',
+				count: 20,
+				errors: 1,
+				errorRate: 0.05,
+				p50Ms: 100,
+				p95Ms: 190,
+				p99Ms: 200,
+				cpuWallRatio: 0.5,
+				outcomes: { ok: 19, exception: 1 }
+			},
+			{ route: 'GET /health', count: 1, errors: 0, errorRate: 0, p50Ms: 2, p95Ms: 2, p99Ms: 2, cpuWallRatio: 0.5, outcomes: { ok: 1 } }
+		]);
+		expect(report.spans).toEqual([{ name: 'd1_query', count: 21, errors: 1, errorRate: 0.048, p50Ms: 10, p95Ms: 19, p99Ms: 20 }]);
+	});
+
+	it('narrows the report by window, route and script', async () => {
+		const converter = createConverter();
+		invoke(converter, { path: '/api/orders', at: 0 });
+		invoke(converter, { path: '/api/orders', at: 50000 });
+		invoke(converter, { path: '/health', at: 50000 });
+		await converter.flush();
+
+		const [, lastMinute] = await get(`to=${START.getTime() + 50000}&window=0.5`);
+		expect(lastMinute.routes.map(({ route, count }) => [route, count])).toEqual([
+			['GET /api/orders', 1],
+			['GET /health', 1]
+		]);
+
+		const [, orders] = await get(`to=${to}&route=${encodeURIComponent('GET /api/*')}`);
+		expect(orders.routes.map(({ route, count }) => [route, count])).toEqual([['GET /api/orders', 2]]);
+		expect(orders.spans.map(({ name, count }) => [name, count])).toEqual([['d1_query', 2]]);
+
+		const [, otherScript] = await get(`to=${to}&script=other-worker`);
+		expect(otherScript).toMatchObject({ routes: [], spans: [] });
+	});
+
+	it('drops samples older than retainHours, counted back from the newest', async () => {
+		const converter = new CloudflareToOtelConverter(
+			createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: [{ name: 'stats', type: 'analytics', database: 'DB', retainHours: 1 }] }))
+		);
+		invoke(converter, { at: 0 });
+		await converter.flush();
+		invoke(converter, { at: 2 * 3600000 });
+		await converter.flush();
+
+		const [, report] = await get(`to=${START.getTime() + 3 * 3600000}&window=${4 * 60}`);
+		expect(report.routes.map(({ count }) => count)).toEqual([1]);
+	});
+
+	it('reports routes redacted like the spans', async () => {
+		const converter = new CloudflareToOtelConverter(
+			createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: [{ name: 'stats', type: 'analytics', database: 'DB' }] })),
+			{ redactor: new Redactor({ scrub: [{ pattern: 'acct_\\d+', replacement: 'acct_*' }] }) }
+		);
+		invoke(converter, { path: '/accounts/acct_1234' });
+		await converter.flush();
+
+		const [, report] = await get(`to=${to}`);
+		expect(report.routes.map(({ route }) => route)).toEqual(['GET /accounts/acct_*']);
+	});
+
+	it('rejects bad windows and explains when analytics are off', async () => {
+		const [status] = await get('window=-5');
+		expect(status).toBe(400);
+
+		const disabled = await handleAnalyticsRequest(new Request('https://example.com/__traces/api/stats'), undefined);
+		expect(disabled.status).toBe(404);
+		expect(await disabled.text()).toContain('add an "analytics" destination');
+	});
+
+	it('validates analytics destinations', () => {
+		const configs = (destination: object) => () =>
+			parseDestinationConfigs({ ...env, OTEL_DESTINATIONS: [{ name: 'stats', ...destination }] });
+
+		expect(configs({ type: 'analytics' })).toThrowError('Destination "stats" is an analytics destination but has no "database"');
+		expect(configs({ type: 'analytics', database: 'DB', retainHours: 0 })).toThrowError(
+			'Destination "stats" retainHours must be a positive number, got 0'
+		);
+		expect(configs({ type: 'analytics', database: 'DB', signals: ['logs'] })).toThrowError(
+			'Destination "stats" is an analytics destination, which only stores traces'
+		);
+	});
+});
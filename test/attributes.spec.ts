@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import { convertAttributeValue, convertToOtelFormat, limitAttributes, OtlpAnyValue } from '../src/exporters/otlp-json';
+import { encodeTraces } from '../src/exporters/otlp-protobuf';
+import { spans } from './fixtures/exporters/spans';
+
+const RUNS = 300;
+
+// mulberry32, so a failing run can be reproduced from its seed
+function random(seed: number): () => number {
+	return () => {
+		seed = (seed + 0x6d2b79f5) | 0;
+		let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function pick<T>(next: () => number, items: readonly T[]): T {
+	return items[Math.floor(next() * items.length)];
+}
+
+function arbitraryString(next: () => number): string {
+	const alphabet = ['a', 'Z', '0', ' ', '"', '\\', '\n', 'é', '日', '😀', '\u0000'];
+	return Array.from({ length: Math.floor(next() * 12) }, () => pick(next, alphabet)).join('');
+}
+
+// Any value an attribute can hold in the converter: what the runtime reports, and what the tail worker adds
+function arbitraryValue(next: () => number, depth = 0): unknown {
+	const kinds = ['string', 'boolean', 'int', 'double', 'special', 'bigint', 'null', 'date', 'bytes', 'typed'] as const;
+	const kind = depth < 3 && next() < 0.3 ? pick(next, ['array', 'object', 'map', 'mixed'] as const) : pick(next, kinds);
+	switch (kind) {
+		case 'string':
+			return arbitraryString(next);
+		case 'boolean':
+			return next() < 0.5;
+		case 'int':
+			return Math.floor((next() - 0.5) * 2 ** (next() * 60));
+		case 'double':
+			return (next() - 0.5) * 10 ** Math.floor(next() * 40 - 20);
+		case 'special':
+			return pick(next, [NaN, Infinity, -Infinity, -0, Number.MAX_VALUE, Number.MIN_VALUE]);
+		case 'bigint':
+			return BigInt.asIntN(Math.floor(next() * 80) + 1, BigInt(Math.floor(next() * 2 ** 53)) * BigInt(Math.floor(next() * 2 ** 30)));
+		case 'null':
+			return next() < 0.5 ? null : undefined;
+		case 'date':
+			return new Date(Math.floor(next() * 4e12));
+		case 'bytes':
+			return Uint8Array.from({ length: Math.floor(next() * 8) }, () => Math.floor(next() * 256));
+		case 'typed':
+			return pick(next, [Int32Array.of(-1, 2), Float64Array.of(0.5, 2), BigInt64Array.of(-(2n ** 63n), 5n)]);
+		case 'array':
+			return Array.from({ length: Math.floor(next() * 4) }, () => arbitraryValue(next, depth + 1));
+		case 'mixed':
+			return [arbitraryString(next), Math.floor(next() * 100), next() < 0.5];
+		case 'object':
+			return Object.fromEntries(
+				Array.from({ length: Math.floor(next() * 4) }, () => [arbitraryString(next), arbitraryValue(next, depth + 1)])
+			);
+		case 'map':
+			return new Map([[arbitraryString(next), arbitraryValue(next, depth + 1)]]);
+	}
+}
+
+/**
+ * Asserts that `value` is an AnyValue as the OTLP/JSON encoding has it: at
+ * most one field, 64-bit integers as decimal strings, non-finite doubles as
+ * strings, bytes as base64, and arrays whose items all have the same kind.
+ */
+function expectAnyValue(value: OtlpAnyValue, path = 'value') {
+	const keys = Object.keys(value);
+	expect(keys.length, path).toBeLessThanOrEqual(1);
+	if ('stringValue' in value) {
+		expect(typeof value.stringValue, path).toBe('string');
+	} else if ('boolValue' in value) {
+		expect(typeof value.boolValue, path).toBe('boolean');
+	} else if ('intValue' in value) {
+		expect(value.intValue, path).toMatch(/^-?(0|[1-9]\d*)$/);
+		expect(BigInt.asIntN(64, BigInt(value.intValue)), path).toBe(BigInt(value.intValue));
+	} else if ('doubleValue' in value) {
+		const double = value.doubleValue;
+		expect(typeof double === 'number' ? Number.isFinite(double) : ['NaN', 'Infinity', '-Infinity'].includes(double), path).toBe(true);
+	} else if ('bytesValue' in value) {
+		expect(value.bytesValue, path).toMatch(/^[A-Za-z0-9+/]*={0,2}$/);
+	} else if ('arrayValue' in value) {
+		const items = value.arrayValue.values;
+		expect(new Set(items.flatMap(item => Object.keys(item))).size, `${path} is homogeneous`).toBeLessThanOrEqual(1);
+		items.forEach((item, index) => expectAnyValue(item, `${path}[${index}]`));
+	} else if ('kvlistValue' in value) {
+		for (const { key, value: item } of value.kvlistValue.values) {
+			expect(typeof key, path).toBe('string');
+			expectAnyValue(item, `${path}.${key}`);
+		}
+	} else {
+		expect(keys, path).toEqual([]);
+	}
+}
+
+function strings(value: OtlpAnyValue): string[] {
+	if ('stringValue' in value) return [value.stringValue];
+	if ('arrayValue' in value) return value.arrayValue.values.flatMap(strings);
+	if ('kvlistValue' in value) return value.kvlistValue.values.flatMap(({ value }) => strings(value));
+	return [];
+}
+
+describe('attribute encoding', () => {
+	it('encodes any value as a valid AnyValue that survives JSON', () => {
+		for (let seed = 0; seed < RUNS; seed++) {
+			const next = random(seed);
+			const encoded = convertAttributeValue(arbitraryValue(next));
+
+			expectAnyValue(encoded, `seed ${seed}`);
+			expect(JSON.parse(JSON.stringify(encoded)), `seed ${seed}`).toEqual(encoded);
+		}
+	});
+
+	it('keeps numbers exact: int64 as intValue, everything else as doubleValue', () => {
+		for (let seed = 0; seed < RUNS; seed++) {
+			const next = random(seed);
+			const int = BigInt.asIntN(64, BigInt(Math.floor(next() * 2 ** 53)) ** 2n * (next() < 0.5 ? -1n : 1n));
+			const double = (next() - 0.5) * 10 ** Math.floor(next() * 40);
+
+			expect(convertAttributeValue(int)).toEqual({ intValue: int.toString() });
+			const encoded = convertAttributeValue(double);
+			if (Number.isSafeInteger(double)) {
+				expect(encoded).toEqual({ intValue: String(double + 0) });
+			} else {
+				expect(encoded).toEqual({ doubleValue: double });
+			}
+		}
+
+		expect(convertAttributeValue(2n ** 63n)).toEqual({ stringValue: '9223372036854775808' });
+		expect(convertAttributeValue(-(2n ** 63n))).toEqual({ intValue: '-9223372036854775808' });
+		expect(convertAttributeValue(2 ** 60)).toEqual({ doubleValue: 2 ** 60 });
+		expect(convertAttributeValue(-0)).toEqual({ intValue: '0' });
+		expect([NaN, Infinity, -Infinity].map(value => convertAttributeValue(value))).toEqual([
+			{ doubleValue: 'NaN' },
+			{ doubleValue: 'Infinity' },
+			{ doubleValue: '-Infinity' }
+		]);
+	});
+
+	it('encodes binary as base64 bytesValue', () => {
+		for (let seed = 0; seed < RUNS; seed++) {
+			const next = random(seed);
+			const bytes = Uint8Array.from({ length: Math.floor(next() * 64) }, () => Math.floor(next() * 256));
+			const encoded = convertAttributeValue(seed % 2 ? bytes : bytes.buffer);
+
+			expect('bytesValue' in encoded && Uint8Array.from(atob(encoded.bytesValue), char => char.charCodeAt(0))).toEqual(bytes);
+		}
+
+		const view = new Uint8Array([0, 1, 2, 3]).subarray(1, 3);
+		expect(convertAttributeValue(view)).toEqual({ bytesValue: btoa('\x01\x02') });
+	});
+
+	it('encodes nested values as homogeneous arrays and kvlists', () => {
+		expect(convertAttributeValue({ method: 'GET', retries: [1, 2.5], headers: new Map([['accept', '*/*']]), skipped: undefined })).toEqual({
+			kvlistValue: {
+				values: [
+					{ key: 'method', value: { stringValue: 'GET' } },
+					{ key: 'retries', value: { arrayValue: { values: [{ doubleValue: 1 }, { doubleValue: 2.5 }] } } },
+					{ key: 'headers', value: { kvlistValue: { values: [{ key: 'accept', value: { stringValue: '*/*' } }] } } }
+				]
+			}
+		});
+		expect(convertAttributeValue(['a', 1, true, null, { b: [2n] }])).toEqual({
+			arrayValue: {
+				values: [{ stringValue: 'a' }, { stringValue: '1' }, { stringValue: 'true' }, {}, { stringValue: '{"b":[2]}' }]
+			}
+		});
+		expect(convertAttributeValue(BigInt64Array.of(-1n, 2n))).toEqual({ arrayValue: { values: [{ intValue: '-1' }, { intValue: '2' }] } });
+
+		const cyclic: Record<string, unknown> = { name: 'loop' };
+		cyclic.self = cyclic;
+		expect(convertAttributeValue(cyclic)).toEqual({
+			kvlistValue: { values: [{ key: 'name', value: { stringValue: 'loop' } }, { key: 'self', value: { stringValue: '[Circular]' } }] }
+		});
+	});
+
+	it('keeps at most the count limit of attributes, and strings at most the length limit', () => {
+		for (let seed = 0; seed < RUNS; seed++) {
+			const next = random(seed);
+			const attributes = Object.fromEntries(Array.from({ length: Math.floor(next() * 20) }, (_, i) => [`key.${i}`, arbitraryValue(next)]));
+			const present = Object.values(attributes).filter(value => value !== undefined && value !== null).length;
+			const limits = { count: Math.floor(next() * 20), valueLength: Math.floor(next() * 10) };
+
+			const limited = limitAttributes(attributes, limits);
+			expect(limited.attributes).toHaveLength(Math.min(present, limits.count));
+			expect(limited.attributes.length + (limited.droppedAttributesCount ?? 0)).toBe(present);
+			for (const { value } of limited.attributes) {
+				for (const string of strings(value)) {
+					expect(Array.from(string).length).toBeLessThanOrEqual(limits.valueLength);
+				}
+			}
+		}
+	});
+
+	it('reports dropped attributes in both OTLP encodings', () => {
+		const [span] = spans;
+		const many = { ...span, tags: Object.fromEntries(Array.from({ length: 130 }, (_, i) => [`key.${i}`, i])) };
+
+		const [encoded] = convertToOtelFormat([many]).resourceSpans[0].scopeSpans[0].spans;
+		expect(encoded.attributes).toHaveLength(128);
+		expect(encoded.droppedAttributesCount).toBe(2);
+
+		// dropped_attributes_count is field 10 of Span, a varint
+		const hex = Array.from(encodeTraces(convertToOtelFormat([many])), byte => byte.toString(16).padStart(2, '0')).join('');
+		expect(hex).toContain('5002');
+		// bytes_value is field 7 of AnyValue, and kvlist_value field 6
+		const nested = { ...span, tags: { 'payload.bytes': Uint8Array.of(1, 2, 3), 'payload.fields': { a: true } } };
+		const nestedHex = Array.from(encodeTraces(convertToOtelFormat([nested])), byte => byte.toString(16).padStart(2, '0')).join('');
+		expect(nestedHex).toContain('3a03010203');
+		expect(nestedHex).toContain('3209');
+	});
+});
@@ -0,0 +1,177 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Batcher } from '../src/batcher';
+import { loadConfig, parseDestinationConfigs, parseExportDefaults } from '../src/config';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { OtlpTraces } from '../src/exporters/otlp-json';
+import { fakeReceiver, fetchOnset, outcome, ROOT_SPAN_ID, tailEvent } from './helpers';
+
+// The test environment sends every invocation on its own, uncompressed; these tests put the defaults back
+const defaultEnv: Env = {
+	...env,
+	OTEL_DESTINATIONS: undefined,
+	OTEL_BSP_MAX_EXPORT_BATCH_SIZE: undefined,
+	OTEL_BSP_SCHEDULE_DELAY: undefined,
+	OTEL_EXPORTER_OTLP_COMPRESSION: undefined
+};
+
+function runInvocation(converter: CloudflareToOtelConverter, invocationId: string) {
+	converter.handleEvent(tailEvent(fetchOnset(), { invocationId }));
+	converter.handleEvent(tailEvent(outcome('ok'), { invocationId, spanId: ROOT_SPAN_ID, at: 10 }));
+}
+
+function sentHeaders(call: number): Headers {
+	const [input, init] = vi.mocked(globalThis.fetch).mock.calls[call];
+	return new Request(input, init).headers;
+}
+
+describe('Batcher', () => {
+	it('sends once enough spans are waiting, from the add that filled the batch', async () => {
+		const send = vi.fn(async (_items: number[]) => {});
+		const batcher = new Batcher(send, item => item, { maxSpans: 5, maxDelayMs: 50 });
+
+		const first = batcher.add(2);
+		await batcher.add(3);
+		expect(send.mock.calls).toEqual([[[2, 3]]]);
+
+		const third = batcher.add(1);
+		// Neither starts nor fills a batch, so there is nothing for it to wait for
+		await batcher.add(1);
+		expect(batcher.size).toBe(2);
+		await batcher.flush();
+		expect(send.mock.calls).toEqual([[[2, 3]], [[1, 1]]]);
+
+		// The adds that started each batch wait out the delay, then find it already sent
+		await Promise.all([first, third]);
+		expect(send).toHaveBeenCalledTimes(2);
+	});
+
+	it('sends after the delay from the add that started the batch', async () => {
+		const send = vi.fn(() => Promise.reject(new Error('collector down')));
+		const batcher = new Batcher(send, () => 1, { maxSpans: 100, maxDelayMs: 10 });
+
+		const added = batcher.add('span');
+		await expect(batcher.add('another')).resolves.toBeUndefined();
+		expect(send).not.toHaveBeenCalled();
+		await expect(added).rejects.toThrowError('collector down');
+		expect(send).toHaveBeenCalledWith(['span', 'another']);
+		await batcher.flush();
+		expect(send).toHaveBeenCalledOnce();
+	});
+});
+
+describe('batched exports', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('sends invocations together in one gzipped request', async () => {
+		const { requests } = fakeReceiver();
+		const converter = new CloudflareToOtelConverter(createDestinations(loadConfig(defaultEnv)));
+
+		runInvocation(converter, 'invocation-1');
+		runInvocation(converter, 'invocation-2');
+		runInvocation(converter, 'invocation-3');
+		await converter.flush();
+		expect(requests).toHaveLength(1);
+		expect(sentHeaders(0).get('content-encoding')).toBe('gzip');
+		const spans = (requests[0].body as OtlpTraces).resourceSpans.flatMap(({ scopeSpans }) => scopeSpans.flatMap(({ spans }) => spans));
+		expect(spans).toHaveLength(3);
+	});
+
+	it('sends as soon as a batch is full, and after maxDelayMs otherwise', async () => {
+		const { requests } = fakeReceiver();
+		const [destination] = createDestinations(
+			loadConfig({
+				...defaultEnv,
+				OTEL_DESTINATIONS: [{ name: 'collector', compression: 'none', batch: { maxSpans: 2, maxDelayMs: 500 } }]
+			})
+		);
+		const converter = new CloudflareToOtelConverter([destination]);
+
+		runInvocation(converter, 'invocation-1');
+		runInvocation(converter, 'invocation-2');
+		runInvocation(converter, 'invocation-3');
+		await vi.waitFor(() => expect(requests).toHaveLength(1));
+		expect(sentHeaders(0).has('content-encoding')).toBe(false);
+
+		// The third invocation's export resolves once its batch times out
+		await converter.settled();
+		expect(requests).toHaveLength(2);
+	});
+
+	it('waits for each batch in the context of the invocation that sends it, gzipped', async () => {
+		const { requests } = fakeReceiver();
+		const converter = new CloudflareToOtelConverter(
+			createDestinations(loadConfig({ ...defaultEnv, OTEL_BSP_MAX_EXPORT_BATCH_SIZE: '2', OTEL_BSP_SCHEDULE_DELAY: '50' }))
+		);
+
+		// Each invocation's tail stream hands what its events started to its own waitUntil, as the worker does
+		const contexts = ['invocation-1', 'invocation-2', 'invocation-3'].map(invocationId => {
+			const ctx = createExecutionContext();
+			ctx.waitUntil(converter.handleEvent(tailEvent(fetchOnset(), { invocationId })));
+			ctx.waitUntil(converter.handleEvent(tailEvent(outcome('ok'), { invocationId, spanId: ROOT_SPAN_ID, at: 10 })));
+			return ctx;
+		});
+
+		// The second invocation filled the first batch, so it sent it
+		await waitOnExecutionContext(contexts[1]);
+		expect(requests).toHaveLength(1);
+		// The third started the next one, so it waits out the delay and sends that
+		await waitOnExecutionContext(contexts[2]);
+		expect(requests).toHaveLength(2);
+		// The first one's delay runs out with its batch long gone
+		await waitOnExecutionContext(contexts[0]);
+		expect(requests).toHaveLength(2);
+
+		const spanCounts = requests.map(request =>
+			(request.body as OtlpTraces).resourceSpans.flatMap(({ scopeSpans }) => scopeSpans.flatMap(({ spans }) => spans)).length
+		);
+		expect(spanCounts).toEqual([2, 1]);
+		expect([sentHeaders(0).get('content-encoding'), sentHeaders(1).get('content-encoding')]).toEqual(['gzip', 'gzip']);
+	});
+
+	it('sends each invocation on its own with batch: false, and jaeger-thrift uncompressed', async () => {
+		const { requests } = fakeReceiver();
+		const converter = new CloudflareToOtelConverter(
+			createDestinations(
+				loadConfig({
+					...defaultEnv,
+					OTEL_DESTINATIONS: [
+						{ name: 'unbatched', batch: false },
+						{ name: 'jaeger', endpoint: 'http://localhost:14268/api/traces', exporter: 'jaeger-thrift', batch: false }
+					]
+				})
+			)
+		);
+
+		runInvocation(converter, 'invocation-1');
+		runInvocation(converter, 'invocation-2');
+		await converter.settled();
+
+		expect(requests).toHaveLength(4);
+		const encodings = requests.map((request, i) => [request.url, sentHeaders(i).get('content-encoding')]);
+		expect(encodings.filter(([url]) => url === 'http://localhost:14268/api/traces')).toEqual([
+			['http://localhost:14268/api/traces', null],
+			['http://localhost:14268/api/traces', null]
+		]);
+		expect(encodings.filter(([url]) => url === 'http://localhost:4318/v1/traces').map(([, encoding]) => encoding)).toEqual(['gzip', 'gzip']);
+	});
+
+	it.each([
+		[{ OTEL_DESTINATIONS: [{ name: 'local', type: 'console', batch: { maxSpans: 10 } }] }, 'only http destinations batch'],
+		[{ OTEL_DESTINATIONS: [{ name: 'a', batch: { maxSpans: 0 } }] }, 'batch maxSpans must be a positive integer, got 0'],
+		[{ OTEL_DESTINATIONS: [{ name: 'a', compression: 'br' }] }, 'unknown compression "br"']
+	])('rejects %j', (vars, message) => {
+		expect(() => parseDestinationConfigs({ ...defaultEnv, ...vars } as Env)).toThrowError(message);
+	});
+
+	it.each([
+		[{ OTEL_EXPORTER_OTLP_COMPRESSION: 'deflate' }, 'OTEL_EXPORTER_OTLP_COMPRESSION must be gzip or none, got "deflate"'],
+		[{ OTEL_BSP_MAX_EXPORT_BATCH_SIZE: '0' }, 'OTEL_BSP_MAX_EXPORT_BATCH_SIZE must be a positive integer, got "0"'],
+		[{ OTEL_BSP_SCHEDULE_DELAY: 'soon' }, 'OTEL_BSP_SCHEDULE_DELAY must be a non-negative number of milliseconds, got "soon"']
+	])('rejects the default %j', (vars, message) => {
+		expect(() => parseExportDefaults({ ...defaultEnv, ...vars })).toThrowError(message);
+	});
+});
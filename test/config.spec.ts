@@ -0,0 +1,218 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { loadConfig, parseKeyValues } from '../src/config';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { OtlpTraces } from '../src/exporters/otlp-json';
+import { DEFAULT_REDACTION } from '../src/redaction';
+import { fakeReceiver, fetchOnset, outcome, ROOT_SPAN_ID, tailEvent } from './helpers';
+
+function load(vars: Partial<Env>) {
+	return loadConfig({ ...env, ...vars });
+}
+
+describe('config', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('defaults to the OTEL_ENDPOINT destination and everything else off', () => {
+		const endpoint = 'http://localhost:4318/v1/traces';
+		expect(load({})).toEqual({
+			destinations: [
+				{ name: 'default', endpoint, exporter: undefined, endpoints: { traces: endpoint, logs: endpoint, metrics: endpoint } }
+			],
+			// The test environment's OTEL_BSP_MAX_EXPORT_BATCH_SIZE and OTEL_EXPORTER_OTLP_COMPRESSION
+			exportDefaults: { batch: { maxSpans: 1, maxDelayMs: 1000 }, compression: 'none', attributeLimits: { count: 128 } },
+			sampling: {},
+			redaction: DEFAULT_REDACTION,
+			redactionHashKey: undefined,
+			alerts: undefined,
+			capturedHeaders: ['accept', 'accept-encoding', 'content-type', 'content-length', 'cf-ray', 'x-request-id'],
+			resourceAttributes: {},
+			limits: {},
+			liveFeed: false,
+			recordTailEvents: false,
+			viewerToken: undefined,
+			development: true,
+			sourceMaps: undefined,
+			deadLetters: env.OTEL_DEAD_LETTER
+		});
+	});
+
+	it('reads unset vars from OTEL_CONFIG, with the vars themselves taking precedence', () => {
+		const config = load({
+			OTEL_CONFIG: JSON.stringify({
+				endpoint: 'https://collector.example.com/v1/traces',
+				exporter: 'otlp-proto',
+				signals: ['traces', 'logs'],
+				sampling: { ratio: 0.5 },
+				captureRequestHeaders: ['cf-ray'],
+				liveFeed: true
+			}),
+			OTEL_ENDPOINT: undefined,
+			OTEL_EXPORTER: 'otlp-json'
+		});
+
+		expect(config.destinations).toEqual([
+			{
+				name: 'default',
+				endpoint: 'https://collector.example.com/v1/traces',
+				exporter: 'otlp-json',
+				signals: ['traces', 'logs'],
+				endpoints: {
+					traces: 'https://collector.example.com/v1/traces',
+					logs: 'https://collector.example.com/v1/logs',
+					metrics: 'https://collector.example.com/v1/traces'
+				}
+			}
+		]);
+		expect(config.sampling).toEqual({ ratio: 0.5 });
+		expect(config.capturedHeaders).toEqual(['cf-ray']);
+		expect(config.liveFeed).toBe(true);
+	});
+
+	it('sends OTEL_EXPORTER_OTLP_HEADERS to http destinations, under their own headers', () => {
+		const config = load({
+			OTEL_EXPORTER_OTLP_HEADERS: 'Authorization=Bearer%20t0ken, x-tenant=acme',
+			OTEL_DESTINATIONS: [
+				{ name: 'honeycomb', endpoint: 'https://api.honeycomb.io/v1/traces', headers: { 'x-tenant': 'globex' } },
+				{ name: 'local', type: 'console' }
+			]
+		});
+
+		expect(config.destinations.map(destination => destination.headers)).toEqual([
+			{ Authorization: 'Bearer t0ken', 'x-tenant': 'globex' },
+			undefined
+		]);
+	});
+
+	it('batches and compresses exports as OTEL_CONFIG says', async () => {
+		const { requests } = fakeReceiver();
+		const config = load({
+			OTEL_CONFIG: { batchSize: 3, batchDelayMs: 50, compression: 'gzip' },
+			OTEL_BSP_MAX_EXPORT_BATCH_SIZE: undefined,
+			OTEL_EXPORTER_OTLP_COMPRESSION: undefined
+		});
+		const converter = new CloudflareToOtelConverter(createDestinations(config));
+
+		for (const invocationId of ['invocation-1', 'invocation-2', 'invocation-3']) {
+			converter.handleEvent(tailEvent(fetchOnset(), { invocationId }));
+			converter.handleEvent(tailEvent(outcome('ok'), { invocationId, spanId: ROOT_SPAN_ID, at: 10 }));
+		}
+		await converter.settled();
+
+		expect(config.exportDefaults).toMatchObject({ batch: { maxSpans: 3, maxDelayMs: 50 }, compression: 'gzip' });
+		// One full batch, where the test environment's own settings would send three uncompressed requests
+		expect(requests).toHaveLength(1);
+		const [, init] = vi.mocked(globalThis.fetch).mock.calls[0];
+		expect(new Headers(init?.headers).get('content-encoding')).toBe('gzip');
+		const { resourceSpans } = requests[0].body as OtlpTraces;
+		expect(resourceSpans.flatMap(({ scopeSpans }) => scopeSpans.flatMap(({ spans }) => spans))).toHaveLength(3);
+	});
+
+	it('limits attributes as OTEL_CONFIG says', async () => {
+		const { requests } = fakeReceiver();
+		const config = load({ OTEL_CONFIG: { attributeCountLimit: 2, attributeValueLengthLimit: 4 } });
+		const converter = new CloudflareToOtelConverter(createDestinations(config));
+
+		converter.handleEvent(tailEvent(fetchOnset(), {}));
+		converter.handleEvent(tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, at: 10 }));
+		await converter.flush();
+
+		const [span] = (requests[0].body as OtlpTraces).resourceSpans[0].scopeSpans[0].spans;
+		expect(span.attributes).toEqual([
+			{ key: 'execution.model', value: { stringValue: 'stat' } },
+			{ key: 'http.request.method', value: { stringValue: 'GET' } }
+		]);
+		expect(span.droppedAttributesCount).toBeGreaterThan(0);
+	});
+
+	it('sets the configured resource attributes on every span', async () => {
+		const { requests } = fakeReceiver();
+		const config = load({ OTEL_RESOURCE_ATTRIBUTES: 'deployment.environment=staging,service.name=ignored', OTEL_SERVICE_NAME: 'edge' });
+		const converter = new CloudflareToOtelConverter(createDestinations(config), {
+			resourceAttributes: config.resourceAttributes
+		});
+
+		converter.handleEvent(tailEvent(fetchOnset(), {}));
+		converter.handleEvent(tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, at: 10 }));
+		await converter.flush();
+
+		const [{ resource }] = (requests[0].body as OtlpTraces).resourceSpans;
+		expect(Object.fromEntries(resource.attributes.map(({ key, value }) => [key, value]))).toMatchObject({
+			'service.name': { stringValue: 'edge' },
+			'deployment.environment': { stringValue: 'staging' },
+			'cloud.provider': { stringValue: 'cloudflare' }
+		});
+	});
+
+	it('lists every problem at once', () => {
+		expect(() =>
+			load({
+				OTEL_SAMPLING: { ratio: 2 },
+				OTEL_LIMITS: '{"maxSpansPerInvocation": 0, "maxEvents": 10}',
+				OTEL_LIVE_FEED: 'yes',
+				OTEL_RESOURCE_ATTRIBUTES: 'deployment.environment'
+			})
+		).toThrowError(
+			[
+				'Invalid tail worker configuration:',
+				'- OTEL_SAMPLING ratio must be a number between 0 and 1, got 2',
+				'- OTEL_RESOURCE_ATTRIBUTES must be a comma separated list of key=value pairs, got "deployment.environment"',
+				'- OTEL_LIMITS maxSpansPerInvocation must be a positive integer, got 0',
+				'- OTEL_LIVE_FEED must be "true" or "false", got "yes"'
+			].join('\n')
+		);
+		expect(() => load({ OTEL_CONFIG: { endpoint: 'https://collector.example.com', sample: {} } })).toThrowError(
+			/^Invalid tail worker configuration:\n- OTEL_CONFIG has unknown key "sample", expected one of: endpoint, /
+		);
+		expect(() => load({ OTEL_CONFIG: { liveFeed: 1 } })).toThrowError(
+			'Invalid tail worker configuration:\n- OTEL_CONFIG liveFeed must be a boolean, got 1'
+		);
+	});
+
+	it('looks up the bindings and secrets it names, listing every one that is missing', () => {
+		const config = load({
+			OTEL_DESTINATIONS: [
+				{ name: 'archive', type: 'r2', bucket: 'UPLOADS' },
+				{ name: 'viewer', type: 'viewer', database: 'DB' },
+				{ name: 'honeycomb', endpoint: 'https://api.honeycomb.io/v1/traces', auth: { type: 'bearer', credentialsSecret: 'API_SECRET' } }
+			],
+			OTEL_SOURCE_MAPS: 'ASSETS'
+		});
+		expect(config.destinations[0].r2Bucket).toBe(env.UPLOADS);
+		expect(config.destinations[1].d1Database).toBe(env.DB);
+		expect(config.destinations[2].headers).toEqual({ Authorization: 'Bearer demo-secret-key' });
+		expect(config.sourceMaps).toBe(env.ASSETS);
+
+		expect(() =>
+			load({
+				OTEL_DESTINATIONS: [
+					{ name: 'archive', type: 'r2', bucket: 'ARCHIVE' },
+					{ name: 'viewer', type: 'viewer', database: 'TRACES_DB' },
+					{ name: 'honeycomb', auth: { type: 'bearer', credentialsSecret: 'HONEYCOMB_KEY' } }
+				],
+				OTEL_REDACTION: { hashIps: true, hashKeySecret: 'IP_HASH_KEY' },
+				OTEL_SOURCE_MAPS: 'MAPS'
+			})
+		).toThrowError(
+			[
+				'Invalid tail worker configuration:',
+				'- Destination "archive" uses R2 bucket binding "ARCHIVE", which is not bound',
+				'- Destination "viewer" uses D1 database binding "TRACES_DB", which is not bound',
+				'- Destination "honeycomb" has bearer auth configured but no credentials',
+				'- OTEL_REDACTION hashKeySecret "IP_HASH_KEY" is not set',
+				'- OTEL_SOURCE_MAPS uses R2 bucket binding "MAPS", which is not bound'
+			].join('\n')
+		);
+	});
+
+	it('parses key=value lists', () => {
+		expect(parseKeyValues('OTEL_EXPORTER_OTLP_HEADERS', 'a=1,b=x%3Dy,,c=')).toEqual({ a: '1', b: 'x=y', c: '' });
+		expect(parseKeyValues('OTEL_EXPORTER_OTLP_HEADERS', { a: '1' })).toEqual({ a: '1' });
+		expect(() => parseKeyValues('OTEL_EXPORTER_OTLP_HEADERS', 'a=%E0%A4%A')).toThrowError(
+			'OTEL_EXPORTER_OTLP_HEADERS "a" has a badly percent-encoded value'
+		);
+	});
+});
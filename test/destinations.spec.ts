@@ -0,0 +1,173 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { loadConfig, parseDestinationConfigs } from '../src/config';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { fetchOnset, outcome, ROOT_SPAN_ID, tailEvent } from './helpers';
+
+function withDestinations(destinations: unknown): Env {
+	return { ...env, OTEL_DESTINATIONS: typeof destinations === 'string' ? destinations : JSON.stringify(destinations) };
+}
+
+function runInvocation(converter: CloudflareToOtelConverter, onset: TailStream.Onset, result: TailStream.EventOutcome) {
+	converter.handleEvent(tailEvent(onset));
+	converter.handleEvent(tailEvent(outcome(result), { spanId: ROOT_SPAN_ID, at: 10 }));
+}
+
+describe('parseDestinationConfigs', () => {
+	it('falls back to a single destination from OTEL_ENDPOINT and OTEL_EXPORTER', () => {
+		expect(parseDestinationConfigs({ ...env, OTEL_DESTINATIONS: undefined, OTEL_EXPORTER: 'zipkin' })).toEqual([
+			{ name: 'default', endpoint: 'http://localhost:4318/v1/traces', exporter: 'zipkin' }
+		]);
+	});
+
+	it('accepts structured vars as well as JSON strings', () => {
+		const destinations = [{ name: 'jaeger' }];
+		expect(parseDestinationConfigs({ ...env, OTEL_DESTINATIONS: destinations })).toEqual(destinations);
+		expect(parseDestinationConfigs(withDestinations(destinations))).toEqual(destinations);
+	});
+
+	it.each([
+		['not json', 'OTEL_DESTINATIONS is not valid JSON'],
+		[[], 'OTEL_DESTINATIONS must be a non-empty array of destinations'],
+		[[{ endpoint: 'http://a' }], 'OTEL_DESTINATIONS[0] must be an object with a "name"'],
+		[[{ name: 'a' }, { name: 'a' }], 'more than one destination named "a"'],
+		[[{ name: 'a', type: 'kafka' }], 'unknown type "kafka"'],
+		[[{ name: 'a', type: 'r2' }], 'is an r2 destination but has no "bucket"'],
+		[[{ name: 'a', filter: { minOutcome: 'bad' } }], 'unknown minOutcome "bad"'],
+		[[{ name: 'a', signals: ['profiles'] }], 'unknown signal "profiles"'],
+		[[{ name: 'a', exporter: 'zipkin', signals: ['traces', 'logs'] }], 'exports logs, which the zipkin exporter cannot carry']
+	])('rejects %j', (destinations, message) => {
+		expect(() => parseDestinationConfigs(withDestinations(destinations))).toThrowError(message);
+	});
+});
+
+describe('destinations', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('filters invocations by outcome, script name and event type', () => {
+		const [errors, workers, queues] = createDestinations(
+			loadConfig(
+				withDestinations([
+					{ name: 'errors', filter: { minOutcome: 'exception' } },
+					{ name: 'workers', filter: { scriptName: ['stw-*', 'auth'] } },
+					{ name: 'queues', filter: { eventTypes: ['queue', 'scheduled'] } }
+				])
+			)
+		);
+
+		expect(errors.accepts({ outcome: 'ok' })).toBe(false);
+		expect(errors.accepts({ outcome: 'canceled' })).toBe(false);
+		expect(errors.accepts({ outcome: 'exception' })).toBe(true);
+		expect(errors.accepts({ outcome: 'exceededCpu' })).toBe(true);
+
+		expect(workers.accepts({ scriptName: 'stw-local-dev' })).toBe(true);
+		expect(workers.accepts({ scriptName: 'auth' })).toBe(true);
+		expect(workers.accepts({ scriptName: 'authz' })).toBe(false);
+		expect(workers.accepts({})).toBe(false);
+
+		expect(queues.accepts({ eventType: 'queue' })).toBe(true);
+		expect(queues.accepts({ eventType: 'fetch' })).toBe(false);
+	});
+
+	it('sends per-destination headers and auth', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = new CloudflareToOtelConverter(
+			createDestinations(
+				loadConfig(
+					withDestinations([
+						{
+							name: 'shared',
+							endpoint: 'http://shared.test/v1/traces',
+							headers: { 'X-Team': 'edge' },
+							auth: { type: 'bearer', credentials: 't0k3n' }
+						},
+						{ name: 'local', endpoint: 'http://local.test/v1/traces', auth: { type: 'basic', credentialsSecret: 'API_SECRET' } }
+					])
+				)
+			)
+		);
+
+		runInvocation(converter, fetchOnset(), 'ok');
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(2));
+		const headers = Object.fromEntries(fetchSpy.mock.calls.map(([url, init]) => [url, init?.headers]));
+		expect(headers['http://shared.test/v1/traces']).toEqual({
+			'X-Team': 'edge',
+			Authorization: 'Bearer t0k3n',
+			'Content-Type': 'application/json'
+		});
+		expect(headers['http://local.test/v1/traces']).toEqual({
+			Authorization: `Basic ${btoa('demo-secret-key')}`,
+			'Content-Type': 'application/json'
+		});
+	});
+
+	it('exports logs and metrics to their OTLP endpoints', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = new CloudflareToOtelConverter(
+			createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined, OTEL_SIGNALS: 'traces, logs, metrics' }))
+		);
+
+		converter.handleEvent(tailEvent(fetchOnset()));
+		converter.handleEvent(tailEvent({ type: 'log', level: 'warn', message: ['slow KV read'] }, { spanId: ROOT_SPAN_ID, at: 5 }));
+		converter.handleEvent(tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, at: 10 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(3));
+		const bodies = Object.fromEntries(fetchSpy.mock.calls.map(([url, init]) => [url, JSON.parse(init?.body as string)]));
+
+		expect(bodies['http://localhost:4318/v1/logs'].resourceLogs[0].scopeLogs[0].logRecords[0].body).toEqual({
+			stringValue: 'slow KV read'
+		});
+		expect(bodies['http://localhost:4318/v1/metrics'].resourceMetrics[0].scopeMetrics[0].metrics).toHaveLength(4);
+		// The log went to /v1/logs, so it isn't repeated as a span event
+		expect(bodies['http://localhost:4318/v1/traces'].resourceSpans[0].scopeSpans[0].spans[0].events).toEqual([]);
+	});
+
+	it('requires explicit logs and metrics endpoints for non-standard collector paths', () => {
+		expect(() => loadConfig(withDestinations([{ name: 'a', endpoint: 'http://collector/traces', signals: ['metrics'] }]))).toThrowError(
+			`Destination "a" exports metrics but its endpoint doesn't end in /v1/traces, set "metricsEndpoint"`
+		);
+	});
+
+	it('does not let a hanging destination block the others', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+			if (String(input).startsWith('http://slow.test')) {
+				return new Promise<Response>(() => {});
+			}
+			return new Response(null, { status: 200 });
+		});
+		const converter = new CloudflareToOtelConverter(
+			createDestinations(
+				loadConfig(
+					withDestinations([
+						{ name: 'slow', endpoint: 'http://slow.test/v1/traces' },
+						{ name: 'fast', endpoint: 'http://fast.test/api/v2/spans', exporter: 'zipkin' }
+					])
+				)
+			)
+		);
+
+		runInvocation(converter, fetchOnset(), 'ok');
+
+		await vi.waitFor(() => expect(fetchSpy.mock.calls.map(([url]) => url)).toContain('http://fast.test/api/v2/spans'));
+	});
+
+	it('writes exports to an R2 bucket', async () => {
+		const converter = new CloudflareToOtelConverter(
+			createDestinations(
+				loadConfig(withDestinations([{ name: 'ci', type: 'r2', bucket: 'UPLOADS', prefix: 'ci-traces/', exporter: 'otlp-proto' }]))
+			)
+		);
+
+		runInvocation(converter, fetchOnset(), 'exception');
+
+		await vi.waitFor(async () => {
+			const { objects } = await env.UPLOADS.list({ prefix: 'ci-traces/' });
+			expect(objects).toHaveLength(1);
+			expect(objects[0].key).toBe(`ci-traces/2025-10-09/4bf92f3577b34da6a3ce929d0e0e4736-${ROOT_SPAN_ID}-0.bin`);
+		});
+	});
+});
@@ -0,0 +1,150 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { loadConfig } from '../src/config';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { createExceptionResolver, exceptionFingerprint, ExceptionResolver, parseStackTrace, StackFrame } from '../src/exceptions';
+import { SourceMap } from '../src/source-maps';
+import { fakeReceiver, fetchOnset, outcome, ROOT_SPAN_ID, tailEvent } from './helpers';
+
+const STACK = [
+	"TypeError: Cannot read properties of undefined (reading 'ip')",
+	'    at lookup (index.js:42:17)',
+	'    at async Object.fetch (index.js:43:3)',
+	'    at index.js:42:1',
+	'    at Array.map (<anonymous>)'
+].join('\n');
+
+// index.js line 42 comes from src/index.ts: column 1 from line 1, column 17 from `handleRequest` on line 10.
+// Line 43 goes back 3 lines to line 7. Written out as VLQ by hand, e.g. `gB` is 16 and `H` is -3.
+const SOURCE_MAP = JSON.stringify({
+	version: 3,
+	sources: ['../../src/index.ts'],
+	names: ['handleRequest'],
+	mappings: `${';'.repeat(41)}AAAA,gBASIA;AAHA`
+});
+
+interface ExportedEvent {
+	name: string;
+	attributes: Array<{ key: string; value: Record<string, unknown> }>;
+}
+
+function attributes(event: ExportedEvent): Record<string, unknown> {
+	return Object.fromEntries(event.attributes.map(({ key, value }) => [key, Object.values(value)[0]]));
+}
+
+// Runs a fetch invocation that throws the given stacks, and returns the root span's exported exception events
+async function exportExceptions(resolver: ExceptionResolver, stacks: string[], scriptVersion?: { id: string }) {
+	const { requests } = fakeReceiver();
+	const converter = new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })), {
+		exceptionResolver: resolver
+	});
+
+	converter.handleEvent(tailEvent(fetchOnset({ scriptVersion }), {}));
+	for (const [index, stack] of stacks.entries()) {
+		const [header] = stack.split('\n');
+		converter.handleEvent(
+			tailEvent({ type: 'exception', name: header.split(':')[0], message: header, stack }, { spanId: ROOT_SPAN_ID, at: index })
+		);
+	}
+	converter.handleEvent(tailEvent(outcome('exception'), { spanId: ROOT_SPAN_ID, at: 10 }));
+	await converter.flush();
+
+	const [span] = (requests[0].body as any).resourceSpans[0].scopeSpans[0].spans;
+	return (span.events as ExportedEvent[]).filter(event => event.name === 'exception').map(attributes);
+}
+
+describe('exceptions', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('parses V8 stack traces into frames', () => {
+		expect(parseStackTrace(STACK)).toEqual({
+			header: "TypeError: Cannot read properties of undefined (reading 'ip')",
+			frames: [
+				{ function: 'lookup', file: 'index.js', line: 42, column: 17 },
+				{ function: 'Object.fetch', file: 'index.js', line: 43, column: 3, async: true },
+				{ file: 'index.js', line: 42, column: 1 },
+				{ function: 'Array.map', file: '<anonymous>' }
+			]
+		});
+	});
+
+	it('decodes source map positions', () => {
+		const map = new SourceMap(SOURCE_MAP);
+
+		expect(map.originalPosition(42, 17)).toEqual({ source: 'src/index.ts', line: 10, column: 5, name: 'handleRequest' });
+		expect(map.originalPosition(42, 30)).toEqual({ source: 'src/index.ts', line: 10, column: 5, name: 'handleRequest' });
+		expect(map.originalPosition(42, 1)).toEqual({ source: 'src/index.ts', line: 1, column: 1, name: undefined });
+		expect(map.originalPosition(43, 3)).toEqual({ source: 'src/index.ts', line: 7, column: 5, name: undefined });
+		expect(map.originalPosition(1, 1)).toBeUndefined();
+		expect(() => new SourceMap('{"version": 2}')).toThrowError('Only version 3 source maps with "mappings" are supported');
+	});
+
+	it('maps stack frames back to the sources with the worker source map', async () => {
+		await env.ASSETS.put('stw-local-dev/v2.js.map', SOURCE_MAP);
+		const resolver = createExceptionResolver(loadConfig({ ...env, OTEL_SOURCE_MAPS: 'ASSETS' }).sourceMaps);
+
+		const [exception] = await exportExceptions(resolver, [STACK], { id: 'v2' });
+		expect(exception).toEqual({
+			'exception.type': 'TypeError',
+			'exception.message': "TypeError: Cannot read properties of undefined (reading 'ip')",
+			'exception.stacktrace': [
+				"TypeError: Cannot read properties of undefined (reading 'ip')",
+				'    at handleRequest (src/index.ts:10:5)',
+				'    at async Object.fetch (src/index.ts:7:5)',
+				'    at src/index.ts:1:1',
+				'    at Array.map (<anonymous>)'
+			].join('\n'),
+			'code.function.name': 'handleRequest',
+			'code.file.path': 'src/index.ts',
+			'code.line.number': '10',
+			'code.column.number': '5',
+			'cloudflare.exception.fingerprint': expect.stringMatching(/^[0-9a-f]{16}$/)
+		});
+	});
+
+	it('leaves stack traces alone without a source map', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		await env.ASSETS.put('stw-local-dev.js.map', 'not a source map');
+
+		const { sourceMaps } = loadConfig({ ...env, OTEL_SOURCE_MAPS: 'ASSETS' });
+		const [withoutStore] = await exportExceptions(new ExceptionResolver(), [STACK]);
+		const [broken] = await exportExceptions(createExceptionResolver(sourceMaps), [STACK]);
+
+		for (const exception of [withoutStore, broken]) {
+			expect(exception['exception.stacktrace']).toBe(STACK);
+			expect(exception['code.file.path']).toBe('index.js');
+		}
+		expect(warn).toHaveBeenCalledWith('Failed to load the source map for stw-local-dev:', expect.any(SyntaxError));
+	});
+
+	it('folds repeats of an exception into the first one', async () => {
+		const other = STACK.replace('TypeError', 'RangeError');
+		const exceptions = await exportExceptions(new ExceptionResolver(), [STACK, other, STACK.replace('42:17', '80:2'), STACK]);
+
+		expect(exceptions.map(exception => [exception['exception.type'], exception['cloudflare.exception.count']])).toEqual([
+			['TypeError', '3'],
+			['RangeError', undefined]
+		]);
+	});
+
+	it('fingerprints by type and top frames, ignoring line numbers', async () => {
+		const frames = (file: string, line: number): StackFrame[] => [{ function: 'lookup', file, line, column: 1 }];
+		const fingerprint = await exceptionFingerprint('TypeError', 'user 1 is undefined', frames('src/index.ts', 10));
+
+		expect(await exceptionFingerprint('TypeError', 'user 2 is undefined', frames('src/index.ts', 12))).toBe(fingerprint);
+		expect(await exceptionFingerprint('RangeError', 'user 1 is undefined', frames('src/index.ts', 10))).not.toBe(fingerprint);
+		expect(await exceptionFingerprint('TypeError', 'user 1 is undefined', frames('src/users.ts', 10))).not.toBe(fingerprint);
+		// Without frames only the message tells exceptions apart, numbers aside
+		const timeout = await exceptionFingerprint('Error', 'timed out after 30s', []);
+		expect(await exceptionFingerprint('Error', 'timed out after 5s', [])).toBe(timeout);
+	});
+
+	it('rejects an unbound source map bucket', () => {
+		expect(() => loadConfig({ ...env, OTEL_SOURCE_MAPS: 'MAPS' })).toThrowError(
+			'OTEL_SOURCE_MAPS uses R2 bucket binding "MAPS", which is not bound'
+		);
+	});
+});
@@ -0,0 +1,51 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { loadConfig } from '../src/config';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { parseRecording } from '../src/recording';
+
+// Every recorded invocation, as one isolate would see them back to back
+const recordings = import.meta.glob<string>('./fixtures/recordings/*.jsonl', { query: '?raw', import: 'default', eager: true });
+const events = Object.values(recordings).flatMap(parseRecording);
+
+// Replays the recordings to a collector, counting the requests and body bytes it receives
+async function measure(vars: Partial<Env>) {
+	let requests = 0;
+	let bytes = 0;
+	vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+		const body = await new Request(input, init).arrayBuffer();
+		requests++;
+		bytes += body.byteLength;
+		return Response.json({});
+	});
+
+	const converter = new CloudflareToOtelConverter(
+		createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined, OTEL_SIGNALS: 'traces,logs,metrics', ...vars }))
+	);
+	for (const event of events) {
+		converter.handleEvent(event);
+	}
+	await converter.flush();
+
+	vi.restoreAllMocks();
+	return { requests, bytes };
+}
+
+// `npm run benchmark` prints the table; as part of the suite it keeps batching and compression paying off
+describe('export benchmark', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('sends fewer requests and bytes with batching and gzip than one uncompressed request per invocation', async () => {
+		const unbatched = await measure({ OTEL_BSP_MAX_EXPORT_BATCH_SIZE: '1', OTEL_EXPORTER_OTLP_COMPRESSION: 'none' });
+		const batched = await measure({ OTEL_BSP_MAX_EXPORT_BATCH_SIZE: undefined, OTEL_EXPORTER_OTLP_COMPRESSION: undefined });
+
+		for (const [name, { requests, bytes }] of Object.entries({ unbatched, batched })) {
+			console.log(`${name.padEnd(9)} ${String(requests).padStart(4)} requests ${String(bytes).padStart(8)} bytes`);
+		}
+		expect(batched.requests).toBeLessThan(unbatched.requests);
+		expect(batched.bytes).toBeLessThan(unbatched.bytes / 4);
+	});
+});
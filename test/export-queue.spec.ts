@@ -0,0 +1,203 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { ExportQueue, parseRetryAfter } from '../src/export-queue';
+
+const request = {
+	endpoint: 'http://collector.test/v1/traces',
+	headers: { 'Content-Type': 'application/json' },
+	body: JSON.stringify({ resourceSpans: [] })
+};
+
+async function listDeadLetters() {
+	const { keys } = await env.OTEL_DEAD_LETTER!.list<{ attempts: number; reason: string; retryable: boolean }>();
+	return keys;
+}
+
+describe('ExportQueue', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('retries 5xx responses with backoff until delivered', async () => {
+		const fetchSpy = vi
+			.spyOn(globalThis, 'fetch')
+			.mockResolvedValueOnce(new Response(null, { status: 503 }))
+			.mockResolvedValueOnce(new Response(null, { status: 502 }))
+			.mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+		const queue = new ExportQueue(env.OTEL_DEAD_LETTER, { baseDelayMs: 1 });
+
+		expect(await queue.send(request)).toBe(true);
+		expect(fetchSpy).toHaveBeenCalledTimes(3);
+		expect(queue.size).toBe(0);
+		expect(queue.bytes).toBe(0);
+	});
+
+	it('respects Retry-After on 429 responses', async () => {
+		const fetchSpy = vi
+			.spyOn(globalThis, 'fetch')
+			.mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'Retry-After': '0' } }))
+			.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+		const queue = new ExportQueue(env.OTEL_DEAD_LETTER, { baseDelayMs: 60000 });
+
+		expect(await queue.send(request)).toBe(true);
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+	});
+
+	it('dead-letters payloads once attempts are exhausted', async () => {
+		vi.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('connection refused'));
+
+		const queue = new ExportQueue(env.OTEL_DEAD_LETTER, { baseDelayMs: 1, maxAttempts: 2 });
+
+		expect(await queue.send(request)).toBe(false);
+
+		const keys = await listDeadLetters();
+		expect(keys).toHaveLength(1);
+		expect(keys[0].metadata).toEqual({ attempts: 2, reason: 'connection refused', retryable: true });
+		expect(await env.OTEL_DEAD_LETTER!.get(keys[0].name, 'json')).toEqual(request);
+	});
+
+	it('treats non-retryable 4xx responses as failures without retrying', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('bad payload', { status: 400 }));
+
+		const queue = new ExportQueue(env.OTEL_DEAD_LETTER, { baseDelayMs: 1 });
+
+		expect(await queue.send(request)).toBe(false);
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+		const keys = await listDeadLetters();
+		expect(keys[0].metadata).toMatchObject({ reason: 'HTTP 400', retryable: false });
+	});
+
+	it('evicts the oldest payloads to the dead-letter store when the buffer is full', async () => {
+		let failFirst = true;
+		vi.spyOn(globalThis, 'fetch').mockImplementation(async () => {
+			if (failFirst) {
+				failFirst = false;
+				return new Response(null, { status: 503 });
+			}
+			return new Response(null, { status: 200 });
+		});
+
+		const queue = new ExportQueue(env.OTEL_DEAD_LETTER, {
+			baseDelayMs: 50,
+			maxBufferedBytes: new TextEncoder().encode(request.body).byteLength
+		});
+
+		const first = queue.send(request);
+		// Let the first payload fail and start backing off
+		await new Promise(resolve => setTimeout(resolve, 5));
+		const second = queue.send(request);
+
+		expect(await second).toBe(true);
+		expect(await first).toBe(false);
+		expect((await listDeadLetters())[0].metadata).toMatchObject({ reason: 'evicted from a full retry buffer' });
+	});
+
+	it('sends payloads bigger than the buffer once, keeping them only for inspection if that fails', async () => {
+		const fetchSpy = vi
+			.spyOn(globalThis, 'fetch')
+			.mockResolvedValueOnce(new Response(null, { status: 200 }))
+			.mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+		const queue = new ExportQueue(env.OTEL_DEAD_LETTER, { baseDelayMs: 1, maxBufferedBytes: 8 });
+
+		expect(await queue.send(request)).toBe(true);
+		expect(await queue.send(request)).toBe(false);
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+		expect(queue.bytes).toBe(0);
+
+		const keys = await listDeadLetters();
+		expect(keys).toHaveLength(1);
+		expect(keys[0].metadata).toEqual({
+			attempts: 1,
+			reason: 'HTTP 503, and the payload of 20 bytes is too big to retry',
+			retryable: false
+		});
+	});
+
+	it('replays retryable dead letters and keeps non-retryable ones', async () => {
+		await env.OTEL_DEAD_LETTER!.put('otlp:1:retryable', JSON.stringify(request), {
+			metadata: { attempts: 5, reason: 'HTTP 503', retryable: true }
+		});
+		await env.OTEL_DEAD_LETTER!.put('otlp:2:rejected', JSON.stringify(request), {
+			metadata: { attempts: 1, reason: 'HTTP 400', retryable: false }
+		});
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+
+		const queue = new ExportQueue(env.OTEL_DEAD_LETTER);
+		await queue.replayDeadLetters();
+
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+		expect((await listDeadLetters()).map(key => key.name)).toEqual(['otlp:2:rejected']);
+	});
+
+	it('keeps a dead letter that fails again under the same key, with one more attempt', async () => {
+		await env.OTEL_DEAD_LETTER!.put('otlp:1:retryable', JSON.stringify(request), {
+			metadata: { attempts: 5, reason: 'HTTP 503', retryable: true }
+		});
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 502 }));
+
+		const queue = new ExportQueue(env.OTEL_DEAD_LETTER, { baseDelayMs: 1 });
+		await queue.replayDeadLetters();
+
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+		const keys = await listDeadLetters();
+		expect(keys.map(key => key.name)).toEqual(['otlp:1:retryable']);
+		expect(keys[0].metadata).toEqual({ attempts: 6, reason: 'HTTP 502', retryable: true });
+		expect(await env.OTEL_DEAD_LETTER!.get(keys[0].name, 'json')).toEqual(request);
+	});
+
+	it('keeps credentials out of dead letters and sends them again on replay', async () => {
+		const fetchSpy = vi
+			.spyOn(globalThis, 'fetch')
+			.mockResolvedValueOnce(new Response(null, { status: 503 }))
+			.mockResolvedValueOnce(new Response(null, { status: 200 }));
+		const options = { destination: 'honeycomb', headers: { Authorization: 'Bearer s3cret' }, maxAttempts: 1 };
+
+		expect(await new ExportQueue(env.OTEL_DEAD_LETTER, options).send(request)).toBe(false);
+
+		const [key] = await listDeadLetters();
+		expect(await env.OTEL_DEAD_LETTER!.get(key.name, 'json')).toEqual({ destination: 'honeycomb', ...request });
+
+		await new ExportQueue(env.OTEL_DEAD_LETTER, options).replayDeadLetters();
+
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+		expect(fetchSpy.mock.calls[1][1]?.headers).toEqual({ Authorization: 'Bearer s3cret', 'Content-Type': 'application/json' });
+		expect(await listDeadLetters()).toEqual([]);
+	});
+
+	it('leaves dead letters it has no time for to the next replay', async () => {
+		for (const name of ['otlp:1:first', 'otlp:2:second']) {
+			await env.OTEL_DEAD_LETTER!.put(name, JSON.stringify(request), {
+				metadata: { attempts: 5, reason: 'HTTP 503', retryable: true }
+			});
+		}
+		// Each send takes longer than the replay may run for
+		let now = Date.now();
+		vi.spyOn(Date, 'now').mockImplementation(() => now);
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => {
+			now += 30;
+			return new Response(null, { status: 200 });
+		});
+
+		const queue = new ExportQueue(env.OTEL_DEAD_LETTER, { replayTimeMs: 20 });
+		await queue.replayDeadLetters();
+
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+		expect((await listDeadLetters()).map(key => key.name)).toEqual(['otlp:2:second']);
+	});
+});
+
+describe('parseRetryAfter', () => {
+	it('parses delay seconds and HTTP dates', () => {
+		expect(parseRetryAfter('3')).toBe(3000);
+		expect(parseRetryAfter(null)).toBeUndefined();
+		expect(parseRetryAfter('soon')).toBeUndefined();
+
+		const inFuture = parseRetryAfter(new Date(Date.now() + 10000).toUTCString())!;
+		expect(inFuture).toBeGreaterThan(8000);
+		expect(inFuture).toBeLessThanOrEqual(10000);
+	});
+});
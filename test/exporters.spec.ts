@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { createExporter, EXPORTER_NAMES } from '../src/exporters';
+import { buildLogs } from '../src/logs';
+import { buildMetrics } from '../src/metrics';
+import { spans } from './fixtures/exporters/spans';
+
+function toHex(bytes: Uint8Array): string {
+	const lines: string[] = [];
+	for (let i = 0; i < bytes.length; i += 32) {
+		lines.push(Array.from(bytes.slice(i, i + 32), byte => byte.toString(16).padStart(2, '0')).join(' '));
+	}
+	return lines.join('\n') + '\n';
+}
+
+describe('exporters', () => {
+	it.each([
+		['otlp-json', 'application/json', 'json'],
+		['otlp-proto', 'application/x-protobuf', 'hex'],
+		['zipkin', 'application/json', 'json'],
+		['jaeger-thrift', 'application/x-thrift', 'hex']
+	])('%s matches its golden file', async (name, contentType, extension) => {
+		const payloads = createExporter(name).encode(spans);
+
+		expect(payloads).toHaveLength(1);
+		expect(payloads[0].contentType).toBe(contentType);
+
+		const { body } = payloads[0];
+		const golden = typeof body === 'string' ? JSON.stringify(JSON.parse(body), null, '\t') + '\n' : toHex(body);
+		await expect(golden).toMatchFileSnapshot(`./fixtures/exporters/${name}.${extension}`);
+	});
+
+	it.each([
+		['otlp-json', 'json'],
+		['otlp-proto', 'hex']
+	])('%s encodes logs and metrics matching their golden files', async (name, extension) => {
+		const exporter = createExporter(name);
+		const logs = exporter.encodeLogs!(buildLogs(spans));
+		const invocation = { scriptName: 'stw-local-dev', eventType: 'fetch', outcome: 'exception', cpuTime: 3, wallTime: 42.5 } as const;
+		const metrics = exporter.encodeMetrics!(buildMetrics(spans, invocation));
+
+		for (const [signal, { body }] of [['logs', logs], ['metrics', metrics]] as const) {
+			const golden = typeof body === 'string' ? JSON.stringify(JSON.parse(body), null, '\t') + '\n' : toHex(body);
+			await expect(golden).toMatchFileSnapshot(`./fixtures/exporters/${name}-${signal}.${extension}`);
+		}
+	});
+
+	it('leaves console logs out of spans when they are exported as logs', () => {
+		const [payload] = createExporter('otlp-json').encode(spans, { logsAsEvents: false });
+		const [span] = JSON.parse(payload.body as string).resourceSpans[0].scopeSpans[0].spans;
+
+		expect(span.events.map((event: { name: string }) => event.name)).toEqual(['exception', 'handler.return']);
+	});
+
+	it('maps span kinds to each wire format', () => {
+		const kinds = (name: string) => {
+			const { body } = createExporter(name).encode(spans)[0];
+			return JSON.parse(body as string);
+		};
+
+		// OTLP numbers kinds from 1 (INTERNAL), so SERVER is 2 and CLIENT 3
+		expect(kinds('otlp-json').resourceSpans[0].scopeSpans[0].spans.map((span: { kind: number }) => span.kind)).toEqual([2, 3]);
+		expect(kinds('zipkin').map((span: { kind: string }) => span.kind)).toEqual(['SERVER', 'CLIENT']);
+	});
+
+	it('groups spans from different workers by resource', () => {
+		const auth = { ...spans[1], spanId: '1112131415161718', resource: { ...spans[1].resource, 'service.name': 'auth-service' } };
+		const mixed = [spans[0], auth, spans[1]];
+
+		const { resourceSpans } = JSON.parse(createExporter('otlp-json').encode(mixed)[0].body as string);
+		expect(
+			resourceSpans.map((entry: any) => [
+				entry.resource.attributes.find((attribute: { key: string }) => attribute.key === 'service.name').value.stringValue,
+				entry.scopeSpans[0].spans.map((span: { spanId: string }) => span.spanId)
+			])
+		).toEqual([
+			['stw-local-dev', [spans[0].spanId, spans[1].spanId]],
+			['auth-service', [auth.spanId]]
+		]);
+
+		const zipkin = JSON.parse(createExporter('zipkin').encode(mixed)[0].body as string);
+		expect(zipkin.map((span: { localEndpoint: { serviceName: string } }) => span.localEndpoint.serviceName)).toEqual([
+			'stw-local-dev',
+			'auth-service',
+			'stw-local-dev'
+		]);
+		// A Jaeger batch has one process, so each worker gets its own
+		expect(createExporter('jaeger-thrift').encode(mixed)).toHaveLength(2);
+	});
+
+	it('uses the default endpoint of each backend', () => {
+		expect(EXPORTER_NAMES.map(name => createExporter(name).defaultEndpoint)).toEqual([
+			'http://localhost:4318/v1/traces',
+			'http://localhost:4318/v1/traces',
+			'http://localhost:9411/api/v2/spans',
+			'http://localhost:14268/api/traces'
+		]);
+	});
+
+	it('rejects unknown exporters', () => {
+		expect(() => createExporter('carrier-pigeon')).toThrowError(
+			'Unknown OTEL_EXPORTER "carrier-pigeon", expected one of: otlp-json, otlp-proto, zipkin, jaeger-thrift'
+		);
+	});
+});
@@ -0,0 +1,59 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import type { OtelSpan } from '../../../src/converter';
+
+const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+const ms = (offset: number) => (1760000000000 + offset) * 1000000;
+const resource = {
+	'service.name': 'stw-local-dev',
+	'service.version': 'v42',
+	'cloud.provider': 'cloudflare',
+	'cloud.platform': 'cloudflare.workers'
+};
+
+// A fetch invocation with a KV subrequest, a log line and an exception
+export const spans: OtelSpan[] = [
+	{
+		traceId,
+		spanId: '00f067aa0ba902b7',
+		operationName: 'GET https://example.com/users?id=1',
+		resource,
+		kind: SpanKind.SERVER,
+		startTime: ms(0),
+		endTime: ms(42),
+		tags: {
+			'http.request.method': 'GET',
+			'url.full': 'https://example.com/users?id=1',
+			'http.response.status_code': 500,
+			'cpu.time.ms': 3,
+			'wall.time.ms': 42.5,
+			'cloudflare.hibernation.resumed': false,
+			'script.tags': ['a', 'b']
+		},
+		events: [
+			{
+				timestamp: ms(39),
+				name: 'exception',
+				attributes: { 'exception.type': 'TypeError', 'exception.message': 'user is undefined', 'exception.stacktrace': '' }
+			},
+			{ timestamp: ms(40), name: 'handler.return', attributes: { 'execution.phase': 'handler_complete' } }
+		],
+		links: [{ traceId: 'a3ce929d0e0e47364bf92f3577b34da6', spanId: '1a2b3c4d5e6f7081', attributes: { 'link.label': 'caller' } }],
+		logs: [{ timestamp: ms(5), fields: { level: 'log', message: 'Looking up user 1' } }],
+		status: { code: SpanStatusCode.ERROR, message: 'exception' }
+	},
+	{
+		traceId,
+		spanId: '0b0c0d0e0f101112',
+		parentSpanId: '00f067aa0ba902b7',
+		operationName: 'kv_get',
+		resource,
+		kind: SpanKind.CLIENT,
+		startTime: ms(10),
+		endTime: ms(12),
+		tags: { 'db.system': 'cloudflare-kv', 'db.operation': 'get' },
+		events: [],
+		links: [],
+		logs: [],
+		status: { code: SpanStatusCode.OK, message: 'ok' }
+	}
+];
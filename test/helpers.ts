@@ -0,0 +1,81 @@
+import { vi } from 'vitest';
+
+export const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+export const ROOT_SPAN_ID = '00f067aa0ba902b7';
+export const START = new Date('2025-10-09T08:53:20.000Z');
+
+export interface TailEventOptions {
+	traceId?: string;
+	// The span the event happened in, the onset's parent for onsets
+	spanId?: string;
+	invocationId?: string;
+	// Milliseconds after START
+	at?: number;
+	// Defaults to the next number in the invocation, starting from 0 at its onset
+	sequence?: number;
+}
+
+const nextSequences = new Map<string, number>();
+
+export function tailEvent<Event extends TailStream.EventType>(event: Event, options: TailEventOptions = {}): TailStream.TailEvent<Event> {
+	const invocationId = options.invocationId ?? 'invocation-1';
+	const sequence = options.sequence ?? (event.type === 'onset' ? 0 : (nextSequences.get(invocationId) ?? 0));
+	nextSequences.set(invocationId, sequence + 1);
+
+	return {
+		invocationId,
+		spanContext: { traceId: options.traceId ?? TRACE_ID, spanId: options.spanId },
+		timestamp: new Date(START.getTime() + (options.at ?? 0)),
+		sequence,
+		event
+	};
+}
+
+export function fetchOnset(overrides: Partial<TailStream.Onset> = {}, info: Partial<TailStream.FetchEventInfo> = {}): TailStream.Onset {
+	return {
+		type: 'onset',
+		spanId: ROOT_SPAN_ID,
+		executionModel: 'stateless',
+		scriptName: 'stw-local-dev',
+		attributes: [],
+		info: { type: 'fetch', method: 'GET', url: 'https://example.com/', cfJson: '{}', headers: [], ...info },
+		...overrides
+	};
+}
+
+export function outcome(value: TailStream.EventOutcome = 'ok', cpuTime = 2, wallTime = 10): TailStream.Outcome {
+	return { type: 'outcome', outcome: value, cpuTime, wallTime };
+}
+
+export interface ReceivedRequest {
+	url: string;
+	contentType: string | null;
+	// Parsed JSON, or hex for binary payloads like OTLP protobuf
+	body: unknown;
+}
+
+/**
+ * Stands in for an OTLP collector (or any other sink) by answering every
+ * outgoing fetch with a 200 and keeping what was sent. Restore it with
+ * `vi.restoreAllMocks()`.
+ */
+export function fakeReceiver(): { requests: ReceivedRequest[] } {
+	const requests: ReceivedRequest[] = [];
+
+	vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+		const request = new Request(input, init);
+		const contentType = request.headers.get('content-type');
+		// Bodies are kept as they were before compression
+		const gzipped = request.headers.get('content-encoding') === 'gzip';
+		const received = gzipped ? request.body!.pipeThrough(new DecompressionStream('gzip')) : request.body;
+		const bytes = new Uint8Array(await new Response(received).arrayBuffer());
+		const body = contentType?.includes('json')
+			? JSON.parse(new TextDecoder().decode(bytes))
+			: [...bytes].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+		requests.push({ url: request.url, contentType, body });
+		return Response.json({});
+	});
+
+	return { requests };
+}
@@ -0,0 +1,185 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { loadConfig } from '../src/config';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { fetchOnset, outcome, ROOT_SPAN_ID, tailEvent, TRACE_ID } from './helpers';
+
+// Runtime-assigned trace IDs of a Durable Object's segments, and their root spans
+const ROOM_TRACE_ID = 'd4d4d4d4d4d4d4d4d4d4d4d4d4d4d4d4';
+const RECONNECT_TRACE_ID = 'e5e5e5e5e5e5e5e5e5e5e5e5e5e5e5e5';
+const HIBERNATED_ROOT_SPAN_ID = '6666666666666666';
+const RESUMED_ROOT_SPAN_ID = '7777777777777777';
+const RESUMED_PUT_SPAN_ID = '8888888888888888';
+
+// The span in the frontend's trace that called the Durable Object
+const CALLER_SPAN_ID = '1111111111111111';
+// Another invocation, linked to by a link event
+const CONSUMER_TRACE_ID = 'c3c3c3c3c3c3c3c3c3c3c3c3c3c3c3c3';
+const CONSUMER_ROOT_SPAN_ID = '5555555555555555';
+
+interface ExportedSpan {
+	traceId: string;
+	spanId: string;
+	name: string;
+	attributes: Array<{ key: string; value: unknown }>;
+	events: Array<{ name: string }>;
+	links: Array<{ traceId: string; spanId: string; attributes?: unknown[] }>;
+}
+
+function exportedSpans(fetchSpy: { mock: { calls: Array<[unknown, RequestInit?]> } }): ExportedSpan[] {
+	return fetchSpy.mock.calls.flatMap(([, init]) => JSON.parse(init?.body as string).resourceSpans[0].scopeSpans[0].spans);
+}
+
+function roomOnset(spanId: string, info: TailStream.Onset['info'], trigger?: TailStream.Trigger): TailStream.Onset {
+	return {
+		type: 'onset',
+		spanId,
+		executionModel: 'durableObject',
+		scriptName: 'stw-local-dev',
+		entrypoint: 'ChatRoom',
+		attributes: [],
+		info,
+		trigger
+	};
+}
+
+// A WebSocket message, called from the frontend's request, that ends with the object hibernating
+function hibernate(converter: CloudflareToOtelConverter, traceId: string, invocationId: string) {
+	const segment = { traceId, invocationId };
+	const trigger = { traceId: TRACE_ID, invocationId: 'frontend-1', spanId: CALLER_SPAN_ID };
+	const message: TailStream.HibernatableWebSocketEventInfo = { type: 'hibernatableWebSocket', info: { type: 'message' } };
+	converter.handleEvent(tailEvent(roomOnset(HIBERNATED_ROOT_SPAN_ID, message, trigger), segment));
+	converter.handleEvent(tailEvent({ type: 'hibernate' }, { ...segment, spanId: HIBERNATED_ROOT_SPAN_ID, at: 10 }));
+}
+
+function resume(converter: CloudflareToOtelConverter, traceId: string, invocationId: string) {
+	const segment = { traceId, invocationId };
+	const onset = roomOnset(RESUMED_ROOT_SPAN_ID, { type: 'resume', attachment: { userId: 'u_42' } });
+	converter.handleEvent(tailEvent(onset, { ...segment, at: 60000 }));
+	converter.handleEvent(
+		tailEvent(
+			{ type: 'spanOpen', name: 'durable_object_storage_put', spanId: RESUMED_PUT_SPAN_ID },
+			{ ...segment, spanId: RESUMED_ROOT_SPAN_ID, at: 60001 }
+		)
+	);
+	converter.handleEvent(tailEvent({ type: 'spanClose', outcome: 'ok' }, { ...segment, spanId: RESUMED_PUT_SPAN_ID, at: 60002 }));
+	converter.handleEvent(tailEvent(outcome('ok'), { ...segment, spanId: RESUMED_ROOT_SPAN_ID, at: 60010 }));
+}
+
+describe('link events', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('links spans to other traces', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })));
+
+		converter.handleEvent(tailEvent(fetchOnset(), {}));
+		converter.handleEvent(
+			tailEvent(
+				{ type: 'link', label: 'batch', traceId: CONSUMER_TRACE_ID, invocationId: 'consumer-1', spanId: CONSUMER_ROOT_SPAN_ID },
+				{ spanId: ROOT_SPAN_ID, at: 1 }
+			)
+		);
+		converter.handleEvent(tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, at: 10 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const [root] = exportedSpans(fetchSpy);
+		expect(root.traceId).toBe(TRACE_ID);
+		expect(root.links).toEqual([
+			{
+				traceId: CONSUMER_TRACE_ID,
+				spanId: CONSUMER_ROOT_SPAN_ID,
+				attributes: [
+					{ key: 'link.invocation_id', value: { stringValue: 'consumer-1' } },
+					{ key: 'link.label', value: { stringValue: 'batch' } }
+				]
+			}
+		]);
+	});
+});
+
+describe('Durable Object hibernation', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('exports a segment as soon as the object hibernates', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })));
+
+		hibernate(converter, ROOM_TRACE_ID, 'room-0');
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const [hibernated] = exportedSpans(fetchSpy);
+		expect(converter.openInvocations).toBe(0);
+		expect(hibernated.events.map(event => event.name)).toEqual(['durable_object.hibernate']);
+		expect(hibernated.attributes).toContainEqual({ key: 'cloudflare.hibernation.hibernated', value: { boolValue: true } });
+	});
+
+	it('counts the hibernate event against the span event limit', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })), {
+			limits: { maxEventsPerSpan: 1 }
+		});
+		const segment = { traceId: ROOM_TRACE_ID, invocationId: 'room-5' };
+
+		converter.handleEvent(tailEvent(roomOnset(HIBERNATED_ROOT_SPAN_ID, { type: 'alarm', scheduledTime: new Date() }), segment));
+		converter.handleEvent(tailEvent({ type: 'log', level: 'info', message: ['set up'] }, { ...segment, spanId: HIBERNATED_ROOT_SPAN_ID, at: 1 }));
+		converter.handleEvent(tailEvent({ type: 'hibernate' }, { ...segment, spanId: HIBERNATED_ROOT_SPAN_ID, at: 10 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const [hibernated] = exportedSpans(fetchSpy);
+		expect(hibernated.events.map(event => event.name)).not.toContain('durable_object.hibernate');
+		expect(hibernated.attributes).toContainEqual({ key: 'cloudflare.dropped_events', value: { intValue: '1' } });
+	});
+
+	it("follows a hibernated segment into its caller's trace when the resume carries on its runtime trace", async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })));
+
+		hibernate(converter, ROOM_TRACE_ID, 'room-1');
+		resume(converter, ROOM_TRACE_ID, 'room-2');
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(2));
+		const spans = exportedSpans(fetchSpy);
+		const hibernated = spans.find(span => span.spanId === HIBERNATED_ROOT_SPAN_ID)!;
+		const resumed = spans.find(span => span.spanId === RESUMED_ROOT_SPAN_ID)!;
+		const put = spans.find(span => span.spanId === RESUMED_PUT_SPAN_ID)!;
+
+		// The runtime gave the object its own trace, stitching moved the first segment into the frontend's
+		expect(hibernated.traceId).toBe(TRACE_ID);
+		expect(resumed.traceId).toBe(TRACE_ID);
+		expect(put.traceId).toBe(TRACE_ID);
+		expect(resumed.links).toEqual([
+			{
+				traceId: TRACE_ID,
+				spanId: HIBERNATED_ROOT_SPAN_ID,
+				attributes: [{ key: 'link.label', value: { stringValue: 'hibernation.resume' } }]
+			}
+		]);
+		expect(resumed.attributes).toContainEqual({ key: 'cloudflare.hibernation.segment', value: { intValue: '1' } });
+		expect(resumed.attributes).toContainEqual({ key: 'resume.attachment.userId', value: { stringValue: 'u_42' } });
+	});
+
+	it('exports a resume that starts a new trace as a trace of its own', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })));
+
+		hibernate(converter, ROOM_TRACE_ID, 'room-3');
+		resume(converter, RECONNECT_TRACE_ID, 'room-4');
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(2));
+		const spans = exportedSpans(fetchSpy);
+		const resumed = spans.find(span => span.spanId === RESUMED_ROOT_SPAN_ID)!;
+		const put = spans.find(span => span.spanId === RESUMED_PUT_SPAN_ID)!;
+
+		expect(resumed.traceId).toBe(RECONNECT_TRACE_ID);
+		expect(put.traceId).toBe(RECONNECT_TRACE_ID);
+		expect(resumed.links).toEqual([]);
+		expect(resumed.attributes.map(({ key }) => key)).not.toContain('cloudflare.hibernation.segment');
+		expect(resumed.attributes).toContainEqual({ key: 'cloudflare.hibernation.resumed', value: { boolValue: true } });
+	});
+});
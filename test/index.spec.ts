@@ -1,24 +1,93 @@
 import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
-import { describe, it, expect } from 'vitest';
+import { afterEach, beforeEach, describe, it, expect, MockInstance, vi } from 'vitest';
 import worker from '../src/index';
 
 // For now, you'll need to do something like this to get a correctly-typed
 // `Request` to pass to `worker.fetch()`.
 const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
 
-describe('Hello World worker', () => {
-	it('responds with Hello World! (unit style)', async () => {
-		const request = new IncomingRequest('http://example.com');
-		// Create an empty context to pass to `worker.fetch()`.
-		const ctx = createExecutionContext();
-		const response = await worker.fetch(request, env, ctx);
-		// Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
-		await waitOnExecutionContext(ctx);
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+// Runs the request through `worker.fetch()`, waiting for its waitUntil() work too
+async function run(path: string) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(new IncomingRequest(`http://example.com${path}`), env, ctx);
+	await waitOnExecutionContext(ctx);
+	return { status: response.status, body: await response.json<Record<string, unknown>>() };
+}
+
+describe('scenario router', () => {
+	let fetch: MockInstance<typeof globalThis.fetch>;
+
+	beforeEach(() => {
+		fetch = vi.spyOn(globalThis, 'fetch');
+	});
+
+	afterEach(() => {
+		// Scenarios must work offline
+		expect(fetch).not.toHaveBeenCalled();
+		vi.restoreAllMocks();
+	});
+
+	it('lists the scenarios at the root', async () => {
+		const response = await SELF.fetch('https://example.com/');
+		const { scenarios } = await response.json<{ scenarios: Array<{ url: string }> }>();
+
+		expect(response.status).toBe(200);
+		expect(scenarios.map(scenario => scenario.url)).toEqual(
+			['kv', 'd1', 'r2', 'queue', 'service', 'error', 'slow', 'cpu-heavy', 'memory'].map(name => `https://example.com/scenario/${name}`)
+		);
+	});
+
+	it('exercises one binding per scenario', async () => {
+		const sendBatch = vi.spyOn(env.ANALYTICS_QUEUE, 'sendBatch').mockResolvedValue();
+
+		expect(await run('/scenario/kv?keys=2')).toEqual({ status: 200, body: { scenario: 'kv', written: 2, read: 2, listed: 2 } });
+		expect(await run('/scenario/d1?rows=4')).toEqual({ status: 200, body: { scenario: 'd1', inserted: 4, sum: 6 } });
+		expect(await run('/scenario/r2?objects=2&size=16')).toEqual({
+			status: 200,
+			body: { scenario: 'r2', written: 2, listed: 2, bytesRead: 32 }
+		});
+		expect(await run('/scenario/queue?messages=2&invalid=1')).toEqual({ status: 200, body: { scenario: 'queue', sent: 2, invalid: 1 } });
+		expect(await run('/scenario/service')).toMatchObject({ status: 503 });
+
+		const types = Array.from(sendBatch.mock.calls[0][0], ({ body }) => (body as { type: string }).type);
+		expect(types).toEqual(['demo_request', 'demo_request', 'scenario_invalid']);
+	});
+
+	it('reports failing D1 queries', async () => {
+		const { status, body } = await run('/scenario/d1?fail=1');
+
+		expect(status).toBe(500);
+		expect(body.error).toMatch(/no such table: scenario_missing_table/);
+	});
+
+	it('fails the invocation on demand', async () => {
+		await expect(run('/scenario/error')).rejects.toThrowError('Scenario error: thrown from the fetch handler');
+
+		const waitUntil = vi.fn<(promise: Promise<unknown>) => void>();
+		const ctx = { ...createExecutionContext(), waitUntil };
+		const response = await worker.fetch(new IncomingRequest('http://example.com/scenario/error?mode=waitUntil'), env, ctx);
+		expect(response.status).toBe(200);
+		await expect(waitUntil.mock.calls[0][0]).rejects.toThrowError('Scenario error: rejected in waitUntil');
+
+		expect(await run('/scenario/error?mode=status&status=503')).toEqual({ status: 503, body: { scenario: 'error', mode: 'status' } });
+	});
+
+	it('keeps working after the response of a slow request', async () => {
+		expect(await run('/scenario/slow?ms=5&after=5')).toEqual({ status: 200, body: { scenario: 'slow', ms: 5, after: 5 } });
+		expect(await env.CACHE_KV.get('scenario:slow:last-after')).not.toBeNull();
+	});
+
+	it('burns CPU and memory', async () => {
+		expect(await run('/scenario/cpu-heavy?iterations=1000')).toMatchObject({ status: 200, body: { iterations: 1000 } });
+		expect(await run('/scenario/memory?mb=2')).toEqual({ status: 200, body: { scenario: 'memory', mb: 2 } });
 	});
 
-	it('responds with Hello World! (integration style)', async () => {
-		const response = await SELF.fetch('https://example.com');
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+	it('rejects unknown scenarios and bad parameters', async () => {
+		expect(await run('/scenario/nope')).toMatchObject({ status: 404, body: { error: 'No scenario at /scenario/nope' } });
+		expect(await run('/scenario/kv?keys=1000')).toEqual({ status: 400, body: { error: 'keys must be a whole number from 0 to 100, got "1000"' } });
+		expect(await run('/scenario/error?mode=crash')).toEqual({
+			status: 400,
+			body: { error: 'mode must be one of throw, waitUntil, status, got "crash"' }
+		});
 	});
 });
@@ -0,0 +1,184 @@
+import { env } from 'cloudflare:test';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { loadConfig } from '../src/config';
+import { CloudflareToOtelConverter, ConverterLimits } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import type { Sampler } from '../src/sampling';
+import { fetchOnset, outcome, ROOT_SPAN_ID, tailEvent } from './helpers';
+
+const CHILD_SPAN_ID = '1111111111111111';
+
+interface ExportedSpan {
+	traceId: string;
+	spanId: string;
+	name: string;
+	endTimeUnixNano: string;
+	status: { code: number; message?: string };
+	attributes: Array<{ key: string; value: Record<string, unknown> }>;
+	events: unknown[];
+}
+
+function createConverter(limits: Partial<ConverterLimits> = {}) {
+	return new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })), { limits });
+}
+
+function exportedSpans(fetchSpy: { mock: { calls: Array<[unknown, RequestInit?]> } }): ExportedSpan[] {
+	return fetchSpy.mock.calls.flatMap(([, init]) => JSON.parse(init?.body as string).resourceSpans[0].scopeSpans[0].spans);
+}
+
+function attribute(span: ExportedSpan, key: string): unknown {
+	const value = span.attributes.find(attribute => attribute.key === key)?.value;
+	return value && Object.values(value)[0];
+}
+
+describe('per-invocation state', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.useRealTimers();
+	});
+
+	it('keeps interleaved invocations apart', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = createConverter();
+		const first = { invocationId: 'first', traceId: 'a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1' };
+		const second = { invocationId: 'second', traceId: 'b2b2b2b2b2b2b2b2b2b2b2b2b2b2b2b2' };
+
+		converter.handleEvent(tailEvent(fetchOnset({}, { url: 'https://example.com/first' }), first));
+		converter.handleEvent(tailEvent(fetchOnset({ spanId: '2222222222222222' }, { url: 'https://example.com/second' }), second));
+		converter.handleEvent(tailEvent({ type: 'spanOpen', name: 'kv_get', spanId: CHILD_SPAN_ID }, { ...second, spanId: '2222222222222222' }));
+		converter.handleEvent(tailEvent({ type: 'spanClose', outcome: 'ok' }, { ...second, spanId: CHILD_SPAN_ID, at: 2 }));
+		// Both roots have no parent, the outcome must still close the right one
+		converter.handleEvent(tailEvent(outcome('ok'), { ...first, spanId: ROOT_SPAN_ID, at: 5 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		expect(exportedSpans(fetchSpy).map(span => span.name)).toEqual(['GET /first']);
+		expect(converter.openInvocations).toBe(1);
+
+		converter.handleEvent(tailEvent(outcome('ok'), { ...second, spanId: '2222222222222222', at: 8 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(2));
+		const spans = exportedSpans(fetchSpy);
+		expect(spans.map(span => span.name)).toEqual(['GET /first', 'GET /second', 'kv_get']);
+		expect(spans[2].traceId).toBe(second.traceId);
+		expect(converter.openInvocations).toBe(0);
+	});
+
+	it('exports orphaned invocations as incomplete', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(0);
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = createConverter({ orphanTimeoutMs: 60000 });
+
+		converter.handleEvent(tailEvent(fetchOnset()));
+		converter.handleEvent(tailEvent({ type: 'spanOpen', name: 'kv_get', spanId: CHILD_SPAN_ID }, { spanId: ROOT_SPAN_ID, at: 3 }));
+
+		converter.sweep(59999);
+		expect(converter.openInvocations).toBe(1);
+
+		// Killed for exceeding its CPU limit, so no outcome ever arrives
+		converter.sweep(60000);
+		expect(converter.openInvocations).toBe(0);
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const [root, child] = exportedSpans(fetchSpy);
+
+		expect(root.status).toEqual({ code: SpanStatusCode.ERROR, message: 'incomplete' });
+		expect(attribute(root, 'cloudflare.incomplete')).toBe(true);
+		expect(attribute(root, 'cloudflare.incomplete.reason')).toBe('orphaned');
+		// Open spans end at the last event the invocation sent
+		expect(child.status).toEqual({ code: SpanStatusCode.ERROR, message: 'incomplete' });
+		expect(child.endTimeUnixNano).toBe(root.endTimeUnixNano);
+	});
+
+	it('sweeps while handling events from other invocations', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(0);
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = createConverter({ orphanTimeoutMs: 60000, sweepIntervalMs: 30000 });
+
+		converter.handleEvent(tailEvent(fetchOnset(), { invocationId: 'orphan' }));
+		vi.setSystemTime(90000);
+		converter.handleEvent(tailEvent(fetchOnset(), { invocationId: 'next' }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		expect(converter.openInvocations).toBe(1);
+	});
+
+	it('force-closes the oldest invocation when too many are open', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = createConverter({ maxInvocations: 2 });
+
+		for (const invocationId of ['one', 'two', 'three']) {
+			converter.handleEvent(tailEvent(fetchOnset({}, { url: `https://example.com/${invocationId}` }), { invocationId }));
+		}
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const [evicted] = exportedSpans(fetchSpy);
+		expect(evicted.name).toBe('GET /one');
+		expect(attribute(evicted, 'cloudflare.incomplete.reason')).toBe('evicted');
+		expect(converter.openInvocations).toBe(2);
+	});
+
+	it('drops spans and events over the limits and counts them', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = createConverter({ maxSpansPerInvocation: 2, maxEventsPerSpan: 3 });
+
+		converter.handleEvent(tailEvent(fetchOnset()));
+		for (const spanId of ['1111111111111111', '2222222222222222', '3333333333333333']) {
+			converter.handleEvent(tailEvent({ type: 'spanOpen', name: 'kv_get', spanId }, { spanId: ROOT_SPAN_ID }));
+		}
+		for (let i = 0; i < 5; i++) {
+			converter.handleEvent(tailEvent({ type: 'log', level: 'info', message: [`line ${i}`] }, { spanId: ROOT_SPAN_ID }));
+		}
+		converter.handleEvent(tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, at: 10 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const spans = exportedSpans(fetchSpy);
+
+		expect(spans.map(span => span.spanId)).toEqual([ROOT_SPAN_ID, '1111111111111111']);
+		expect(attribute(spans[0], 'cloudflare.dropped_spans')).toBe('2');
+		expect(attribute(spans[0], 'cloudflare.dropped_events')).toBe('2');
+	});
+
+	it("moves a dropped span's logs to the root span at once, without holding up reordering", async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = createConverter({ maxSpansPerInvocation: 1, maxBufferedEvents: 2 });
+
+		converter.handleEvent(tailEvent(fetchOnset()));
+		converter.handleEvent(tailEvent({ type: 'spanOpen', name: 'kv_get', spanId: CHILD_SPAN_ID }, { spanId: ROOT_SPAN_ID }));
+		for (let i = 0; i < 3; i++) {
+			converter.handleEvent(tailEvent({ type: 'log', level: 'info', message: [`line ${i}`] }, { spanId: CHILD_SPAN_ID }));
+		}
+		converter.handleEvent(tailEvent({ type: 'spanClose', outcome: 'ok' }, { spanId: CHILD_SPAN_ID }));
+		// Still reordered: the outcome arrives ahead of the log before it
+		converter.handleEvent(tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, at: 10, sequence: 7 }));
+		expect(converter.openInvocations).toBe(1);
+		converter.handleEvent(tailEvent({ type: 'log', level: 'info', message: ['late'] }, { spanId: ROOT_SPAN_ID, sequence: 6 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const [root] = exportedSpans(fetchSpy);
+
+		expect(root.events).toHaveLength(4);
+		expect(attribute(root, 'cloudflare.dropped_spans')).toBe('1');
+		expect(attribute(root, 'cloudflare.dropped_events')).toBeUndefined();
+	});
+
+	it('drops an invocation that fails to prepare for export without leaving the rejection unhandled', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const sampler = {
+			decide: () => {
+				throw new Error('bad rule');
+			}
+		} as unknown as Sampler;
+		const converter = new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })), { sampler });
+
+		converter.handleEvent(tailEvent(fetchOnset()));
+		converter.handleEvent(tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, at: 10 }));
+		await converter.flush();
+
+		expect(fetchSpy).not.toHaveBeenCalled();
+		expect(errorSpy).toHaveBeenCalledWith('Failed to prepare an invocation for export, dropping it:', new Error('bad rule'));
+	});
+});
@@ -0,0 +1,124 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import worker from '../src/index';
+import { traceItemToTailEvents } from '../src/legacy-tail';
+import { fakeReceiver, fetchOnset, outcome, ReceivedRequest, ROOT_SPAN_ID, START, tailEvent } from './helpers';
+
+const STACK = 'Error: upstream timed out\n    at fetch (index.js:12:9)';
+
+function traceItem(overrides: Partial<TraceItem> = {}): TraceItem {
+	return {
+		event: { request: { method: 'GET', url: 'https://example.com/', headers: {} }, response: { status: 502 } },
+		eventTimestamp: START.getTime(),
+		logs: [{ timestamp: START.getTime() + 2, level: 'warn', message: ['retrying upstream'] }],
+		exceptions: [{ timestamp: START.getTime() + 3, name: 'Error', message: 'upstream timed out', stack: STACK }],
+		diagnosticsChannelEvents: [{ timestamp: START.getTime() + 1, channel: 'undici:request:create', message: { url: '/' } }],
+		scriptName: 'stw-local-dev',
+		outcome: 'exception',
+		executionModel: 'stateless',
+		truncated: false,
+		cpuTime: 2,
+		wallTime: 10,
+		...overrides
+	};
+}
+
+// Exported spans without the IDs, which the buffered format leaves to chance
+function spansWithoutIds(requests: ReceivedRequest[]) {
+	return requests.flatMap(request =>
+		(request.body as any).resourceSpans[0].scopeSpans[0].spans.map(({ traceId, spanId, parentSpanId, ...span }: any) => span)
+	);
+}
+
+describe('legacy tail handler', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('replays a trace item as tail events in time order', () => {
+		const events = traceItemToTailEvents(traceItem());
+		const [onset] = events;
+
+		expect(events.map(({ event }) => event.type)).toEqual(['onset', 'diagnosticChannel', 'log', 'exception', 'return', 'outcome']);
+		expect(events.map(({ sequence }) => sequence)).toEqual([0, 1, 2, 3, 4, 5]);
+		expect(events.map(({ timestamp }) => timestamp.getTime() - START.getTime())).toEqual([0, 1, 2, 3, 10, 10]);
+		expect(new Set(events.map(({ invocationId }) => invocationId)).size).toBe(1);
+
+		// Everything after the onset happens in its span
+		const { spanId } = onset.event as TailStream.Onset;
+		expect(spanId).toMatch(/^[0-9a-f]{16}$/);
+		expect(onset.spanContext.spanId).toBeUndefined();
+		expect(events.slice(1).every(event => event.spanContext.spanId === spanId)).toBe(true);
+		expect(events[4].event).toEqual({ type: 'return', info: { type: 'fetch', statusCode: 502 } });
+		expect(events[5].event).toEqual(outcome('exception', 2, 10));
+	});
+
+	it.each<[string, TraceItem['event'], TailStream.Onset['info']]>([
+		['jsrpc', { rpcMethod: 'validate' }, { type: 'jsrpc', methodName: 'validate' }],
+		[
+			'scheduled',
+			{ cron: '*/5 * * * *', scheduledTime: START.getTime() },
+			{ type: 'scheduled', cron: '*/5 * * * *', scheduledTime: START }
+		],
+		['alarm', { scheduledTime: START }, { type: 'alarm', scheduledTime: START }],
+		['queue', { queue: 'analytics', batchSize: 3 }, { type: 'queue', queueName: 'analytics', batchSize: 3 }],
+		[
+			'email',
+			{ mailFrom: 'a@example.com', rcptTo: 'b@example.com', rawSize: 120 },
+			{ type: 'email', mailFrom: 'a@example.com', rcptTo: 'b@example.com', rawSize: 120 }
+		],
+		['trace', { consumedEvents: [{ scriptName: 'stw-local-dev' }] }, { type: 'trace', traces: ['stw-local-dev'] }],
+		[
+			'hibernatableWebSocket',
+			{ getWebSocketEvent: { webSocketEventType: 'close', code: 1000, wasClean: true } },
+			{ type: 'hibernatableWebSocket', info: { type: 'close', code: 1000, wasClean: true } }
+		],
+		['custom', {}, { type: 'custom' }],
+		['unknown', null, { type: 'custom' }]
+	])('maps %s events to their onset info', (_type, event, info) => {
+		const [onset, ...rest] = traceItemToTailEvents(traceItem({ event, logs: [], exceptions: [], diagnosticsChannelEvents: [] }));
+
+		expect((onset.event as TailStream.Onset).info).toEqual(info);
+		expect(rest.map(({ event }) => event.type)).toEqual(['outcome']);
+	});
+
+	it("joins the caller's trace from the traceparent header", () => {
+		const headers = { traceparent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01' };
+		const [onset] = traceItemToTailEvents(traceItem({ event: { request: { method: 'GET', url: 'https://example.com/', headers } } }));
+
+		expect(onset.spanContext).toEqual({ traceId: '0af7651916cd43dd8448eb211c80319c', spanId: 'b7ad6b7169203331' });
+		expect((onset.event as TailStream.Onset).info).toMatchObject({ headers: [{ name: 'traceparent', value: headers.traceparent }] });
+	});
+
+	it('flags truncated trace items on the onset', () => {
+		const [onset] = traceItemToTailEvents(traceItem({ truncated: true }));
+
+		expect((onset.event as TailStream.Onset).attributes).toEqual([{ name: 'cloudflare.tail.truncated', value: true }]);
+	});
+
+	it('exports the same spans as the streaming tail handler', async () => {
+		const streamed = fakeReceiver();
+		const ctx = createExecutionContext();
+		const streamedIn = { invocationId: 'streamed-1', spanId: ROOT_SPAN_ID };
+		const [onset, ...rest] = [
+			tailEvent(fetchOnset(), { invocationId: 'streamed-1' }),
+			tailEvent({ type: 'diagnosticChannel', channel: 'undici:request:create', message: { url: '/' } }, { ...streamedIn, at: 1 }),
+			tailEvent({ type: 'log', level: 'warn', message: ['retrying upstream'] }, { ...streamedIn, at: 2 }),
+			tailEvent({ type: 'exception', name: 'Error', message: 'upstream timed out', stack: STACK }, { ...streamedIn, at: 3 }),
+			tailEvent({ type: 'return', info: { type: 'fetch', statusCode: 502 } }, { ...streamedIn, at: 10 }),
+			tailEvent(outcome('exception', 2, 10), { ...streamedIn, at: 10 })
+		];
+		const handler = worker.tailStream(onset, env, ctx) as (event: TailStream.TailEvent) => void;
+		for (const event of rest) {
+			handler(event);
+		}
+		await waitOnExecutionContext(ctx);
+		vi.restoreAllMocks();
+
+		const buffered = fakeReceiver();
+		await worker.tail([traceItem()], env, createExecutionContext());
+
+		expect(buffered.requests.length).toBeGreaterThan(0);
+		expect(spansWithoutIds(buffered.requests)).toEqual(spansWithoutIds(streamed.requests));
+	});
+});
@@ -0,0 +1,229 @@
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { handleLiveRequest, LiveEvent, LiveFeed, LiveFilter, renderLiveEvent } from '../src/live';
+import { Redactor } from '../src/redaction';
+import { fetchOnset, outcome, ROOT_SPAN_ID, tailEvent } from './helpers';
+
+const FETCH_SPAN_ID = '1111111111111111';
+const QUERY_SPAN_ID = '2222222222222222';
+
+// An invocation whose outbound fetch runs a D1 query, which warns
+function invoke(converter: CloudflareToOtelConverter, path = '/api/users', invocationId = `invocation ${path}`) {
+	const at = (offset: number, spanId: string) => ({ invocationId, spanId, at: offset });
+
+	converter.handleEvent(tailEvent(fetchOnset({}, { url: `https://example.com${path}` }), { invocationId }));
+	converter.handleEvent(tailEvent({ type: 'spanOpen', name: 'fetch', spanId: FETCH_SPAN_ID }, at(1, ROOT_SPAN_ID)));
+	converter.handleEvent(tailEvent({ type: 'spanOpen', name: 'd1_query', spanId: QUERY_SPAN_ID }, at(2, FETCH_SPAN_ID)));
+	converter.handleEvent(tailEvent({ type: 'log', level: 'warn', message: ['slow query'] }, at(3, QUERY_SPAN_ID)));
+	converter.handleEvent(tailEvent({ type: 'spanClose', outcome: 'ok' }, at(4, QUERY_SPAN_ID)));
+	converter.handleEvent(tailEvent({ type: 'spanClose', outcome: 'ok' }, at(6, FETCH_SPAN_ID)));
+	converter.handleEvent(tailEvent({ type: 'exception', name: 'TypeError', message: 'boom', stack: '' }, at(7, ROOT_SPAN_ID)));
+	converter.handleEvent(tailEvent(outcome('exception'), at(10, ROOT_SPAN_ID)));
+}
+
+function watch(filter: LiveFilter = {}) {
+	const feed = new LiveFeed();
+	const subscription = feed.subscribe(filter);
+	return { converter: new CloudflareToOtelConverter([], { liveFeed: feed }), subscription };
+}
+
+async function read(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<string> {
+	const { value } = await reader.read();
+	return new TextDecoder().decode(value);
+}
+
+describe('live feed', () => {
+	it('publishes converted events as they are applied, with their span depth', async () => {
+		const { converter, subscription } = watch();
+		invoke(converter);
+
+		const events = await subscription.next();
+		expect(events.map(event => [event.type, event.depth, event.level, event.message, event.outcome])).toEqual([
+			['spanOpen', 0, 'info', 'GET /api/users', undefined],
+			['spanOpen', 1, 'info', 'fetch', undefined],
+			['spanOpen', 2, 'info', 'd1_query', undefined],
+			['log', 2, 'warn', 'slow query', undefined],
+			['spanClose', 2, 'info', 'd1_query', 'ok'],
+			['spanClose', 1, 'info', 'fetch', 'ok'],
+			['exception', 0, 'error', 'TypeError: boom', undefined],
+			['spanClose', 0, 'error', 'GET /api/users', 'exception']
+		]);
+		expect(events[4]).toEqual({
+			type: 'spanClose',
+			timestamp: new Date('2025-10-09T08:53:20.004Z').getTime(),
+			invocationId: 'invocation /api/users',
+			traceId: events[0].traceId,
+			spanId: QUERY_SPAN_ID,
+			parentSpanId: FETCH_SPAN_ID,
+			depth: 2,
+			scriptName: 'stw-local-dev',
+			route: 'GET /api/users',
+			level: 'info',
+			message: 'd1_query',
+			outcome: 'ok',
+			durationMs: 2
+		});
+	});
+
+	it.each<[LiveFilter, string[]]>([
+		[{ level: 'warn' }, ['log slow query', 'exception TypeError: boom', 'spanClose GET /health']],
+		[{ route: 'GET /api/*', level: 'error' }, []],
+		[{ route: 'GET /health', level: 'error' }, ['exception TypeError: boom', 'spanClose GET /health']],
+		[{ scriptName: 'another-worker' }, []]
+	])('filters by %j', async (filter, expected) => {
+		const { converter, subscription } = watch(filter);
+		invoke(converter, '/health');
+		subscription.close();
+
+		const events = await subscription.next();
+		expect(events.map(event => `${event.type} ${event.message}`)).toEqual(expected);
+	});
+
+	it("doesn't publish the feed's own connections", async () => {
+		const { converter, subscription } = watch();
+		invoke(converter, '/__traces/live');
+		subscription.close();
+
+		expect(await subscription.next()).toEqual([]);
+	});
+
+	it('publishes entries only once the redaction rules have scrubbed them', async () => {
+		const feed = new LiveFeed();
+		const subscription = feed.subscribe({});
+		const redactor = new Redactor({ scrub: ['email'], stripQueryParams: true, hashIps: true }, 'salt');
+		const converter = new CloudflareToOtelConverter([], { liveFeed: feed, redactor });
+		const at = (offset: number) => ({ spanId: ROOT_SPAN_ID, at: offset });
+
+		converter.handleEvent(tailEvent(fetchOnset({}, { url: 'https://example.com/users/ann@example.com?token=abc' })));
+		converter.handleEvent(tailEvent({ type: 'log', level: 'info', message: ['reset sent to', 'ann@example.com'] }, at(1)));
+		converter.handleEvent(tailEvent({ type: 'exception', name: 'Error', message: 'blocked 203.0.113.7', stack: '' }, at(2)));
+		converter.handleEvent(tailEvent(outcome('exception'), at(10)));
+		await converter.settled();
+		subscription.close();
+
+		const events = await subscription.next();
+		expect(events.map(event => `${event.type} ${event.message}`)).toEqual([
+			'spanOpen GET /users/[REDACTED_EMAIL]',
+			'log reset sent to [REDACTED_EMAIL]',
+			expect.stringMatching(/^exception Error: blocked ip-[0-9a-f]{16}$/),
+			'spanClose GET /users/[REDACTED_EMAIL]'
+		]);
+		expect(events.map(event => event.route)).toEqual(Array(4).fill('GET /users/[REDACTED_EMAIL]'));
+	});
+
+	it('renders compact terminal lines, indented by depth', async () => {
+		const { converter, subscription } = watch();
+		invoke(converter);
+
+		const lines = (await subscription.next()).map(event => renderLiveEvent(event));
+		expect(lines).toEqual([
+			'08:53:20.000 GET /api/users  ▶ GET /api/users',
+			'08:53:20.001 GET /api/users    ▶ fetch',
+			'08:53:20.002 GET /api/users      ▶ d1_query',
+			'08:53:20.003 GET /api/users      · [warn] slow query',
+			'08:53:20.004 GET /api/users      ◀ d1_query 2ms ok',
+			'08:53:20.006 GET /api/users    ◀ fetch 5ms ok',
+			'08:53:20.007 GET /api/users  ✖ TypeError: boom',
+			'08:53:20.010 GET /api/users  ◀ GET /api/users 10ms exception'
+		]);
+
+		const error: LiveEvent = { type: 'log', timestamp: 0, invocationId: 'a', traceId: '', spanId: '', depth: 0, level: 'error', message: 'x' };
+		expect(renderLiveEvent(error, { color: true })).toBe('\x1b[2m00:00:00.000\x1b[0m \x1b[36ma\x1b[0m  \x1b[31m· [error] x\x1b[0m');
+	});
+
+	it('drops the oldest events for a client that falls behind', async () => {
+		const { converter, subscription } = watch();
+		for (let i = 0; i < 130; i++) {
+			invoke(converter, `/${i}`);
+		}
+
+		const events = await subscription.next();
+		expect(events).toHaveLength(1000);
+		expect(subscription.dropped).toBe(130 * 8 - 1000);
+		expect(events.at(-1)!.route).toBe('GET /129');
+	});
+
+	describe('over HTTP', () => {
+		function connect(feed: LiveFeed, query = '', headers: HeadersInit = {}) {
+			return handleLiveRequest(new Request(`https://example.com/__traces/live${query}`, { headers }), feed, createExecutionContext());
+		}
+
+		it('streams Server-Sent Events', async () => {
+			const feed = new LiveFeed();
+			const response = await connect(feed, '?level=error', { Accept: 'text/event-stream' });
+			const reader = response.body!.getReader();
+			expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+			expect(await read(reader)).toBe(': connected\n\n');
+
+			invoke(new CloudflareToOtelConverter([], { liveFeed: feed }));
+			const [exception, close] = (await read(reader))
+				.split('\n\n')
+				.filter(Boolean)
+				.map(message => JSON.parse(message.replace(/^data: /, '')) as LiveEvent);
+			expect(exception.message).toBe('TypeError: boom');
+			expect(close.outcome).toBe('exception');
+			await reader.cancel();
+		});
+
+		it('streams rendered lines to terminals', async () => {
+			const feed = new LiveFeed();
+			const response = await connect(feed, '?color=false&level=warn');
+			const reader = response.body!.getReader();
+			invoke(new CloudflareToOtelConverter([], { liveFeed: feed }));
+
+			expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+			expect(await read(reader)).toBe(
+				[
+					'08:53:20.003 GET /api/users      · [warn] slow query',
+					'08:53:20.007 GET /api/users  ✖ TypeError: boom',
+					'08:53:20.010 GET /api/users  ◀ GET /api/users 10ms exception\n'
+				].join('\n')
+			);
+
+			// Hanging up closes the subscription
+			await reader.cancel();
+			expect(feed.active).toBe(false);
+		});
+
+		it('sends JSON messages over a WebSocket', async () => {
+			const feed = new LiveFeed();
+			const response = await connect(feed, '?level=error', { Upgrade: 'websocket' });
+			expect(response.status).toBe(101);
+
+			const socket = response.webSocket!;
+			const messages: LiveEvent[] = [];
+			const received = new Promise<void>(resolve =>
+				socket.addEventListener('message', message => {
+					messages.push(JSON.parse(message.data as string));
+					if (messages.length === 2) resolve();
+				})
+			);
+			socket.accept();
+
+			invoke(new CloudflareToOtelConverter([], { liveFeed: feed }));
+			await received;
+			expect(messages.map(message => message.type)).toEqual(['exception', 'spanClose']);
+			socket.close();
+		});
+
+		it('serves a page to browsers', async () => {
+			const response = await connect(new LiveFeed(), '', { Accept: 'text/html' });
+			expect(await response.text()).toContain('new EventSource(');
+		});
+
+		it('rejects unknown levels', async () => {
+			const response = await connect(new LiveFeed(), '?level=verbose');
+			expect(response.status).toBe(400);
+			expect(await response.text()).toBe('Unknown level "verbose", expected one of debug, info, warn, error\n');
+		});
+
+		it('is off unless OTEL_LIVE_FEED is set', async () => {
+			const response = await worker.fetch(new Request('https://example.com/__traces/live'), env, createExecutionContext());
+
+			expect(response.status).toBe(404);
+			expect(await response.text()).toContain('set OTEL_LIVE_FEED to "true"');
+		});
+	});
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { buildLogs } from '../src/logs';
+import { spans } from './fixtures/exporters/spans';
+
+describe('buildLogs', () => {
+	it('turns span logs into LogRecords correlated with their span', () => {
+		const [resourceLogs] = buildLogs(spans).resourceLogs;
+		const records = resourceLogs.scopeLogs[0].logRecords;
+
+		expect(records).toEqual([
+			{
+				timeUnixNano: '1760000000005000000',
+				observedTimeUnixNano: '1760000000005000000',
+				severityNumber: 9,
+				severityText: 'log',
+				body: { stringValue: 'Looking up user 1' },
+				attributes: [],
+				traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+				spanId: '00f067aa0ba902b7'
+			},
+			{
+				timeUnixNano: '1760000000039000000',
+				observedTimeUnixNano: '1760000000039000000',
+				severityNumber: 17,
+				severityText: 'error',
+				body: { stringValue: 'user is undefined' },
+				attributes: [
+					{ key: 'exception.type', value: { stringValue: 'TypeError' } },
+					{ key: 'exception.message', value: { stringValue: 'user is undefined' } },
+					{ key: 'exception.stacktrace', value: { stringValue: '' } }
+				],
+				traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+				spanId: '00f067aa0ba902b7'
+			}
+		]);
+	});
+
+	it.each([
+		['debug', 5],
+		['info', 9],
+		['log', 9],
+		['warn', 13],
+		['error', 17]
+	])('maps the %s level to severity %i', (level, severityNumber) => {
+		const [span] = spans;
+		const logs = buildLogs([{ ...span, logs: [{ timestamp: span.startTime, fields: { level, message: 'hi' } }] }]);
+
+		expect(logs.resourceLogs[0].scopeLogs[0].logRecords[0]).toMatchObject({ severityNumber, severityText: level });
+	});
+
+	it('uses the diagnostics channel message as the body', () => {
+		const [span] = spans;
+		const logs = buildLogs([
+			{
+				...span,
+				logs: [{ timestamp: span.startTime, fields: { level: 'debug', 'diagnostic.channel': 'db', 'diagnostic.message': 'slow query' } }]
+			}
+		]);
+
+		expect(logs.resourceLogs[0].scopeLogs[0].logRecords[0]).toMatchObject({
+			body: { stringValue: 'slow query' },
+			attributes: [{ key: 'diagnostic.channel', value: { stringValue: 'db' } }]
+		});
+	});
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { buildMetrics, DURATION_BOUNDS } from '../src/metrics';
+import { spans } from './fixtures/exporters/spans';
+
+function metricsByName(invocation: Parameters<typeof buildMetrics>[1]) {
+	const { metrics } = buildMetrics(spans, invocation).resourceMetrics[0].scopeMetrics[0];
+	return Object.fromEntries(metrics.map(metric => [metric.name, metric]));
+}
+
+describe('buildMetrics', () => {
+	it('counts completed invocations by outcome', () => {
+		const metrics = metricsByName({ scriptName: 'stw-local-dev', eventType: 'fetch', outcome: 'exception', cpuTime: 3, wallTime: 42 });
+
+		expect(metrics['cloudflare.worker.invocations']).toMatchObject({
+			unit: '{invocation}',
+			sum: {
+				aggregationTemporality: 1,
+				isMonotonic: true,
+				dataPoints: [
+					{
+						startTimeUnixNano: '1760000000000000000',
+						timeUnixNano: '1760000000042000000',
+						asInt: '1',
+						attributes: [
+							{ key: 'cloudflare.script_name', value: { stringValue: 'stw-local-dev' } },
+							{ key: 'cloudflare.event_type', value: { stringValue: 'fetch' } },
+							{ key: 'cloudflare.outcome', value: { stringValue: 'exception' } }
+						]
+					}
+				]
+			}
+		});
+	});
+
+	it('records CPU and wall time as histograms', () => {
+		const metrics = metricsByName({ outcome: 'ok', cpuTime: 3, wallTime: 42 });
+
+		expect(metrics['cloudflare.worker.cpu_time']).toMatchObject({
+			unit: 'ms',
+			histogram: { dataPoints: [{ count: '1', sum: 3, min: 3, max: 3, explicitBounds: DURATION_BOUNDS }] }
+		});
+		const wallTime = metrics['cloudflare.worker.wall_time'];
+		expect('histogram' in wallTime && wallTime.histogram.dataPoints[0].bucketCounts).toEqual([
+			'0', '0', '0', '0', '1', '0', '0', '0', '0', '0', '0', '0', '0'
+		]);
+	});
+
+	it('records span durations per span name', () => {
+		const duration = metricsByName({})['cloudflare.span.duration'];
+
+		const points = 'histogram' in duration ? duration.histogram.dataPoints : [];
+
+		expect(points.map(point => point.attributes[2].value)).toEqual([
+			{ stringValue: 'GET https://example.com/users?id=1' },
+			{ stringValue: 'kv_get' }
+		]);
+		// Nanosecond timestamps don't survive doubles exactly
+		expect(points[0].sum).toBeCloseTo(42, 3);
+		expect(points[1].sum).toBeCloseTo(2, 3);
+	});
+
+	it("names the root span's durations by the invocation's route", () => {
+		const duration = metricsByName({ route: 'GET /users' })['cloudflare.span.duration'];
+
+		const points = 'histogram' in duration ? duration.histogram.dataPoints : [];
+
+		expect(points.map(point => point.attributes[2].value)).toEqual([{ stringValue: 'GET /users' }, { stringValue: 'kv_get' }]);
+	});
+
+	it('only reports invocation metrics once the outcome is known', () => {
+		expect(Object.keys(metricsByName({}))).toEqual(['cloudflare.span.duration']);
+	});
+});
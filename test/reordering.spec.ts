@@ -0,0 +1,161 @@
+import { env } from 'cloudflare:test';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { loadConfig } from '../src/config';
+import { CloudflareToOtelConverter, ConverterLimits } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { fetchOnset, outcome, ROOT_SPAN_ID, tailEvent } from './helpers';
+
+const CHILD_SPAN_ID = '1111111111111111';
+
+interface ExportedSpan {
+	spanId: string;
+	status?: { code: number; message?: string };
+	attributes: Array<{ key: string; value: Record<string, unknown> }>;
+	events: Array<{ name: string; attributes: Array<{ key: string; value: Record<string, unknown> }> }>;
+}
+
+function createConverter(limits: Partial<ConverterLimits> = {}) {
+	return new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })), { limits });
+}
+
+function exportedSpans(fetchSpy: { mock: { calls: Array<[unknown, RequestInit?]> } }): ExportedSpan[] {
+	return fetchSpy.mock.calls.flatMap(([, init]) => JSON.parse(init?.body as string).resourceSpans[0].scopeSpans[0].spans);
+}
+
+function logMessages(span: ExportedSpan): unknown[] {
+	return span.events
+		.filter(event => event.name === 'log')
+		.map(event => event.attributes.find(attribute => attribute.key === 'message')?.value.stringValue);
+}
+
+function attribute(span: ExportedSpan, key: string): unknown {
+	const value = span.attributes.find(attribute => attribute.key === key)?.value;
+	return value && Object.values(value)[0];
+}
+
+const kvOpen = tailEvent({ type: 'spanOpen', name: 'kv_get', spanId: CHILD_SPAN_ID }, { spanId: ROOT_SPAN_ID, sequence: 1 });
+const kvLog = tailEvent({ type: 'log', level: 'info', message: ['cache miss'] }, { spanId: CHILD_SPAN_ID, sequence: 2 });
+const kvClose = tailEvent({ type: 'spanClose', outcome: 'ok' }, { spanId: CHILD_SPAN_ID, at: 2, sequence: 3 });
+const done = tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, at: 10, sequence: 4 });
+
+describe('event ordering', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.useRealTimers();
+	});
+
+	it('applies events in sequence order whatever order they arrive in', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = createConverter();
+
+		converter.handleEvent(tailEvent(fetchOnset(), { sequence: 0 }));
+		for (const event of [kvClose, done, kvLog, kvOpen]) {
+			converter.handleEvent(event);
+		}
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const [, kv] = exportedSpans(fetchSpy);
+
+		expect(kv.spanId).toBe(CHILD_SPAN_ID);
+		expect(kv.status).toEqual({ code: SpanStatusCode.OK, message: 'ok' });
+		expect(logMessages(kv)).toEqual(['cache miss']);
+	});
+
+	it('drops redelivered events', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = createConverter();
+		const onset = tailEvent(fetchOnset(), { sequence: 0 });
+
+		for (const event of [onset, onset, kvOpen, kvLog, kvLog, kvOpen, kvClose, kvLog]) {
+			converter.handleEvent(event);
+		}
+		expect(converter.openInvocations).toBe(1);
+		converter.handleEvent(done);
+		converter.handleEvent(done);
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const spans = exportedSpans(fetchSpy);
+
+		expect(spans).toHaveLength(2);
+		expect(logMessages(spans[1])).toEqual(['cache miss']);
+	});
+
+	it('skips a gap once it has waited long enough', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(0);
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = createConverter({ reorderTimeoutMs: 1000 });
+
+		// The spanOpen (sequence 1) is lost
+		converter.handleEvent(tailEvent(fetchOnset(), { sequence: 0 }));
+		converter.handleEvent(tailEvent({ type: 'log', level: 'info', message: ['before'] }, { spanId: ROOT_SPAN_ID, sequence: 2 }));
+		converter.handleEvent(tailEvent({ type: 'log', level: 'info', message: ['after'] }, { spanId: ROOT_SPAN_ID, sequence: 3 }));
+
+		vi.setSystemTime(999);
+		converter.handleEvent(done);
+		expect(fetchSpy).not.toHaveBeenCalled();
+
+		converter.sweep(1000);
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const [root] = exportedSpans(fetchSpy);
+		expect(logMessages(root)).toEqual(['before', 'after']);
+		expect(root.status).toEqual({ code: SpanStatusCode.OK, message: 'ok' });
+	});
+
+	it('skips a gap when the buffer is full', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = createConverter({ maxBufferedEvents: 3 });
+
+		converter.handleEvent(tailEvent(fetchOnset(), { sequence: 0 }));
+		for (let sequence = 2; sequence < 5; sequence++) {
+			converter.handleEvent(tailEvent({ type: 'log', level: 'info', message: [`line ${sequence}`] }, { spanId: ROOT_SPAN_ID, sequence }));
+		}
+		converter.handleEvent(tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, sequence: 5 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		expect(logMessages(exportedSpans(fetchSpy)[0])).toEqual(['line 2', 'line 3', 'line 4']);
+	});
+
+	it('parks events for a span until it opens', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = createConverter();
+
+		// The runtime numbered the log and the close ahead of the spanOpen
+		converter.handleEvent(tailEvent(fetchOnset(), { sequence: 0 }));
+		converter.handleEvent({ ...kvLog, sequence: 1 });
+		converter.handleEvent({ ...kvClose, sequence: 2 });
+		converter.handleEvent({ ...kvOpen, sequence: 3 });
+		converter.handleEvent(done);
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const [, kv] = exportedSpans(fetchSpy);
+
+		expect(kv.status).toEqual({ code: SpanStatusCode.OK, message: 'ok' });
+		expect(logMessages(kv)).toEqual(['cache miss']);
+	});
+
+	it('moves logs for a span that never opens to the root span', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(0);
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = createConverter({ reorderTimeoutMs: 1000 });
+
+		converter.handleEvent(tailEvent(fetchOnset(), { sequence: 0 }));
+		converter.handleEvent({ ...kvLog, sequence: 1 });
+		converter.handleEvent({ ...kvClose, sequence: 2 });
+
+		vi.setSystemTime(1000);
+		converter.handleEvent(tailEvent({ type: 'log', level: 'info', message: ['done'] }, { spanId: ROOT_SPAN_ID, sequence: 3 }));
+		converter.handleEvent(tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, at: 10, sequence: 4 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const spans = exportedSpans(fetchSpy);
+
+		expect(spans).toHaveLength(1);
+		expect(logMessages(spans[0])).toEqual(['cache miss', 'done']);
+		// The spanClose has nothing to close
+		expect(attribute(spans[0], 'cloudflare.dropped_events')).toBe('1');
+	});
+});
@@ -0,0 +1,103 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { loadConfig } from '../src/config';
+import worker from '../src/index';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { parseRecording, RECORDING_LOG_PREFIX, serializeTailEvent } from '../src/recording';
+import { Redactor } from '../src/redaction';
+import { Sampler } from '../src/sampling';
+import { fakeReceiver, fetchOnset, outcome, ReceivedRequest, ROOT_SPAN_ID, tailEvent } from './helpers';
+
+// Hand-written in the format `npm run record` writes (see scripts/record-tail-events.mjs), with made-up IDs and
+// timings; real recordings are replayed the same way next to them
+const recordings = Object.entries(
+	import.meta.glob<string>('./fixtures/recordings/*.jsonl', { query: '?raw', import: 'default', eager: true })
+).map(([path, jsonl]) => [path.replace(/^.*\/(.+)\.jsonl$/, '$1'), jsonl] as const);
+
+// Replays a recording through a converter set up like the tail worker's, with every signal enabled
+async function replay(events: TailStream.TailEvent[]): Promise<ReceivedRequest[]> {
+	const receiver = fakeReceiver();
+	const config = loadConfig({ ...env, OTEL_DESTINATIONS: undefined, OTEL_SIGNALS: 'traces,logs,metrics' });
+	const converter = new CloudflareToOtelConverter(createDestinations(config), {
+		sampler: new Sampler(config.sampling),
+		redactor: new Redactor(config.redaction, config.redactionHashKey),
+		capturedHeaders: config.capturedHeaders
+	});
+
+	for (const event of events) {
+		converter.handleEvent(event);
+	}
+	await converter.flush();
+
+	return receiver.requests.sort((a, b) => a.url.localeCompare(b.url));
+}
+
+describe('recorded invocations', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('has a recording for every onset type', () => {
+		const onsetTypes = new Set(recordings.flatMap(([, jsonl]) => parseRecording(jsonl).map(({ event }) => event.type === 'onset' && event.info.type)));
+
+		for (const type of ['fetch', 'jsrpc', 'scheduled', 'alarm', 'queue', 'email', 'trace', 'hibernatableWebSocket', 'resume', 'custom']) {
+			expect(onsetTypes).toContain(type);
+		}
+	});
+
+	it.each(recordings)('replays %s', async (name, jsonl) => {
+		const requests = await replay(parseRecording(jsonl));
+
+		expect(requests.length).toBeGreaterThan(0);
+		await expect(JSON.stringify(requests, null, '\t') + '\n').toMatchFileSnapshot(`./fixtures/recordings/${name}.otlp.json`);
+	});
+
+	it.each(recordings)('replays %s the same when events arrive in reverse', async (_name, jsonl) => {
+		const [onset, ...rest] = parseRecording(jsonl);
+		const inOrder = await replay([onset, ...rest]);
+		vi.restoreAllMocks();
+
+		expect(await replay([onset, ...rest.reverse()])).toEqual(inOrder);
+	});
+
+	it.each(recordings)('round-trips %s through serialization', (_name, jsonl) => {
+		const lines = jsonl.trim().split('\n');
+
+		expect(parseRecording(jsonl).map(serializeTailEvent)).toEqual(lines);
+	});
+});
+
+describe('recording', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('keeps dates and bigints', () => {
+		const event = tailEvent({ type: 'attributes', info: [{ name: 'rows', value: 12345678901234567890n }] }, { spanId: ROOT_SPAN_ID });
+		const [parsed] = parseRecording(serializeTailEvent(event));
+
+		expect(parsed).toEqual(event);
+		expect(parsed.timestamp).toBeInstanceOf(Date);
+	});
+
+	it('reports the line that is not JSON', () => {
+		expect(() => parseRecording(`${serializeTailEvent(tailEvent(fetchOnset()))}\n\n{"invocationId":`)).toThrowError(
+			'Recording line 3 is not valid JSON'
+		);
+	});
+
+	it('logs tail events when OTEL_RECORD_TAIL_EVENTS is set', async () => {
+		fakeReceiver();
+		const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		const events = [tailEvent(fetchOnset(), { invocationId: 'recorded-1' }), tailEvent(outcome('ok'), { invocationId: 'recorded-1', spanId: ROOT_SPAN_ID })];
+
+		const ctx = createExecutionContext();
+		const handler = worker.tailStream(events[0], { ...env, OTEL_RECORD_TAIL_EVENTS: 'true' }, ctx) as (event: TailStream.TailEvent) => void;
+		handler(events[1]);
+		await waitOnExecutionContext(ctx);
+
+		const recorded = logSpy.mock.calls.map(([line]) => String(line)).filter(line => line.startsWith(RECORDING_LOG_PREFIX));
+		expect(recorded).toEqual(events.map(event => RECORDING_LOG_PREFIX + serializeTailEvent(event)));
+	});
+});
@@ -0,0 +1,145 @@
+import { env } from 'cloudflare:test';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { loadConfig, parseSamplingConfig } from '../src/config';
+import type { OtelSpan } from '../src/converter';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { Sampler } from '../src/sampling';
+import { fetchOnset, outcome, ROOT_SPAN_ID, tailEvent, TRACE_ID } from './helpers';
+
+function span(overrides: Partial<OtelSpan> = {}): OtelSpan {
+	return {
+		traceId: TRACE_ID,
+		spanId: ROOT_SPAN_ID,
+		operationName: 'GET https://example.com/',
+		kind: SpanKind.SERVER,
+		startTime: 0,
+		endTime: 10000000,
+		tags: {},
+		events: [],
+		links: [],
+		logs: [],
+		...overrides
+	};
+}
+
+function randomTraceId(): string {
+	return Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+describe('Sampler', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('head samples on the trace ID, so every worker in a trace agrees', () => {
+		const sampler = new Sampler({ ratio: 0.5 });
+
+		expect(sampler.decide([span({ traceId: '00000000000000000000000000000001' })], { outcome: 'ok' })).toBe('sampled');
+		expect(sampler.decide([span({ traceId: '0000000000000000000fffffffffffff' })], { outcome: 'ok' })).toBeUndefined();
+
+		const traceIds = Array.from({ length: 50 }, randomTraceId);
+		const decide = (sampler: Sampler) => traceIds.map(traceId => sampler.decide([span({ traceId })], { outcome: 'ok' }));
+		expect(decide(new Sampler({ ratio: 0.5 }))).toEqual(decide(new Sampler({ ratio: 0.5 })));
+	});
+
+	it('keeps roughly the configured ratio of traces', () => {
+		const sampler = new Sampler({ ratio: 0.25 });
+		const kept = Array.from({ length: 2000 }, randomTraceId).filter(traceId => sampler.decide([span({ traceId })], {}));
+
+		expect(kept.length).toBeGreaterThan(400);
+		expect(kept.length).toBeLessThan(600);
+	});
+
+	it('keeps errors that head sampling dropped', () => {
+		const sampler = new Sampler({ ratio: 0 });
+
+		expect(sampler.decide([span()], { outcome: 'ok' })).toBeUndefined();
+		expect(sampler.decide([span()], { outcome: 'exceededCpu' })).toBe('error');
+		expect(sampler.decide([span(), span({ status: { code: SpanStatusCode.ERROR } })], { outcome: 'ok' })).toBe('error');
+		const exception = { timestamp: 0, name: 'exception', attributes: { 'exception.type': 'TypeError' } };
+		expect(sampler.decide([span({ events: [exception] })], { outcome: 'ok' })).toBe('error');
+
+		expect(new Sampler({ ratio: 0, keepErrors: false }).decide([span()], { outcome: 'exception' })).toBeUndefined();
+	});
+
+	it('keeps slow invocations', () => {
+		const sampler = new Sampler({ ratio: 0, slowThresholdMs: 500 });
+
+		expect(sampler.decide([span()], { outcome: 'ok', wallTime: 400 })).toBeUndefined();
+		expect(sampler.decide([span()], { outcome: 'ok', wallTime: 750 })).toBe('slow');
+		// Hibernated segments have no wall time, so their span durations count instead
+		expect(sampler.decide([span({ startTime: 0, endTime: 600000000 })], {})).toBe('slow');
+	});
+
+	it('rate limits head sampled invocations per route', () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(0);
+		const sampler = new Sampler({ rateLimits: [{ route: 'GET /api/*', perSecond: 1 }] });
+		const api = { route: 'GET /api/users', outcome: 'ok' as const };
+
+		expect(sampler.decide([span()], api)).toBe('sampled');
+		expect(sampler.decide([span()], api)).toBeUndefined();
+		expect(sampler.decide([span()], { ...api, route: 'GET /health' })).toBe('sampled');
+		// Errors are kept even when their route is over its limit
+		expect(sampler.decide([span()], { ...api, outcome: 'exception' })).toBe('error');
+
+		vi.setSystemTime(1000);
+		expect(sampler.decide([span()], api)).toBe('sampled');
+		expect(sampler.decide([span()], api)).toBeUndefined();
+	});
+});
+
+describe('parseSamplingConfig', () => {
+	it('accepts structured vars as well as JSON strings', () => {
+		const config = { ratio: 0.1, slowThresholdMs: 1000, rateLimits: [{ route: 'queue:*', perSecond: 0.5 }] };
+
+		expect(parseSamplingConfig({ ...env, OTEL_SAMPLING: config })).toEqual(config);
+		expect(parseSamplingConfig({ ...env, OTEL_SAMPLING: JSON.stringify(config) })).toEqual(config);
+		expect(parseSamplingConfig({ ...env, OTEL_SAMPLING: undefined })).toEqual({});
+	});
+
+	it.each([
+		['not json', 'OTEL_SAMPLING is not valid JSON'],
+		[[], 'OTEL_SAMPLING must be an object'],
+		[{ ratio: 2 }, 'ratio must be a number between 0 and 1, got 2'],
+		[{ slowThresholdMs: '1s' }, 'slowThresholdMs must be a non-negative number, got "1s"'],
+		[{ rateLimits: [{ route: '/api' }] }, 'rateLimits[0] must have a "route" and a positive "perSecond"'],
+		[{ rateLimits: [{ route: '/api', perSecond: 1, burst: 0 }] }, 'rateLimits[0] burst must be at least 1']
+	])('rejects %j', (config, message) => {
+		expect(() => parseSamplingConfig({ ...env, OTEL_SAMPLING: typeof config === 'string' ? config : JSON.stringify(config) })).toThrowError(
+			message
+		);
+	});
+});
+
+describe('sampling in the converter', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('drops unsampled invocations and records why the others were kept', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })), {
+			sampler: new Sampler({ ratio: 0 })
+		});
+
+		converter.handleEvent(tailEvent(fetchOnset()));
+		converter.handleEvent(tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, at: 10 }));
+		converter.handleEvent(tailEvent(fetchOnset()));
+		converter.handleEvent(tailEvent(outcome('exception'), { spanId: ROOT_SPAN_ID, at: 10 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const body = JSON.parse(fetchSpy.mock.calls[0][1]?.body as string);
+		const [rootSpan] = body.resourceSpans[0].scopeSpans[0].spans;
+
+		expect(rootSpan.status).toEqual({ code: SpanStatusCode.ERROR, message: 'exception' });
+		expect(rootSpan.attributes).toEqual(
+			expect.arrayContaining([
+				{ key: 'cloudflare.sampling.decision', value: { stringValue: 'error' } },
+				{ key: 'cloudflare.sampling.ratio', value: { intValue: '0' } }
+			])
+		);
+	});
+});
@@ -0,0 +1,225 @@
+import { env } from 'cloudflare:test';
+import { SpanKind } from '@opentelemetry/api';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { loadConfig, parseCapturedHeaders } from '../src/config';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import {
+	cfAttributes,
+	childSpanClassification,
+	DEFAULT_CAPTURED_HEADERS,
+	httpClientAttributes,
+	httpServerAttributes,
+	onsetSpanKind,
+	workerResource
+} from '../src/semconv';
+import { fetchOnset, outcome, ROOT_SPAN_ID, tailEvent } from './helpers';
+
+const request: TailStream.FetchEventInfo = {
+	type: 'fetch',
+	method: 'POST',
+	url: 'https://api.example.com:8443/v1/orders?draft=true',
+	cfJson: '{}',
+	headers: [
+		{ name: 'User-Agent', value: 'curl/8.4.0' },
+		{ name: 'CF-Connecting-IP', value: '203.0.113.7' },
+		{ name: 'Content-Type', value: 'application/json' },
+		{ name: 'Accept', value: 'application/json' },
+		{ name: 'Accept', value: 'text/plain' },
+		{ name: 'Authorization', value: 'Bearer secret' }
+	]
+};
+
+describe('httpServerAttributes', () => {
+	it('maps the request to HTTP semantic convention attributes', () => {
+		expect(httpServerAttributes(request, DEFAULT_CAPTURED_HEADERS)).toEqual({
+			'http.request.method': 'POST',
+			'url.full': 'https://api.example.com:8443/v1/orders?draft=true',
+			'url.scheme': 'https',
+			'url.path': '/v1/orders',
+			'server.address': 'api.example.com',
+			'server.port': 8443,
+			'user_agent.original': 'curl/8.4.0',
+			'client.address': '203.0.113.7',
+			'http.request.header.content-type': ['application/json'],
+			'http.request.header.accept': ['application/json', 'text/plain']
+		});
+	});
+
+	it('only records allow-listed headers', () => {
+		const attributes = httpServerAttributes(request, ['authorization']);
+
+		expect(attributes['http.request.header.authorization']).toEqual(['Bearer secret']);
+		expect(attributes).not.toHaveProperty('http.request.header.accept');
+	});
+
+	it('reads cf attributes from the cfJson string, skipping a malformed one', () => {
+		expect(httpServerAttributes({ ...request, cfJson: JSON.stringify({ colo: 'LIS', asn: 13335 }) }, [])).toMatchObject({
+			'cloudflare.colo': 'LIS',
+			'cloudflare.asn': 13335
+		});
+		expect(httpServerAttributes({ ...request, cfJson: '{"colo":' }, [])).toEqual(httpServerAttributes(request, []));
+	});
+
+	it('parses the header allow list from OTEL_CAPTURE_REQUEST_HEADERS', () => {
+		expect(parseCapturedHeaders({ ...env, OTEL_CAPTURE_REQUEST_HEADERS: undefined })).toEqual(DEFAULT_CAPTURED_HEADERS);
+		expect(parseCapturedHeaders({ ...env, OTEL_CAPTURE_REQUEST_HEADERS: ' X-Tenant , cf-ray,' })).toEqual(['x-tenant', 'cf-ray']);
+		expect(parseCapturedHeaders({ ...env, OTEL_CAPTURE_REQUEST_HEADERS: '' })).toEqual([]);
+	});
+});
+
+describe('httpClientAttributes', () => {
+	it('maps a subrequest to HTTP client attributes', () => {
+		expect(httpClientAttributes({ type: 'fetch', method: 'GET', url: 'https://origin.test/health', cfJson: '{}', headers: [] })).toEqual({
+			'http.request.method': 'GET',
+			'url.full': 'https://origin.test/health',
+			'server.address': 'origin.test'
+		});
+	});
+});
+
+describe('cfAttributes', () => {
+	it('turns cf fields into typed attributes', () => {
+		expect(
+			cfAttributes({
+				colo: 'LIS',
+				asn: 13335,
+				asOrganization: 'Cloudflare',
+				clientTcpRtt: 12,
+				country: 'PT',
+				regionCode: '11',
+				city: 'Lisbon',
+				continent: 'EU',
+				latitude: '38.71667',
+				longitude: '-9.13333',
+				timezone: 'Europe/Lisbon',
+				tlsVersion: 'TLSv1.3',
+				tlsCipher: 'AEAD-AES128-GCM-SHA256',
+				httpProtocol: 'HTTP/2'
+			})
+		).toEqual({
+			'cloudflare.colo': 'LIS',
+			'cloudflare.asn': 13335,
+			'cloudflare.as_organization': 'Cloudflare',
+			'cloudflare.client_tcp_rtt': 12,
+			'cloudflare.timezone': 'Europe/Lisbon',
+			'geo.continent.code': 'EU',
+			'geo.country.iso_code': 'PT',
+			'geo.region.iso_code': 'PT-11',
+			'geo.locality.name': 'Lisbon',
+			'geo.location.lat': 38.71667,
+			'geo.location.lon': -9.13333,
+			'tls.protocol.name': 'tls',
+			'tls.protocol.version': '1.3',
+			'tls.cipher': 'AEAD-AES128-GCM-SHA256',
+			'network.protocol.name': 'http',
+			'network.protocol.version': '2'
+		});
+	});
+
+	it('skips missing and unparseable fields', () => {
+		expect(cfAttributes({ colo: 'LIS', tlsVersion: '', httpProtocol: 'quic' })).toEqual({ 'cloudflare.colo': 'LIS' });
+	});
+});
+
+describe('span kinds', () => {
+	it.each([
+		[{ type: 'fetch', method: 'GET', url: 'https://example.com/', headers: [] }, SpanKind.SERVER],
+		[{ type: 'jsrpc', methodName: 'getUser' }, SpanKind.SERVER],
+		[{ type: 'queue', queueName: 'orders', batchSize: 3 }, SpanKind.CONSUMER],
+		[{ type: 'scheduled', scheduledTime: new Date(0), cron: '* * * * *' }, SpanKind.INTERNAL],
+		[{ type: 'alarm', scheduledTime: new Date(0) }, SpanKind.INTERNAL]
+	] as const)('classifies a %j onset', (info, kind) => {
+		expect(onsetSpanKind(info as TailStream.Onset['info'])).toBe(kind);
+	});
+
+	it.each([
+		['fetch', { type: 'fetch', method: 'POST', url: 'https://origin.test/', headers: [] }, SpanKind.CLIENT, { 'http.request.method': 'POST' }],
+		['jsrpc', { type: 'jsrpc', methodName: 'getUser' }, SpanKind.CLIENT, { 'rpc.method': 'getUser' }],
+		['kv_get', undefined, SpanKind.CLIENT, { 'db.system': 'cloudflare-kv', 'db.operation': 'get' }],
+		['d1_exec', undefined, SpanKind.CLIENT, { 'db.system': 'cloudflare-d1', 'db.operation': 'exec' }],
+		['r2_put', undefined, SpanKind.CLIENT, { 'db.system': 'cloudflare-r2', 'db.operation': 'put' }],
+		['queue_sendBatch', undefined, SpanKind.PRODUCER, { 'messaging.system': 'cloudflare-queues', 'messaging.operation.name': 'sendBatch' }],
+		['render_page', undefined, SpanKind.INTERNAL, {}]
+	] as const)('classifies a %s child span', (name, info, kind, attributes) => {
+		const classification = childSpanClassification(name, info as TailStream.SpanOpen['info']);
+
+		expect(classification.kind).toBe(kind);
+		expect(classification.attributes).toMatchObject(attributes);
+	});
+});
+
+describe('HTTP attributes in the converter', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('records request, cf and subrequest attributes on the spans', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })), {
+			capturedHeaders: ['x-tenant']
+		});
+
+		// The runtime sends the request's cf object as a JSON string
+		const cfJson = JSON.stringify({ colo: 'LIS', httpProtocol: 'HTTP/3' });
+		converter.handleEvent(tailEvent(fetchOnset({}, { headers: [{ name: 'X-Tenant', value: 'acme' }], cfJson })));
+		const subrequestInfo: TailStream.FetchEventInfo = { type: 'fetch', method: 'GET', url: 'https://origin.test/', cfJson: '{}', headers: [] };
+		converter.handleEvent(tailEvent({ type: 'spanOpen', name: 'fetch', spanId: '0b0c0d0e0f101112', info: subrequestInfo }, { spanId: ROOT_SPAN_ID }));
+		converter.handleEvent(tailEvent({ type: 'spanClose', outcome: 'ok' }, { spanId: '0b0c0d0e0f101112', at: 5 }));
+		converter.handleEvent(tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, at: 10 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const [root, subrequest] = JSON.parse(fetchSpy.mock.calls[0][1]?.body as string).resourceSpans[0].scopeSpans[0].spans;
+		const attributes = (span: any) => Object.fromEntries(span.attributes.map(({ key, value }: any) => [key, value]));
+
+		expect(attributes(root)).toMatchObject({
+			'http.request.method': { stringValue: 'GET' },
+			'url.full': { stringValue: 'https://example.com/' },
+			'url.path': { stringValue: '/' },
+			'http.request.header.x-tenant': { arrayValue: { values: [{ stringValue: 'acme' }] } },
+			'cloudflare.colo': { stringValue: 'LIS' },
+			'network.protocol.version': { stringValue: '3' }
+		});
+		expect(attributes(root)).not.toHaveProperty('cf.properties');
+		expect(attributes(root)).not.toHaveProperty('http.method');
+		expect(root.kind).toBe(2);
+		expect(subrequest.kind).toBe(3);
+		expect(attributes(subrequest)).toEqual({
+			'http.request.method': { stringValue: 'GET' },
+			'url.full': { stringValue: 'https://origin.test/' },
+			'server.address': { stringValue: 'origin.test' }
+		});
+	});
+
+	it("puts each worker's identity in the resource of its spans", async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })));
+		const scriptVersion = { id: '8f2c7a1e-0000-4000-8000-000000000000', tag: 'v1.4.2' };
+
+		converter.handleEvent(tailEvent(fetchOnset({ scriptName: 'tenant-a', scriptVersion, dispatchNamespace: 'customers' })));
+		converter.handleEvent(tailEvent({ type: 'spanOpen', name: 'kv_get', spanId: '0b0c0d0e0f101112' }, { spanId: ROOT_SPAN_ID }));
+		converter.handleEvent(tailEvent({ type: 'spanClose', outcome: 'ok' }, { spanId: '0b0c0d0e0f101112', at: 5 }));
+		converter.handleEvent(tailEvent(outcome('ok'), { spanId: ROOT_SPAN_ID, at: 10 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const { resourceSpans } = JSON.parse(fetchSpy.mock.calls[0][1]?.body as string);
+		expect(resourceSpans).toHaveLength(1);
+		expect(resourceSpans[0].resource.attributes).toEqual([
+			{ key: 'service.name', value: { stringValue: 'tenant-a' } },
+			{ key: 'service.version', value: { stringValue: 'v1.4.2' } },
+			{ key: 'service.namespace', value: { stringValue: 'customers' } },
+			{ key: 'cloud.provider', value: { stringValue: 'cloudflare' } },
+			{ key: 'cloud.platform', value: { stringValue: 'cloudflare.workers' } }
+		]);
+		expect(resourceSpans[0].scopeSpans[0].spans).toHaveLength(2);
+	});
+
+	it('falls back to the version ID and a generic service name', () => {
+		expect(workerResource({ scriptVersion: { id: 'abc' } })).toEqual({
+			'service.name': 'cloudflare-worker',
+			'service.version': 'abc',
+			'cloud.provider': 'cloudflare',
+			'cloud.platform': 'cloudflare.workers'
+		});
+	});
+});
@@ -0,0 +1,150 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { loadConfig } from '../src/config';
+import worker from '../src/index';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { fetchOnset, outcome, ROOT_SPAN_ID, tailEvent, TRACE_ID } from './helpers';
+
+// Runtime-assigned trace IDs of the two downstream invocations, before stitching
+const AUTH_TRACE_ID = 'a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1';
+const CONSUMER_TRACE_ID = 'c3c3c3c3c3c3c3c3c3c3c3c3c3c3c3c3';
+
+const AUTH_FETCH_SPAN_ID = '1111111111111111';
+const QUEUE_SEND_SPAN_ID = '2222222222222222';
+const AUTH_ROOT_SPAN_ID = '3333333333333333';
+const AUTH_KV_SPAN_ID = '4444444444444444';
+const CONSUMER_ROOT_SPAN_ID = '5555555555555555';
+
+interface ExportedSpan {
+	traceId: string;
+	spanId: string;
+	parentSpanId?: string;
+	name: string;
+	links: Array<{ traceId: string; spanId: string; attributes?: unknown[] }>;
+}
+
+// Feeds one worker's invocation through the tail worker's streaming tail handler, like the runtime does.
+// This stands in for a multi-worker Miniflare test, which can't be written yet: Miniflare ignores
+// `streaming_tail_consumers`, and its legacy `tails` deliver TraceItems without the trace IDs or triggers
+// stitching works from. So the events each worker would emit are replayed here instead.
+async function tailInvocation(events: TailStream.TailEvent<TailStream.EventType>[]) {
+	const ctx = createExecutionContext();
+	const [onset, ...rest] = events;
+	const handler = worker.tailStream(onset as TailStream.TailEvent<TailStream.Onset>, env, ctx) as (event: TailStream.TailEvent) => void;
+	for (const event of rest) {
+		handler(event);
+	}
+	await waitOnExecutionContext(ctx);
+}
+
+function exportedSpans(fetchSpy: { mock: { calls: Array<[unknown, RequestInit?]> } }): ExportedSpan[] {
+	return fetchSpy.mock.calls.flatMap(([, init]) => JSON.parse(init?.body as string).resourceSpans[0].scopeSpans[0].spans);
+}
+
+describe('cross-worker trace stitching', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('puts a fetch, a service binding call and the queue consumer it feeds into one trace', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+
+		// stw-local-dev handles a request, calls AUTH_SERVICE and sends to ANALYTICS_QUEUE
+		const frontend = { invocationId: 'frontend-1' };
+		await tailInvocation([
+			tailEvent(fetchOnset(), frontend),
+			tailEvent(
+				{ type: 'spanOpen', name: 'fetch', spanId: AUTH_FETCH_SPAN_ID, info: { type: 'fetch', method: 'POST', url: 'https://auth/validate', cfJson: '{}', headers: [] } },
+				{ ...frontend, spanId: ROOT_SPAN_ID, at: 1 }
+			),
+			tailEvent({ type: 'spanClose', outcome: 'ok' }, { ...frontend, spanId: AUTH_FETCH_SPAN_ID, at: 4 }),
+			tailEvent({ type: 'spanOpen', name: 'queue_send', spanId: QUEUE_SEND_SPAN_ID }, { ...frontend, spanId: ROOT_SPAN_ID, at: 5 }),
+			tailEvent({ type: 'spanClose', outcome: 'ok' }, { ...frontend, spanId: QUEUE_SEND_SPAN_ID, at: 6 }),
+			tailEvent(outcome('ok'), { ...frontend, spanId: ROOT_SPAN_ID, at: 10 })
+		]);
+
+		// The auth service's invocation, triggered by the service binding fetch
+		const auth = { invocationId: 'auth-1', traceId: AUTH_TRACE_ID };
+		await tailInvocation([
+			tailEvent(
+				fetchOnset(
+					{
+						spanId: AUTH_ROOT_SPAN_ID,
+						scriptName: 'auth-service',
+						trigger: { traceId: TRACE_ID, invocationId: 'frontend-1', spanId: AUTH_FETCH_SPAN_ID }
+					},
+					{ method: 'POST', url: 'https://auth/validate' }
+				),
+				{ ...auth, at: 2 }
+			),
+			tailEvent({ type: 'spanOpen', name: 'kv_get', spanId: AUTH_KV_SPAN_ID }, { ...auth, spanId: AUTH_ROOT_SPAN_ID, at: 2 }),
+			tailEvent({ type: 'spanClose', outcome: 'ok' }, { ...auth, spanId: AUTH_KV_SPAN_ID, at: 3 }),
+			tailEvent(outcome('ok'), { ...auth, spanId: AUTH_ROOT_SPAN_ID, at: 3 })
+		]);
+
+		// The queue() consumer picking up the message later
+		const consumer = { invocationId: 'consumer-1', traceId: CONSUMER_TRACE_ID };
+		await tailInvocation([
+			tailEvent(
+				{
+					type: 'onset',
+					spanId: CONSUMER_ROOT_SPAN_ID,
+					executionModel: 'stateless',
+					scriptName: 'stw-local-dev',
+					attributes: [],
+					info: { type: 'queue', queueName: 'analytics-queue', batchSize: 1 },
+					trigger: { traceId: TRACE_ID, invocationId: 'frontend-1', spanId: QUEUE_SEND_SPAN_ID }
+				},
+				{ ...consumer, at: 500 }
+			),
+			tailEvent(outcome('ok'), { ...consumer, spanId: CONSUMER_ROOT_SPAN_ID, at: 520 })
+		]);
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(3));
+		const spans = exportedSpans(fetchSpy);
+		const parents = Object.fromEntries(spans.map(span => [span.spanId, span.parentSpanId]));
+
+		expect(spans).toHaveLength(6);
+		expect(new Set(spans.map(span => span.traceId))).toEqual(new Set([TRACE_ID]));
+		expect(parents).toEqual({
+			[ROOT_SPAN_ID]: undefined,
+			[AUTH_FETCH_SPAN_ID]: ROOT_SPAN_ID,
+			[QUEUE_SEND_SPAN_ID]: ROOT_SPAN_ID,
+			[AUTH_ROOT_SPAN_ID]: AUTH_FETCH_SPAN_ID,
+			[AUTH_KV_SPAN_ID]: AUTH_ROOT_SPAN_ID,
+			[CONSUMER_ROOT_SPAN_ID]: QUEUE_SEND_SPAN_ID
+		});
+	});
+
+	it('links the trigger when the runtime already propagated a parent', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+		const converter = new CloudflareToOtelConverter(createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: undefined })));
+		const upstream = { traceId: AUTH_TRACE_ID, spanId: AUTH_FETCH_SPAN_ID };
+
+		converter.handleEvent(
+			tailEvent(fetchOnset({ trigger: { traceId: CONSUMER_TRACE_ID, invocationId: 'other-1', spanId: QUEUE_SEND_SPAN_ID } }), upstream)
+		);
+		converter.handleEvent(tailEvent(outcome('ok'), { traceId: AUTH_TRACE_ID, spanId: ROOT_SPAN_ID, at: 10 }));
+
+		await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledOnce());
+		const [root] = exportedSpans(fetchSpy);
+
+		expect(root.traceId).toBe(AUTH_TRACE_ID);
+		expect(root.parentSpanId).toBe(AUTH_FETCH_SPAN_ID);
+		expect(root.links).toEqual([
+			{
+				traceId: CONSUMER_TRACE_ID,
+				spanId: QUEUE_SEND_SPAN_ID,
+				attributes: [
+					{ key: 'link.invocation_id', value: { stringValue: 'other-1' } },
+					{ key: 'link.label', value: { stringValue: 'trigger' } }
+				]
+			}
+		]);
+	});
+
+	// Descoped from user-010: Miniflare 4.20250906 (vitest-pool-workers 0.8) has no option for
+	// `streaming_tail_consumers`, so real workers can't stream their events to the tail worker yet
+	it.todo('stitches a fetch, a service binding call and a queue consumer run as separate workers under Miniflare');
+});
@@ -0,0 +1,173 @@
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { loadConfig, parseDestinationConfigs } from '../src/config';
+import worker from '../src/index';
+import { CloudflareToOtelConverter } from '../src/converter';
+import { createDestinations } from '../src/destinations';
+import { Redactor } from '../src/redaction';
+import { StoredInvocation, StoredTrace, TraceStore } from '../src/trace-store';
+import { authorizeViewerRequest, handleViewerRequest } from '../src/viewer';
+import { fetchOnset, outcome, ROOT_SPAN_ID, tailEvent, TRACE_ID } from './helpers';
+
+const OTHER_TRACE_ID = 'c3c3c3c3c3c3c3c3c3c3c3c3c3c3c3c3';
+
+function createConverter(retain?: number) {
+	return new CloudflareToOtelConverter(
+		createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: [{ name: 'viewer', type: 'viewer', database: 'DB', retain }] }))
+	);
+}
+
+interface Invocation {
+	path: string;
+	method: string;
+	result: TailStream.EventOutcome;
+	traceId: string;
+	at: number;
+}
+
+// Runs one fetch invocation, with a KV call, through the converter
+function invoke(converter: CloudflareToOtelConverter, options: Partial<Invocation> = {}) {
+	const { path = '/', method = 'GET', result = 'ok', traceId = TRACE_ID, at = 0 } = options;
+	const invocation = { invocationId: `${method} ${path} ${at}`, traceId };
+	const kvSpanId = '1111111111111111';
+
+	converter.handleEvent(tailEvent(fetchOnset({}, { method, url: `https://example.com${path}` }), { ...invocation, at }));
+	converter.handleEvent(tailEvent({ type: 'spanOpen', name: 'kv_get', spanId: kvSpanId }, { ...invocation, spanId: ROOT_SPAN_ID, at: at + 1 }));
+	converter.handleEvent(tailEvent({ type: 'spanClose', outcome: 'ok' }, { ...invocation, spanId: kvSpanId, at: at + 2 }));
+	converter.handleEvent(tailEvent(outcome(result), { ...invocation, spanId: ROOT_SPAN_ID, at: at + 5 }));
+}
+
+async function get<T>(path: string): Promise<[number, T]> {
+	const response = await handleViewerRequest(new Request(`https://example.com/__traces${path}`), new TraceStore(env.DB));
+	return [response.status, await response.json<T>()];
+}
+
+describe('trace viewer', () => {
+	it('lists stored invocations, newest first, filtered by outcome and route', async () => {
+		const converter = createConverter();
+		invoke(converter, { path: '/api/users', at: 0 });
+		invoke(converter, { path: '/api/orders', result: 'exception', traceId: OTHER_TRACE_ID, at: 10 });
+		invoke(converter, { path: '/health', at: 20 });
+		await converter.flush();
+
+		const [status, { invocations }] = await get<{ invocations: StoredInvocation[] }>('/api/traces');
+		expect(status).toBe(200);
+		expect(invocations.map(invocation => invocation.route)).toEqual(['GET /health', 'GET /api/orders', 'GET /api/users']);
+		expect(invocations[1]).toEqual({
+			traceId: OTHER_TRACE_ID,
+			rootSpanId: ROOT_SPAN_ID,
+			scriptName: 'stw-local-dev',
+			route: 'GET /api/orders',
+			outcome: 'exception',
+			startTime: expect.any(Number),
+			durationMs: 5,
+			spanCount: 2,
+			error: true
+		});
+
+		const [, failed] = await get<{ invocations: StoredInvocation[] }>('/api/traces?outcome=exception');
+		expect(failed.invocations.map(invocation => invocation.route)).toEqual(['GET /api/orders']);
+
+		const [, api] = await get<{ invocations: StoredInvocation[] }>(`/api/traces?route=${encodeURIComponent('GET /api/*')}&limit=1`);
+		expect(api.invocations.map(invocation => invocation.route)).toEqual(['GET /api/orders']);
+	});
+
+	it('returns every span of a trace, across invocations', async () => {
+		const converter = createConverter();
+		invoke(converter, { path: '/checkout', at: 0 });
+		// A second invocation stitched into the same trace
+		invoke(converter, { path: '/payments', method: 'POST', at: 3 });
+		await converter.flush();
+
+		const [status, trace] = await get<StoredTrace>(`/api/traces/${TRACE_ID.toUpperCase()}`);
+		expect(status).toBe(200);
+		expect(trace.invocations.map(invocation => invocation.route)).toEqual(['GET /checkout', 'POST /payments']);
+		expect(trace.spans.map(span => span.operationName)).toEqual(['GET /checkout', 'kv_get', 'POST /payments', 'kv_get']);
+
+		expect(await get(`/api/traces/${OTHER_TRACE_ID}`)).toEqual([404, { error: `Trace ${OTHER_TRACE_ID} not found` }]);
+		expect(await get('/api/traces/not-a-trace')).toEqual([400, { error: 'Trace IDs are 32 hex characters' }]);
+	});
+
+	it('keeps only the most recent invocations', async () => {
+		const converter = createConverter(2);
+		for (const at of [0, 10, 20]) {
+			invoke(converter, { path: `/${at}`, at });
+		}
+		await converter.flush();
+
+		const [, { invocations }] = await get<{ invocations: StoredInvocation[] }>('/api/traces');
+		expect(invocations.map(invocation => invocation.route)).toEqual(['GET /20', 'GET /10']);
+	});
+
+	it('stores routes redacted like the spans', async () => {
+		const converter = new CloudflareToOtelConverter(
+			createDestinations(loadConfig({ ...env, OTEL_DESTINATIONS: [{ name: 'viewer', type: 'viewer', database: 'DB' }] })),
+			{ redactor: new Redactor({ scrub: [{ pattern: 'acct_\\d+', replacement: 'acct_*' }] }) }
+		);
+		invoke(converter, { path: '/accounts/acct_1234' });
+		await converter.flush();
+
+		const [, { invocations }] = await get<{ invocations: StoredInvocation[] }>('/api/traces');
+		expect(invocations.map(invocation => invocation.route)).toEqual(['GET /accounts/acct_*']);
+	});
+
+	it("doesn't store requests to the viewer itself", async () => {
+		const converter = createConverter();
+		invoke(converter, { path: '/__traces/api/traces' });
+		invoke(converter, { path: '/__tracesque', at: 10 });
+		await converter.flush();
+
+		const [, { invocations }] = await get<{ invocations: StoredInvocation[] }>('/api/traces');
+		expect(invocations.map(invocation => invocation.route)).toEqual(['GET /__tracesque']);
+	});
+
+	it('serves the viewer page', async () => {
+		const store = new TraceStore(env.DB);
+		const page = await handleViewerRequest(new Request('https://example.com/__traces/'), store);
+		const post = await handleViewerRequest(new Request('https://example.com/__traces', { method: 'POST' }), store);
+
+		expect(page.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+		expect(await page.text()).toContain('<title>Traces</title>');
+		expect(post.status).toBe(405);
+	});
+
+	it('is off without a viewer destination', async () => {
+		const response = await worker.fetch(new Request('https://example.com/__traces'), env, createExecutionContext());
+
+		expect(response.status).toBe(404);
+		expect(await response.text()).toContain('add a "viewer" destination to OTEL_DESTINATIONS');
+	});
+
+	it('is only served in development without a token', async () => {
+		const request = new Request('https://example.com/__traces/live');
+
+		expect(await authorizeViewerRequest(request, undefined, true)).toBeUndefined();
+		const denied = await authorizeViewerRequest(request, undefined, false);
+		expect(denied?.status).toBe(404);
+		expect(await denied?.text()).toContain('Set OTEL_VIEWER_TOKEN');
+	});
+
+	it('requires the token, as a bearer token or query parameter, once one is set', async () => {
+		const authorize = (url: string, headers: HeadersInit = {}) =>
+			authorizeViewerRequest(new Request(`https://example.com${url}`, { headers }), 's3cret', true);
+
+		expect(await authorize('/__traces/api/stats', { Authorization: 'Bearer s3cret' })).toBeUndefined();
+		expect(await authorize('/__traces?token=s3cret')).toBeUndefined();
+		const attempts = [authorize('/__traces'), authorize('/__traces?token=s3cre'), authorize('/__traces', { Authorization: 'Bearer x' })];
+		for (const denied of await Promise.all(attempts)) {
+			expect(denied?.status).toBe(401);
+			expect(denied?.headers.get('WWW-Authenticate')).toBe('Bearer');
+		}
+	});
+
+	it.each([
+		[{ name: 'viewer', type: 'viewer' }, 'Destination "viewer" is a viewer destination but has no "database"'],
+		[{ name: 'viewer', type: 'viewer', database: 'DB', retain: 0 }, 'Destination "viewer" retain must be a positive integer, got 0'],
+		[
+			{ name: 'viewer', type: 'viewer', database: 'DB', signals: ['logs'] },
+			'Destination "viewer" is a viewer destination, which only stores traces'
+		]
+	])('rejects %j', (config, message) => {
+		expect(() => parseDestinationConfigs({ ...env, OTEL_DESTINATIONS: [config] })).toThrowError(message);
+	});
+});
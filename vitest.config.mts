@@ -5,6 +5,9 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				// Send each invocation on its own, uncompressed, so tests can read exports straight off `fetch`.
+				// Batching and compression are tested with these unset.
+				miniflare: { bindings: { OTEL_BSP_MAX_EXPORT_BATCH_SIZE: '1', OTEL_EXPORTER_OTLP_COMPRESSION: 'none' } },
 			},
 		},
 	},
@@ -12,6 +12,7 @@ declare namespace Cloudflare {
 		UPLOADS: R2Bucket;
 		DB: D1Database;
 		ANALYTICS_QUEUE: Queue;
+		ANALYTICS_DLQ: Queue;
 	}
 }
 interface Env extends Cloudflare.Env {}